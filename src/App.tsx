@@ -10,6 +10,11 @@ import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Profile from "./pages/Profile";
+import Farms from "./pages/Farms";
+import FarmDetail from "./pages/FarmDetail";
+import CropComparison from "./pages/CropComparison";
+import SoilTestImport from "./pages/SoilTestImport";
+import MarketPriceImport from "./pages/MarketPriceImport";
 import NotFound from "./pages/NotFound";
 import Navbar from "@/components/Navbar";
 
@@ -37,6 +42,11 @@ function App() {
               <Route path="/" element={<Index />} />
               <Route path="/auth" element={<Auth />} />
               <Route path="/dashboard" element={<Dashboard />} />
+              <Route path="/farms" element={<Farms />} />
+              <Route path="/farms/:id" element={<FarmDetail />} />
+              <Route path="/farms/:id/compare" element={<CropComparison />} />
+              <Route path="/soil-tests/import" element={<SoilTestImport />} />
+              <Route path="/market-prices/import" element={<MarketPriceImport />} />
               <Route path="/profile" element={<Profile />} />
               <Route path="/settings" element={<Profile />} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
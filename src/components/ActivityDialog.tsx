@@ -0,0 +1,371 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/enhanced-button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Save } from "lucide-react";
+import { useCrops } from "@/hooks/useCrops";
+import { useCropVarieties } from "@/hooks/useCropVarieties";
+import { useFarmActivities, type FarmActivity } from "@/hooks/useFarmActivities";
+import { useSeasons } from "@/hooks/useSeasons";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ACTIVITY_RATE_UNITS,
+  ACTIVITY_TYPE_LABELS,
+  RATE_UNIT_LABELS,
+  type ActivityType,
+  type RateUnit,
+} from "@/lib/activities";
+import { FERTILIZER_GRADES } from "@/lib/fertilizer";
+import { seasonLabel } from "@/lib/seasons";
+
+interface ActivityDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  farmId: string;
+  // Activity being edited; a new one is logged without
+  activity?: FarmActivity | null;
+}
+
+// New activities are filed under the season running on their date
+const AUTO_SEASON = "auto";
+const NO_SEASON = "none";
+// A fertilizer not in FERTILIZER_GRADES, with its grade entered by hand
+const OTHER_PRODUCT = "other";
+
+const knownGrade = (product: string | null | undefined) =>
+  FERTILIZER_GRADES.find(grade => grade.name === product);
+
+const emptyForm = (activity?: FarmActivity | null) => {
+  const type = (activity?.activity_type ?? "fertilizer") as ActivityType;
+  const grade = knownGrade(activity?.product);
+  return {
+    activity_type: type,
+    performed_on: activity?.performed_on ?? new Date().toISOString().slice(0, 10),
+    season_id: activity ? activity.season_id ?? NO_SEASON : AUTO_SEASON,
+    // Fertilizers pick a grade; other activities name their product freely
+    fertilizer: activity ? (grade ? grade.name : OTHER_PRODUCT) : FERTILIZER_GRADES[0].name,
+    product: activity?.product ?? "",
+    n: activity?.analysis?.[0]?.toString() ?? "",
+    p2o5: activity?.analysis?.[1]?.toString() ?? "",
+    k2o: activity?.analysis?.[2]?.toString() ?? "",
+    rate: activity?.rate?.toString() ?? "",
+    rate_unit: (activity?.rate_unit ?? ACTIVITY_RATE_UNITS[type][0] ?? "") as RateUnit | "",
+    cost: activity?.cost?.toString() ?? "",
+    notes: activity?.notes ?? "",
+  };
+};
+
+const optionalNumber = (value: string) => (value === "" ? null : Number(value));
+
+const ActivityDialog = ({ isOpen, onClose, farmId, activity }: ActivityDialogProps) => {
+  const { toast } = useToast();
+  const { cropName } = useCrops();
+  const { varietyName } = useCropVarieties();
+  const { seasons } = useSeasons(farmId);
+  const { addActivity, updateActivity, saving } = useFarmActivities(farmId);
+  const [formData, setFormData] = useState(() => emptyForm(activity));
+
+  useEffect(() => {
+    if (isOpen) setFormData(emptyForm(activity));
+  }, [isOpen, activity]);
+
+  const type = formData.activity_type;
+  const units = ACTIVITY_RATE_UNITS[type];
+  const isFertilizer = type === "fertilizer";
+  const otherFertilizer = isFertilizer && formData.fertilizer === OTHER_PRODUCT;
+
+  const setType = (value: ActivityType) =>
+    setFormData(prev => ({
+      ...prev,
+      activity_type: value,
+      rate_unit: ACTIVITY_RATE_UNITS[value][0] ?? "",
+      ...(ACTIVITY_RATE_UNITS[value].length === 0 && { rate: "" }),
+    }));
+
+  const handleSave = async () => {
+    if (!formData.performed_on) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter the date of the activity.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const rate = units.length > 0 ? optionalNumber(formData.rate) : null;
+    if (rate != null && !(rate > 0)) {
+      toast({
+        title: "Check the Rate",
+        description: "The rate must be more than zero.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const cost = optionalNumber(formData.cost);
+    if (cost != null && !(cost >= 0)) {
+      toast({
+        title: "Check the Cost",
+        description: "The cost can't be negative.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let product = isFertilizer && !otherFertilizer ? formData.fertilizer : formData.product.trim() || null;
+    let analysis: number[] | null = null;
+    if (isFertilizer) {
+      analysis = otherFertilizer
+        ? [formData.n, formData.p2o5, formData.k2o].map(value => Number(value || 0))
+        : knownGrade(product)!.analysis;
+      if (!product || rate == null || analysis.some(value => value < 0 || value > 100)) {
+        toast({
+          title: "Missing Information",
+          description: "Fertilizer applications need the product, its N-P-K grade and the rate, so they can be credited against the next recommendation.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    if (type === "weeding" || type === "harvest" || type === "irrigation") {
+      product = null;
+    }
+
+    const input = {
+      activity_type: type,
+      performed_on: formData.performed_on,
+      product,
+      rate,
+      rate_unit: rate != null ? formData.rate_unit || null : null,
+      analysis,
+      cost,
+      notes: formData.notes || null,
+      // Leaving the season out on a new activity lets it be filed by date
+      ...(formData.season_id !== AUTO_SEASON && {
+        season_id: formData.season_id === NO_SEASON ? null : formData.season_id,
+      }),
+    };
+
+    try {
+      if (activity) {
+        await updateActivity({ id: activity.id, ...input });
+      } else {
+        await addActivity(input);
+      }
+      toast({
+        title: activity ? "Activity Updated" : "Activity Logged",
+        description: `${ACTIVITY_TYPE_LABELS[type]} on ${new Date(input.performed_on).toLocaleDateString()}.`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save activity",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{activity ? "Edit Activity" : "Log Activity"}</DialogTitle>
+          <DialogDescription>
+            Work done on this farm. Fertilizer is credited against the next recommendation and costs
+            count towards the season's revenue projection.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="activity-type">Activity *</Label>
+            <Select value={type} onValueChange={(value) => setType(value as ActivityType)}>
+              <SelectTrigger id="activity-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACTIVITY_TYPE_LABELS) as ActivityType[]).map(value => (
+                  <SelectItem key={value} value={value}>{ACTIVITY_TYPE_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="activity-date">Date *</Label>
+            <Input
+              id="activity-date"
+              type="date"
+              value={formData.performed_on}
+              onChange={(e) => setFormData(prev => ({ ...prev, performed_on: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="activity-season">Season</Label>
+            <Select
+              value={formData.season_id}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, season_id: value }))}
+            >
+              <SelectTrigger id="activity-season">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {!activity && <SelectItem value={AUTO_SEASON}>The season running on this date</SelectItem>}
+                {seasons.map(season => (
+                  <SelectItem key={season.id} value={season.id}>
+                    {seasonLabel(season, cropName(season.crop_id), varietyName(season))}
+                  </SelectItem>
+                ))}
+                <SelectItem value={NO_SEASON}>No season</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isFertilizer ? (
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="activity-fertilizer">Fertilizer *</Label>
+              <Select
+                value={formData.fertilizer}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, fertilizer: value }))}
+              >
+                <SelectTrigger id="activity-fertilizer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FERTILIZER_GRADES.map(grade => (
+                    <SelectItem key={grade.name} value={grade.name}>
+                      {grade.name} · {grade.analysis.join(":")}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={OTHER_PRODUCT}>Other / not listed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ) : type !== "weeding" && type !== "harvest" && type !== "irrigation" && (
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="activity-product">{type === "planting" ? "Seed" : "Product"}</Label>
+              <Input
+                id="activity-product"
+                placeholder={type === "planting" ? "e.g., H614D certified seed" : "e.g., Duduthrin 1.75 EC"}
+                value={formData.product}
+                onChange={(e) => setFormData(prev => ({ ...prev, product: e.target.value }))}
+              />
+            </div>
+          )}
+          {otherFertilizer && (
+            <>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="activity-product">Product Name *</Label>
+                <Input
+                  id="activity-product"
+                  placeholder="e.g., Mavuno Planting"
+                  value={formData.product}
+                  onChange={(e) => setFormData(prev => ({ ...prev, product: e.target.value }))}
+                />
+              </div>
+              <div className="col-span-2 grid grid-cols-3 gap-4">
+                {([["n", "N %"], ["p2o5", "P₂O₅ %"], ["k2o", "K₂O %"]] as const).map(([key, label]) => (
+                  <div key={key} className="space-y-2">
+                    <Label htmlFor={`activity-${key}`}>{label}</Label>
+                    <Input
+                      id={`activity-${key}`}
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.1"
+                      value={formData[key]}
+                      onChange={(e) => setFormData(prev => ({ ...prev, [key]: e.target.value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {units.length > 0 && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="activity-rate">
+                  {type === "irrigation" ? "Amount" : "Rate"}{isFertilizer && " *"}
+                </Label>
+                <Input
+                  id="activity-rate"
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={formData.rate}
+                  onChange={(e) => setFormData(prev => ({ ...prev, rate: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="activity-rate-unit">Unit</Label>
+                <Select
+                  value={formData.rate_unit}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, rate_unit: value as RateUnit }))}
+                  disabled={units.length === 1}
+                >
+                  <SelectTrigger id="activity-rate-unit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {units.map(unit => (
+                      <SelectItem key={unit} value={unit}>{RATE_UNIT_LABELS[unit]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="activity-cost">Cost (KES, whole farm)</Label>
+            <Input
+              id="activity-cost"
+              type="number"
+              min="0"
+              step="1"
+              placeholder="Inputs, labour and hire"
+              value={formData.cost}
+              onChange={(e) => setFormData(prev => ({ ...prev, cost: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="activity-notes">Notes</Label>
+            <Textarea
+              id="activity-notes"
+              rows={2}
+              placeholder="e.g., Top-dressed after the first weeding"
+              value={formData.notes}
+              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            />
+          </div>
+        </div>
+        {type === "harvest" && (
+          <p className="text-xs text-muted-foreground">
+            Log harvesting work and its cost here; record the harvested weight from the season's Harvest button.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="gap-2">
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Activity
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ActivityDialog;
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardList, Droplets, Leaf, Pencil, Plus, Shovel, SprayCan, Sprout, Trash2, Wheat, type LucideIcon } from "lucide-react";
+import ActivityDialog from "@/components/ActivityDialog";
+import { useCrops } from "@/hooks/useCrops";
+import { useCropVarieties } from "@/hooks/useCropVarieties";
+import { useFarmActivities, type FarmActivity } from "@/hooks/useFarmActivities";
+import { useSeasons } from "@/hooks/useSeasons";
+import { useToast } from "@/hooks/use-toast";
+import { activityTypeLabel, appliedNutrients, describeActivity, totalCost, type ActivityType } from "@/lib/activities";
+import { formatKes } from "@/lib/revenue";
+import { groupBySeason, seasonLabel } from "@/lib/seasons";
+
+interface ActivityLogProps {
+  farmId: string;
+  // Archived farms keep their log but can't be changed
+  readOnly?: boolean;
+}
+
+const ACTIVITY_ICONS: Record<ActivityType, LucideIcon> = {
+  planting: Sprout,
+  fertilizer: Leaf,
+  spraying: SprayCan,
+  irrigation: Droplets,
+  weeding: Shovel,
+  harvest: Wheat,
+};
+
+const ActivityLog = ({ farmId, readOnly = false }: ActivityLogProps) => {
+  const { toast } = useToast();
+  const { cropName } = useCrops();
+  const { varietyName } = useCropVarieties();
+  const { seasons } = useSeasons(farmId);
+  const { activities, deleteActivity } = useFarmActivities(farmId);
+  const [showDialog, setShowDialog] = useState(false);
+  const [editing, setEditing] = useState<FarmActivity | null>(null);
+
+  const openDialog = (activity: FarmActivity | null) => {
+    setEditing(activity);
+    setShowDialog(true);
+  };
+
+  const handleDelete = async (activity: FarmActivity) => {
+    try {
+      await deleteActivity(activity.id);
+      toast({
+        title: "Activity Deleted",
+        description: `${activityTypeLabel(activity.activity_type)} on ${new Date(activity.performed_on).toLocaleDateString()} was removed.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete activity",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeSeason = (seasonId: string | null) => {
+    const season = seasons.find(s => s.id === seasonId);
+    return season ? seasonLabel(season, cropName(season.crop_id), varietyName(season)) : "Outside a season";
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-primary" />
+            Activity Log
+          </CardTitle>
+          <CardDescription>Planting, fertilizer, sprays, irrigation, weeding and harvest work</CardDescription>
+        </div>
+        {!readOnly && (
+          <Button variant="outline" size="sm" onClick={() => openDialog(null)} className="gap-2">
+            <Plus className="w-4 h-4" />
+            Log Activity
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {activities.length > 0 ? (
+          <div className="space-y-6">
+            {groupBySeason(activities).map(({ seasonId, rows }) => {
+              const applied = appliedNutrients(rows);
+              const cost = totalCost(rows);
+              return (
+                <div key={seasonId ?? "none"} className="space-y-3">
+                  <div className="flex flex-wrap items-baseline justify-between gap-2 border-b pb-1">
+                    <h3 className="text-sm font-semibold">{describeSeason(seasonId)}</h3>
+                    <p className="text-xs text-muted-foreground">
+                      {cost > 0 && `${formatKes(cost)} spent`}
+                      {cost > 0 && applied.n + applied.p2o5 + applied.k2o > 0 && " · "}
+                      {applied.n + applied.p2o5 + applied.k2o > 0 &&
+                        `${Math.round(applied.n)}:${Math.round(applied.p2o5)}:${Math.round(applied.k2o)} kg/ha N:P₂O₅:K₂O applied`}
+                    </p>
+                  </div>
+                  <ol className="relative border-l border-border ml-3 space-y-4">
+                    {rows.map(activity => {
+                      const Icon = ACTIVITY_ICONS[activity.activity_type as ActivityType] ?? ClipboardList;
+                      const details = describeActivity(activity);
+                      return (
+                        <li key={activity.id} className="ml-6">
+                          <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-primary/10 ring-4 ring-background">
+                            <Icon className="w-3.5 h-3.5 text-primary" />
+                          </span>
+                          <div className="flex items-start justify-between gap-4">
+                            <div>
+                              <p className="font-medium">
+                                {activityTypeLabel(activity.activity_type)}
+                                <span className="ml-2 text-xs font-normal text-muted-foreground">
+                                  {new Date(activity.performed_on).toLocaleDateString()}
+                                </span>
+                              </p>
+                              {details && <p className="text-sm">{details}</p>}
+                              {activity.notes && <p className="text-xs text-muted-foreground">{activity.notes}</p>}
+                            </div>
+                            <div className="flex items-center gap-1 whitespace-nowrap">
+                              {activity.cost != null && <Badge variant="outline">{formatKes(activity.cost)}</Badge>}
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openDialog(activity)}
+                                disabled={readOnly}
+                                aria-label="Edit activity"
+                              >
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(activity)}
+                                disabled={readOnly}
+                                aria-label="Delete activity"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-center py-8 text-muted-foreground">
+            Log what you do on the farm so fertilizer already applied and money spent count in predictions.
+          </p>
+        )}
+      </CardContent>
+
+      <ActivityDialog
+        isOpen={showDialog}
+        onClose={() => setShowDialog(false)}
+        farmId={farmId}
+        activity={editing}
+      />
+    </Card>
+  );
+};
+
+export default ActivityLog;
@@ -0,0 +1,169 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/enhanced-button";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Upload, LocateFixed, Trash2, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  areaMismatch,
+  boundaryAreaHectares,
+  parseBoundary,
+  polygonFromCorners,
+  polygonsOf,
+  type BoundaryGeometry,
+  type Position,
+} from "@/lib/geo";
+
+interface BoundaryInputProps {
+  value: BoundaryGeometry | null;
+  onChange: (boundary: BoundaryGeometry | null) => void;
+  typedArea?: number;
+}
+
+const PREVIEW_SIZE = 160;
+
+// Projects the outer rings into the preview box, keeping the aspect ratio
+const previewPaths = (geometry: BoundaryGeometry) => {
+  const rings = polygonsOf(geometry).map((rings) => rings[0]);
+  const points = rings.flat();
+  const lons = points.map(([lon]) => lon);
+  const lats = points.map(([, lat]) => lat);
+  const minLon = Math.min(...lons);
+  const maxLat = Math.max(...lats);
+  const span = Math.max(Math.max(...lons) - minLon, maxLat - Math.min(...lats)) || 1;
+  const scale = (PREVIEW_SIZE - 16) / span;
+
+  return rings.map((ring) =>
+    ring
+      .map(([lon, lat], i) => `${i === 0 ? "M" : "L"}${8 + (lon - minLon) * scale},${8 + (maxLat - lat) * scale}`)
+      .join(" ") + " Z"
+  );
+};
+
+const BoundaryInput = ({ value, onChange, typedArea }: BoundaryInputProps) => {
+  const { toast } = useToast();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [corners, setCorners] = useState<Position[]>([]);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const area = value ? boundaryAreaHectares(value) : null;
+  const mismatch = area && typedArea ? areaMismatch(typedArea, area) : null;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      onChange(parseBoundary(await file.text()));
+      setCorners([]);
+    } catch (error) {
+      toast({
+        title: "Invalid Boundary File",
+        description: error instanceof Error ? error.message : "Could not read a polygon from this file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Walking the field edge and adding a corner at each turn draws the boundary
+  const handleAddCorner = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Location Unavailable",
+        description: "Your browser does not support location access. Import a GeoJSON file instead.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const next: Position[] = [...corners, [position.coords.longitude, position.coords.latitude]];
+        setCorners(next);
+        onChange(next.length >= 3 ? polygonFromCorners(next) : null);
+        setIsLocating(false);
+      },
+      () => {
+        toast({
+          title: "Location Unavailable",
+          description: "Could not get your position for this corner.",
+          variant: "destructive",
+        });
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: true }
+    );
+  };
+
+  const handleClear = () => {
+    setCorners([]);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Farm Boundary (optional)</Label>
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+          <Upload className="w-4 h-4 mr-1" />
+          Import GeoJSON
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleAddCorner} disabled={isLocating}>
+          <LocateFixed className="w-4 h-4 mr-1" />
+          {isLocating ? "Locating..." : `Add corner here${corners.length ? ` (${corners.length})` : ""}`}
+        </Button>
+        {(value || corners.length > 0) && (
+          <Button type="button" variant="ghost" size="sm" onClick={handleClear}>
+            <Trash2 className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        )}
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".geojson,.json,application/geo+json,application/json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+
+      {corners.length > 0 && corners.length < 3 && (
+        <p className="text-xs text-muted-foreground">
+          Walk to the next corner of the field and add it. At least 3 corners are needed.
+        </p>
+      )}
+
+      {value && (
+        <div className="flex items-center gap-4">
+          <svg
+            width={PREVIEW_SIZE}
+            height={PREVIEW_SIZE}
+            className="rounded-lg border bg-muted/30"
+          >
+            {previewPaths(value).map((path, i) => (
+              <path key={i} d={path} className="fill-primary/20 stroke-primary" strokeWidth={2} />
+            ))}
+          </svg>
+          <div>
+            <p className="text-sm text-muted-foreground">Area from boundary</p>
+            <p className="text-2xl font-bold">{area?.toFixed(2)} ha</p>
+          </div>
+        </div>
+      )}
+
+      {mismatch && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            The boundary measures {area?.toFixed(2)} ha but you entered {typedArea} ha
+            ({Math.round(mismatch * 100)}% difference). The boundary area will be used for total yield.
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+};
+
+export default BoundaryInput;
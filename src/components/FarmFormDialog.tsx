@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/enhanced-button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Save } from "lucide-react";
+import BoundaryInput from "@/components/BoundaryInput";
+import { useToast } from "@/hooks/use-toast";
+import { useCrops } from "@/hooks/useCrops";
+import { useFarms, type Farm } from "@/hooks/useFarms";
+import type { BoundaryGeometry } from "@/lib/geo";
+
+interface FarmFormDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Farm to edit; a new farm is created when omitted
+  farm?: Farm | null;
+  onSaved?: (farm: Farm) => void;
+}
+
+const emptyForm = {
+  name: "",
+  location: "",
+  crop: "",
+  area: "",
+};
+
+const FarmFormDialog = ({ isOpen, onClose, farm, onSaved }: FarmFormDialogProps) => {
+  const { toast } = useToast();
+  const { crops } = useCrops();
+  const { saveFarm, saving } = useFarms();
+  const [formData, setFormData] = useState(emptyForm);
+  const [boundary, setBoundary] = useState<BoundaryGeometry | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFormData(farm ? {
+      name: farm.name,
+      location: farm.location,
+      crop: farm.crop_type,
+      area: farm.area_hectares?.toString() ?? "",
+    } : emptyForm);
+    setBoundary((farm?.boundary as unknown as BoundaryGeometry) ?? null);
+  }, [isOpen, farm]);
+
+  const handleInputChange = (field: keyof typeof emptyForm, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!formData.name || !formData.location || !formData.crop) {
+      toast({
+        title: "Missing Information",
+        description: "Please fill in the farm name, location and crop.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const result = await saveFarm({
+        farm_id: farm?.id,
+        name: formData.name,
+        location: formData.location,
+        crop: formData.crop,
+        area_ha: parseFloat(formData.area) || null,
+        // Keep stored coordinates when the location text is unchanged
+        latitude: farm && farm.location === formData.location ? farm.latitude ?? undefined : undefined,
+        longitude: farm && farm.location === formData.location ? farm.longitude ?? undefined : undefined,
+        boundary,
+      });
+
+      toast({
+        title: farm ? "Farm Updated" : "Farm Created",
+        description: result.area_warning || `${result.farm.name} has been saved.`,
+        variant: result.area_warning ? "destructive" : "default",
+      });
+      onSaved?.(result.farm);
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save farm",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{farm ? "Edit Farm" : "New Farm"}</DialogTitle>
+          <DialogDescription>
+            Farm details are reused for every prediction on this land
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="farm-name">Farm Name *</Label>
+            <Input
+              id="farm-name"
+              placeholder="e.g., Kiptoo Home Farm"
+              value={formData.name}
+              onChange={(e) => handleInputChange("name", e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="farm-location">Location (City/Town) *</Label>
+              <Input
+                id="farm-location"
+                placeholder="e.g., Eldoret"
+                value={formData.location}
+                onChange={(e) => handleInputChange("location", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="farm-crop">Crop Type *</Label>
+              <Select value={formData.crop} onValueChange={(value) => handleInputChange("crop", value)}>
+                <SelectTrigger id="farm-crop">
+                  <SelectValue placeholder="Select crop type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {crops.map((crop) => (
+                    <SelectItem key={crop.id} value={crop.id}>
+                      {crop.display_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="farm-area">Farm Area (Hectares)</Label>
+            <Input
+              id="farm-area"
+              type="number"
+              step="0.1"
+              placeholder="e.g., 1.5"
+              value={formData.area}
+              onChange={(e) => handleInputChange("area", e.target.value)}
+            />
+          </div>
+          <BoundaryInput
+            value={boundary}
+            onChange={setBoundary}
+            typedArea={parseFloat(formData.area) || undefined}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="gap-2">
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Farm
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FarmFormDialog;
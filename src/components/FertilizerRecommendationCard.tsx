@@ -0,0 +1,103 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Info, Leaf } from "lucide-react";
+import { productGrade, type FertilizerRecommendation } from "@/lib/fertilizer";
+
+interface FertilizerRecommendationCardProps {
+  recommendation: FertilizerRecommendation;
+  areaHa?: number;
+}
+
+const FertilizerRecommendationCard = ({ recommendation, areaHa }: FertilizerRecommendationCardProps) => {
+  const { nutrients, applied, products, notes } = recommendation;
+  const credited = applied != null && (applied.n > 0 || applied.p2o5 > 0 || applied.k2o > 0);
+
+  return (
+    <Card className="shadow-medium border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Leaf className="w-5 h-5 text-success" />
+          Fertilizer Recommendations
+        </CardTitle>
+        <CardDescription>
+          For a target of {recommendation.target_yield} t/ha
+          {areaHa != null && ` across ${areaHa} ha`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="text-center p-4 rounded-lg bg-muted/50">
+            <p className="text-sm text-muted-foreground">Lime</p>
+            <p className="text-xl font-semibold">{recommendation.lime_t_per_ha} t/ha</p>
+            <p className="text-xs text-muted-foreground">{recommendation.lime_t_total} t total</p>
+          </div>
+          <div className="text-center p-4 rounded-lg bg-muted/50">
+            <p className="text-sm text-muted-foreground">Nitrogen (N)</p>
+            <p className="text-xl font-semibold">{nutrients.n} kg/ha</p>
+            {credited && <p className="text-xs text-muted-foreground">{applied.n} kg/ha applied</p>}
+          </div>
+          <div className="text-center p-4 rounded-lg bg-muted/50">
+            <p className="text-sm text-muted-foreground">Phosphate (P₂O₅)</p>
+            <p className="text-xl font-semibold">{nutrients.p2o5} kg/ha</p>
+            {credited && <p className="text-xs text-muted-foreground">{applied.p2o5} kg/ha applied</p>}
+          </div>
+          <div className="text-center p-4 rounded-lg bg-muted/50">
+            <p className="text-sm text-muted-foreground">Potash (K₂O)</p>
+            <p className="text-xl font-semibold">{nutrients.k2o} kg/ha</p>
+            {credited && <p className="text-xs text-muted-foreground">{applied.k2o} kg/ha applied</p>}
+          </div>
+        </div>
+
+        {products.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead className="text-right">Per Hectare</TableHead>
+                <TableHead className="text-right">Whole Farm</TableHead>
+                <TableHead className="text-right">50 kg Bags</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {products.map((product) => (
+                <TableRow key={product.product}>
+                  <TableCell>
+                    <span className="font-medium">{product.name}</span>{" "}
+                    <span className="text-xs text-muted-foreground">{productGrade(product)}</span>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="capitalize">{product.timing}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{product.kg_per_ha} kg</TableCell>
+                  <TableCell className="text-right">{product.kg_total} kg</TableCell>
+                  <TableCell className="text-right">{product.bags_total}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {credited
+              ? "The soil and the fertilizer already applied supply enough N, P and K for this target."
+              : "The soil already supplies enough N, P and K for this target."}
+          </p>
+        )}
+
+        {notes.length > 0 && (
+          <div className="space-y-1">
+            {notes.map((note) => (
+              <p key={note} className="text-sm text-muted-foreground flex items-start gap-2">
+                <Info className="w-4 h-4 mt-0.5 shrink-0" />
+                {note}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FertilizerRecommendationCard;
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Sprout } from "lucide-react";
+import { useCrops } from "@/hooks/useCrops";
+import { useCropVarieties } from "@/hooks/useCropVarieties";
+import { useGrowthStage } from "@/hooks/useGrowthStage";
+import { useHarvests } from "@/hooks/useHarvests";
+import { useSeasons } from "@/hooks/useSeasons";
+import { growthStageLabel } from "@/lib/growth";
+import { seasonLabel } from "@/lib/seasons";
+
+interface GrowthStageCardProps {
+  farmId: string;
+}
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+const GrowthStageCard = ({ farmId }: GrowthStageCardProps) => {
+  const { cropName } = useCrops();
+  const { varietyName } = useCropVarieties();
+  const { seasons } = useSeasons(farmId);
+  const { harvests } = useHarvests(farmId);
+  const [selectedId, setSelectedId] = useState("");
+
+  // Seasons planted and not harvested yet, newest planting first
+  const today = new Date().toISOString().slice(0, 10);
+  const inField = seasons.filter(season =>
+    season.planting_date <= today && !harvests.some(h => h.season_id === season.id));
+  const season = inField.find(s => s.id === selectedId) ?? inField[0];
+  const { growth, loading, error } = useGrowthStage(season?.id);
+
+  if (inField.length === 0) return null;
+
+  const describe = (s: typeof season) => seasonLabel(s, cropName(s.crop_id), varietyName(s));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Sprout className="w-5 h-5 text-primary" />
+            Growth Stage
+          </CardTitle>
+          <CardDescription>
+            Where the crop is from growing degree days since planting
+          </CardDescription>
+        </div>
+        {inField.length > 1 && (
+          <div className="space-y-2">
+            <Label htmlFor="growth-season" className="sr-only">Season</Label>
+            <Select value={season.id} onValueChange={setSelectedId}>
+              <SelectTrigger id="growth-season" className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {inField.map(s => (
+                  <SelectItem key={s.id} value={s.id}>{describe(s)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : "Failed to work out the growth stage"}
+          </p>
+        ) : growth && (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <Badge variant={growth.stage === "mature" ? "secondary" : "outline"}>
+                {growthStageLabel(growth.stage)}
+              </Badge>
+              <span className="text-sm text-muted-foreground">
+                {describe(season)} · day {growth.days_after_planting}
+              </span>
+            </div>
+            <div className="space-y-1">
+              <Progress value={growth.progress * 100} />
+              <p className="text-xs text-muted-foreground">
+                {Math.round(growth.gdd)} of {Math.round(growth.gdd_to_maturity)} degree days to maturity
+                ({Math.round(growth.progress * 100)}%)
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Next Stage</p>
+                <p className="font-medium">
+                  {growth.next_stage
+                    ? `${growthStageLabel(growth.next_stage)}${growth.next_stage_date ? ` · ${formatDate(growth.next_stage_date)}` : ""}`
+                    : "—"}
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Maturity</p>
+                <p className="font-medium">
+                  {growth.maturity_date ? formatDate(growth.maturity_date) : "Beyond the weather outlook"}
+                </p>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Dates ahead are projected from the forecast and, beyond it, the usual weather for the
+              season; a warm spell brings them forward.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default GrowthStageCard;
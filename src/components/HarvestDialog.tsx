@@ -0,0 +1,267 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/enhanced-button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Save } from "lucide-react";
+import { useCrops } from "@/hooks/useCrops";
+import { useCropVarieties } from "@/hooks/useCropVarieties";
+import { useHarvests } from "@/hooks/useHarvests";
+import { useSeasons } from "@/hooks/useSeasons";
+import { useToast } from "@/hooks/use-toast";
+import { QUALITY_GRADE_LABELS, type QualityGrade } from "@/lib/accuracy";
+import { seasonLabel } from "@/lib/seasons";
+
+interface HarvestDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  farmId: string;
+  areaHectares: number;
+  // Season to record; the user picks one of the planted seasons without
+  seasonId?: string | null;
+}
+
+// Units harvests are counted in, with their weight in kg
+const QUANTITY_UNITS: Record<string, { label: string; kg: number }> = {
+  tonnes: { label: "Tonnes", kg: 1000 },
+  "90kg bags": { label: "90 kg bags", kg: 90 },
+  "50kg bags": { label: "50 kg bags", kg: 50 },
+  kg: { label: "kg", kg: 1 },
+};
+
+const NO_GRADE = "none";
+
+const emptyForm = (seasonId: string, areaHectares: number) => ({
+  season_id: seasonId,
+  harvested_on: new Date().toISOString().slice(0, 10),
+  quantity: "",
+  quantity_unit: "90kg bags",
+  area_hectares: String(areaHectares),
+  moisture_percent: "",
+  quality_grade: NO_GRADE,
+  notes: "",
+});
+
+const HarvestDialog = ({ isOpen, onClose, farmId, areaHectares, seasonId }: HarvestDialogProps) => {
+  const { toast } = useToast();
+  const { cropName } = useCrops();
+  const { varietyName } = useCropVarieties();
+  const { seasons } = useSeasons(farmId);
+  const { addHarvest, adding } = useHarvests(farmId);
+  const [formData, setFormData] = useState(() => emptyForm(seasonId ?? "", areaHectares));
+
+  // Planted seasons; crops picked more than once get a harvest per picking
+  const today = new Date().toISOString().slice(0, 10);
+  const openSeasons = seasons.filter(season => season.planting_date <= today);
+  const season = seasons.find(s => s.id === formData.season_id);
+
+  useEffect(() => {
+    if (isOpen) setFormData(emptyForm(seasonId ?? "", areaHectares));
+  }, [isOpen, seasonId, areaHectares]);
+
+  const handleSave = async () => {
+    const quantity = parseFloat(formData.quantity);
+    const area = parseFloat(formData.area_hectares);
+    if (!season || !formData.harvested_on || isNaN(quantity) || !(area > 0)) {
+      toast({
+        title: "Missing Information",
+        description: "Please choose the season and enter the harvest date, the quantity and the area harvested.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (formData.harvested_on <= season.planting_date) {
+      toast({
+        title: "Check the Dates",
+        description: "The harvest date must be after the planting date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const harvest = await addHarvest({
+        season_id: season.id,
+        harvested_on: formData.harvested_on,
+        quantity_tonnes: (quantity * QUANTITY_UNITS[formData.quantity_unit].kg) / 1000,
+        area_hectares: area,
+        moisture_percent: formData.moisture_percent ? parseFloat(formData.moisture_percent) : null,
+        quality_grade: formData.quality_grade === NO_GRADE ? null : formData.quality_grade,
+        notes: formData.notes || null,
+      });
+
+      toast({
+        title: "Harvest Recorded",
+        description: `${Number(harvest.yield_per_hectare).toFixed(2)} tons/ha harvested on ${new Date(harvest.harvested_on).toLocaleDateString()}.`,
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record harvest",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record Harvest</DialogTitle>
+          <DialogDescription>
+            What came off the field. Record each picking of crops picked more than once; predictions made
+            for this season are scored against their total.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="harvest-season">Season *</Label>
+            <Select
+              value={formData.season_id}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, season_id: value }))}
+            >
+              <SelectTrigger id="harvest-season">
+                <SelectValue placeholder="Choose a season" />
+              </SelectTrigger>
+              <SelectContent>
+                {(season && !openSeasons.includes(season) ? [season, ...openSeasons] : openSeasons).map(s => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {seasonLabel(s, cropName(s.crop_id), varietyName(s))}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {season ? (
+              <p className="text-xs text-muted-foreground">
+                Planted {new Date(season.planting_date).toLocaleDateString()}, harvest expected{" "}
+                {new Date(season.expected_harvest_date).toLocaleDateString()}
+              </p>
+            ) : openSeasons.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Add the season this harvest came from first.
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="harvested-on">Harvested *</Label>
+              <Input
+                id="harvested-on"
+                type="date"
+                value={formData.harvested_on}
+                onChange={(e) => setFormData(prev => ({ ...prev, harvested_on: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quantity">Quantity *</Label>
+              <Input
+                id="quantity"
+                type="number"
+                step="0.1"
+                min="0"
+                placeholder="e.g., 40"
+                value={formData.quantity}
+                onChange={(e) => setFormData(prev => ({ ...prev, quantity: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quantity-unit">Unit</Label>
+              <Select
+                value={formData.quantity_unit}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, quantity_unit: value }))}
+              >
+                <SelectTrigger id="quantity-unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(QUANTITY_UNITS).map(([key, { label }]) => (
+                    <SelectItem key={key} value={key}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="area-harvested">Area Harvested (ha) *</Label>
+              <Input
+                id="area-harvested"
+                type="number"
+                step="0.1"
+                min="0"
+                value={formData.area_hectares}
+                onChange={(e) => setFormData(prev => ({ ...prev, area_hectares: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="harvest-moisture">Moisture at Weighing (%)</Label>
+              <Input
+                id="harvest-moisture"
+                type="number"
+                step="0.5"
+                min="0"
+                max="100"
+                placeholder="e.g., 13.5"
+                value={formData.moisture_percent}
+                onChange={(e) => setFormData(prev => ({ ...prev, moisture_percent: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="quality-grade">Quality Grade</Label>
+              <Select
+                value={formData.quality_grade}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, quality_grade: value }))}
+              >
+                <SelectTrigger id="quality-grade">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_GRADE}>Not graded</SelectItem>
+                  {(Object.keys(QUALITY_GRADE_LABELS) as QualityGrade[]).map(grade => (
+                    <SelectItem key={grade} value={grade}>{QUALITY_GRADE_LABELS[grade]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="harvest-notes">Notes</Label>
+              <Textarea
+                id="harvest-notes"
+                rows={2}
+                placeholder="e.g., Stalk borer damage in the lower field"
+                value={formData.notes}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Grain weighed wetter or drier than the standard is corrected before it is compared with predictions.
+            The season's yield is what all its pickings weighed over the farm's area.
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={adding} className="gap-2">
+            {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Harvest
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HarvestDialog;
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartConfig } from "@/components/ui/chart";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { Droplets, Info, Loader2 } from "lucide-react";
+import { useIrrigationPlan } from "@/hooks/useIrrigationPlan";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CROP_STAGE_LABELS,
+  IRRIGATION_METHOD_LABELS,
+  type CropStage,
+  type IrrigationMethod,
+} from "@/lib/irrigation";
+
+interface IrrigationScheduleProps {
+  farmId: string;
+  // The water balance starts from the latest soil test's moisture
+  hasMoisture: boolean;
+}
+
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { day: "numeric", month: "short" });
+
+const IrrigationSchedule = ({ farmId, hasMoisture }: IrrigationScheduleProps) => {
+  const { toast } = useToast();
+  const { plan, planIrrigation, planning } = useIrrigationPlan(farmId);
+  const [plantingDate, setPlantingDate] = useState("");
+  const [stage, setStage] = useState<CropStage>("mid");
+  const [method, setMethod] = useState<IrrigationMethod>("sprinkler");
+
+  const handlePlan = async () => {
+    try {
+      await planIrrigation(plantingDate ? { planting_date: plantingDate, method } : { stage, method });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to plan irrigation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const chartData = (plan?.weeks ?? []).map(week => ({
+    week: formatDay(week.week_start),
+    irrigation: week.gross_irrigation_mm,
+    rainfall: week.effective_rainfall_mm,
+  }));
+
+  const chartConfig: ChartConfig = {
+    irrigation: {
+      label: "Irrigation (mm)",
+      color: "hsl(var(--primary))",
+    },
+    rainfall: {
+      label: "Effective rain (mm)",
+      color: "hsl(var(--secondary))",
+    },
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Droplets className="w-5 h-5 text-primary" />
+          Irrigation Schedule
+        </CardTitle>
+        <CardDescription>
+          Weekly water needs from crop water use, forecast rain and the soil's stored water
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="planting-date">Planted On</Label>
+            <Input
+              id="planting-date"
+              type="date"
+              value={plantingDate}
+              onChange={(e) => setPlantingDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="crop-stage">Or Crop Stage</Label>
+            <Select
+              value={stage}
+              onValueChange={(value) => setStage(value as CropStage)}
+              disabled={!!plantingDate}
+            >
+              <SelectTrigger id="crop-stage">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CROP_STAGE_LABELS) as CropStage[]).map(option => (
+                  <SelectItem key={option} value={option}>{CROP_STAGE_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="irrigation-method">Method</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as IrrigationMethod)}>
+              <SelectTrigger id="irrigation-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(IRRIGATION_METHOD_LABELS) as IrrigationMethod[]).map(option => (
+                  <SelectItem key={option} value={option}>{IRRIGATION_METHOD_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handlePlan} disabled={planning || !hasMoisture} className="gap-2">
+            {planning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Droplets className="w-4 h-4" />}
+            Plan Irrigation
+          </Button>
+        </div>
+        {!hasMoisture && (
+          <p className="text-sm text-muted-foreground">
+            Record a soil test with a moisture reading to plan irrigation.
+          </p>
+        )}
+
+        {plan && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center p-4 rounded-lg bg-muted/50">
+                <p className="text-sm text-muted-foreground">Water to Pump</p>
+                <p className="text-xl font-semibold">{plan.total_volume_m3.toLocaleString()} m³</p>
+                <p className="text-xs text-muted-foreground">over {plan.weeks.length} weeks</p>
+              </div>
+              <div className="text-center p-4 rounded-lg bg-muted/50">
+                <p className="text-sm text-muted-foreground">Soil Water Deficit</p>
+                <p className="text-xl font-semibold">{plan.initial_depletion_mm} mm</p>
+                <p className="text-xs text-muted-foreground">at {plan.soil_moisture}% moisture</p>
+              </div>
+              <div className="text-center p-4 rounded-lg bg-muted/50">
+                <p className="text-sm text-muted-foreground">Available Water</p>
+                <p className="text-xl font-semibold">{plan.total_available_water_mm} mm</p>
+                <p className="text-xs text-muted-foreground capitalize">
+                  {plan.texture}, {plan.root_depth_m} m roots
+                </p>
+              </div>
+              <div className="text-center p-4 rounded-lg bg-muted/50">
+                <p className="text-sm text-muted-foreground">Irrigate Below</p>
+                <p className="text-xl font-semibold">{plan.readily_available_water_mm} mm</p>
+                <p className="text-xs text-muted-foreground">of depletion</p>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-[220px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="week" />
+                  <YAxis />
+                  <Tooltip />
+                  <Bar dataKey="irrigation" fill="hsl(var(--primary))" />
+                  <Bar dataKey="rainfall" fill="hsl(var(--secondary))" />
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Week</TableHead>
+                  <TableHead className="text-right">Crop Water Use</TableHead>
+                  <TableHead className="text-right">Effective Rain</TableHead>
+                  <TableHead className="text-right">Net Irrigation</TableHead>
+                  <TableHead className="text-right">Gross Irrigation</TableHead>
+                  <TableHead className="text-right">Volume</TableHead>
+                  <TableHead>Irrigate On</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.weeks.map(week => (
+                  <TableRow key={week.week_start}>
+                    <TableCell>{formatDay(week.week_start)} – {formatDay(week.week_end)}</TableCell>
+                    <TableCell className="text-right">{week.etc_mm} mm</TableCell>
+                    <TableCell className="text-right">{week.effective_rainfall_mm} mm</TableCell>
+                    <TableCell className="text-right">{week.net_irrigation_mm} mm</TableCell>
+                    <TableCell className="text-right">{week.gross_irrigation_mm} mm</TableCell>
+                    <TableCell className="text-right font-medium">{week.volume_m3.toLocaleString()} m³</TableCell>
+                    <TableCell>
+                      {week.irrigation_dates.length > 0 ? week.irrigation_dates.map(formatDay).join(", ") : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {plan.notes.length > 0 && (
+              <div className="space-y-1">
+                {plan.notes.map(note => (
+                  <p key={note} className="text-sm text-muted-foreground flex items-start gap-2">
+                    <Info className="w-4 h-4 mt-0.5 shrink-0" />
+                    {note}
+                  </p>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IrrigationSchedule;
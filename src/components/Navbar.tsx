@@ -9,7 +9,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Leaf, User, Settings, LogOut, BarChart3 } from "lucide-react";
+import { Leaf, User, Settings, LogOut, BarChart3, Tractor } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 
 const Navbar = () => {
@@ -41,6 +41,12 @@ const Navbar = () => {
                     Dashboard
                   </Link>
                 </Button>
+                <Button variant="ghost" size="sm" asChild>
+                  <Link to="/farms">
+                    <Tractor className="w-4 h-4 mr-2" />
+                    Farms
+                  </Link>
+                </Button>
                 
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -0,0 +1,113 @@
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { Bug, Loader2, RefreshCw, X } from "lucide-react";
+import { usePestAlerts } from "@/hooks/usePestAlerts";
+import { useToast } from "@/hooks/use-toast";
+import { PEST_KIND_LABELS, pestRiskLabel, type PestKind } from "@/lib/pest-risk";
+
+interface PestAlertsCardProps {
+  className?: string;
+}
+
+const PestAlertsCard = ({ className }: PestAlertsCardProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { alerts, checkPestRisk, checking, dismissAlert } = usePestAlerts();
+
+  const handleCheck = async () => {
+    try {
+      await checkPestRisk(undefined);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check pest risk",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDismiss = async (id: string) => {
+    try {
+      await dismissAlert(id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to dismiss alert",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Bug className="w-5 h-5 text-destructive" />
+            Pest &amp; Disease Alerts
+          </CardTitle>
+          <CardDescription>
+            Risks from recent and forecast weather for the crops in your fields, checked every morning
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleCheck} disabled={checking} className="gap-2">
+          {checking ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+          Check Now
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {alerts.length > 0 ? (
+          <div className="space-y-3">
+            {alerts.map(alert => (
+              <div
+                key={alert.id}
+                className={`p-4 rounded-lg border ${alert.risk_level === "high" ? "border-destructive/30 bg-destructive/5" : "border-warning/30 bg-warning/5"}`}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold">{alert.pest_risk_rules?.name}</span>
+                      <Badge variant={alert.risk_level === "high" ? "destructive" : "secondary"}>
+                        {pestRiskLabel(alert.risk_level)}
+                      </Badge>
+                      {alert.pest_risk_rules && (
+                        <Badge variant="outline">{PEST_KIND_LABELS[alert.pest_risk_rules.kind as PestKind]}</Badge>
+                      )}
+                      <button
+                        type="button"
+                        className="text-sm text-primary hover:underline"
+                        onClick={() => navigate(`/farms/${alert.farm_id}`)}
+                      >
+                        {alert.farms?.name}
+                      </button>
+                    </div>
+                    <p className="text-sm">{alert.message}</p>
+                    {alert.pest_risk_rules?.advice && (
+                      <p className="text-sm text-muted-foreground">{alert.pest_risk_rules.advice}</p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDismiss(alert.id)}
+                    aria-label="Dismiss alert"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-center py-6 text-muted-foreground">
+            No pest or disease risks right now.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PestAlertsCard;
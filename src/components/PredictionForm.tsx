@@ -5,10 +5,17 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
-import { MapPin, User, Phone, Sprout, BarChart3, TestTube } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { MapPin, User, Phone, Sprout, BarChart3, TestTube, LocateFixed, ChevronDown } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useCrops } from "@/hooks/useCrops";
+import { useFarms } from "@/hooks/useFarms";
 import { supabase } from "@/integrations/supabase/client";
+import BoundaryInput from "@/components/BoundaryInput";
+import type { BoundaryGeometry } from "@/lib/geo";
+import { LAB_MEASURES, SOIL_MEASURES, type SoilMeasure } from "@/lib/soil";
+import { formatRange } from "@/lib/yield";
 
 interface FormData {
   name: string;
@@ -19,15 +26,29 @@ interface FormData {
   soilPh: string;
   soilMoisture: string;
   organicMatter: string;
+  targetYield: string;
 }
 
 interface PredictionFormProps {
   onPrediction: (result: any) => void;
+  // Preselects an existing farm, e.g. when coming from the farms page
+  initialFarmId?: string;
 }
 
-const PredictionForm = ({ onPrediction }: PredictionFormProps) => {
+const NEW_FARM = "new";
+
+// Blank fields are left out of the request rather than sent as zero
+const parseReading = (value: string) => {
+  const reading = parseFloat(value);
+  return isNaN(reading) ? undefined : reading;
+};
+
+const PredictionForm = ({ onPrediction, initialFarmId }: PredictionFormProps) => {
   const { toast } = useToast();
   const { user } = useAuth();
+  const { crops, cropName, loading: cropsLoading } = useCrops();
+  const { activeFarms, saveFarm } = useFarms();
+  const [farmId, setFarmId] = useState(initialFarmId ?? NEW_FARM);
   const [formData, setFormData] = useState<FormData>({
     name: "",
     phone: "",
@@ -37,13 +58,48 @@ const PredictionForm = ({ onPrediction }: PredictionFormProps) => {
     soilPh: "",
     soilMoisture: "",
     organicMatter: "",
+    targetYield: "",
   });
+  const [coordinates, setCoordinates] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [boundary, setBoundary] = useState<BoundaryGeometry | null>(null);
+  const [labResults, setLabResults] = useState<Partial<Record<SoilMeasure, string>>>({});
   const [isLoading, setIsLoading] = useState(false);
 
   const handleInputChange = (field: keyof FormData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Location Unavailable",
+        description: "Your browser does not support location access. Please type your town instead.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setCoordinates({
+          latitude: Math.round(position.coords.latitude * 1e5) / 1e5,
+          longitude: Math.round(position.coords.longitude * 1e5) / 1e5,
+        });
+        setIsLocating(false);
+      },
+      () => {
+        toast({
+          title: "Location Unavailable",
+          description: "Could not get your location. Please type your town instead.",
+          variant: "destructive",
+        });
+        setIsLocating(false);
+      }
+    );
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -58,8 +114,10 @@ const PredictionForm = ({ onPrediction }: PredictionFormProps) => {
 
     setIsLoading(true);
 
+    const isNewFarm = farmId === NEW_FARM;
+
     // Validation
-    if (!formData.name || !formData.phone || !formData.location || !formData.crop) {
+    if (!formData.name || !formData.phone || (isNewFarm && (!formData.location || !formData.crop))) {
       toast({
         title: "Missing Information",
         description: "Please fill in all required fields.",
@@ -69,17 +127,65 @@ const PredictionForm = ({ onPrediction }: PredictionFormProps) => {
       return;
     }
 
+    // New farms need an area to turn yields into totals, typed or from a boundary
+    if (isNewFarm && !boundary && !(parseFloat(formData.area) > 0)) {
+      toast({
+        title: "Missing Farm Area",
+        description: "Please enter the farm area or draw its boundary.",
+        variant: "destructive",
+      });
+      setIsLoading(false);
+      return;
+    }
+
+    // Readings left blank fall back to the farm's latest soil test; entered
+    // ones are recorded as a new test, which needs all three
+    const readings = [formData.soilPh, formData.soilMoisture, formData.organicMatter];
+    const enteredSoilTest = readings.some(Boolean) || LAB_MEASURES.some(measure => labResults[measure]);
+    if ((isNewFarm || enteredSoilTest) && !readings.every(Boolean)) {
+      toast({
+        title: "Missing Soil Readings",
+        description: isNewFarm
+          ? "Please enter the soil pH, moisture and organic matter for a new farm."
+          : "Please enter the soil pH, moisture and organic matter together, or leave them blank to use the farm's latest soil test.",
+        variant: "destructive",
+      });
+      setIsLoading(false);
+      return;
+    }
+
     try {
-      const { data, error } = await supabase.functions.invoke('predict-yield', {
-        body: {
-          name: formData.name,
-          phone: formData.phone,
+      // New farms are created explicitly before predicting on them
+      let targetFarmId = farmId;
+      let areaWarning: string | null = null;
+      if (isNewFarm) {
+        const saved = await saveFarm({
+          name: `${formData.name}'s ${cropName(formData.crop)} Farm`,
           location: formData.location,
           crop: formData.crop,
-          area_ha: parseFloat(formData.area) || 1,
-          soil_ph: parseFloat(formData.soilPh) || 6.5,
-          soil_moisture: parseFloat(formData.soilMoisture) || 25,
-          organic_matter: parseFloat(formData.organicMatter) || 2.5
+          area_ha: parseFloat(formData.area) || null,
+          latitude: coordinates?.latitude,
+          longitude: coordinates?.longitude,
+          boundary,
+        });
+        targetFarmId = saved.farm.id;
+        areaWarning = saved.area_warning;
+        // Retrying after a failed prediction reuses the farm just created
+        setFarmId(targetFarmId);
+      }
+
+      const { data, error } = await supabase.functions.invoke('predict-yield', {
+        body: {
+          farm_id: targetFarmId,
+          soil_ph: parseReading(formData.soilPh),
+          soil_moisture: parseReading(formData.soilMoisture),
+          organic_matter: parseReading(formData.organicMatter),
+          target_yield: parseFloat(formData.targetYield) || undefined,
+          ...Object.fromEntries(
+            LAB_MEASURES
+              .filter(measure => labResults[measure])
+              .map(measure => [measure, parseFloat(labResults[measure]!)])
+          )
         }
       });
 
@@ -90,19 +196,41 @@ const PredictionForm = ({ onPrediction }: PredictionFormProps) => {
         weather: {
           temperature: data.prediction.weather_summary.temperature.toFixed(1),
           rainfall: data.prediction.weather_summary.rainfall.toFixed(0),
-          humidity: data.prediction.weather_summary.humidity.toFixed(0)
+          humidity: data.prediction.weather_summary.humidity.toFixed(0),
+          periodStart: data.prediction.weather_summary.period_start,
+          periodEnd: data.prediction.weather_summary.period_end,
         },
-        confidence: data.prediction.confidence_score.toFixed(0),
+        interval: data.prediction.interval,
         totalYield: data.prediction.total_yield.toFixed(2),
         farmId: data.prediction.farm_id,
-        farmData: formData,
+        modelVersion: data.prediction.model_version,
+        soilFactors: data.prediction.soil_factors,
+        limitingFactor: data.prediction.limiting_factor,
+        nutrientFactors: data.prediction.nutrient_factors,
+        missingInputs: data.prediction.missing_inputs,
+        fertilizer: data.prediction.fertilizer_recommendation,
+        explanation: data.prediction.factor_contributions,
+        revenue: data.prediction.revenue_projection,
+        growthStage: data.prediction.growth_stage,
+        location: data.prediction.location,
+        area: {
+          hectares: data.prediction.farm.area_hectares,
+          measured_from_boundary: data.prediction.farm.measured_from_boundary,
+          warning: areaWarning,
+        },
+        farmData: {
+          ...formData,
+          location: data.prediction.farm.location,
+          crop: data.prediction.farm.crop,
+          area: data.prediction.farm.area_hectares,
+        },
       };
       
       onPrediction(result);
       
       toast({
         title: "Prediction Complete!",
-        description: `Estimated yield: ${result.yield} t/ha with ${result.confidence}% confidence`,
+        description: `Estimated yield: ${result.yield} t/ha (likely ${formatRange(result.interval.p10, result.interval.p90)})`,
       });
     } catch (error: any) {
       toast({
@@ -169,47 +297,98 @@ const PredictionForm = ({ onPrediction }: PredictionFormProps) => {
                   <h3 className="font-semibold text-lg">Farm Details</h3>
                 </div>
                 
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="location">Location (City/Town) *</Label>
-                    <Input
-                      id="location"
-                      placeholder="e.g., Eldoret, Nakuru"
-                      value={formData.location}
-                      onChange={(e) => handleInputChange("location", e.target.value)}
-                      className="shadow-soft"
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="crop">Crop Type *</Label>
-                    <Select value={formData.crop} onValueChange={(value) => handleInputChange("crop", value)}>
-                      <SelectTrigger className="shadow-soft">
-                        <SelectValue placeholder="Select crop type" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="maize">Maize</SelectItem>
-                        <SelectItem value="wheat">Wheat</SelectItem>
-                        <SelectItem value="beans">Beans</SelectItem>
-                        <SelectItem value="potatoes">Potatoes</SelectItem>
-                        <SelectItem value="rice">Rice</SelectItem>
-                        <SelectItem value="barley">Barley</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-                
                 <div className="space-y-2">
-                  <Label htmlFor="area">Farm Area (Hectares)</Label>
-                  <Input
-                    id="area"
-                    type="number"
-                    step="0.1"
-                    placeholder="e.g., 1.5"
-                    value={formData.area}
-                    onChange={(e) => handleInputChange("area", e.target.value)}
-                    className="shadow-soft"
-                  />
+                  <Label htmlFor="farm">Farm</Label>
+                  <Select value={farmId} onValueChange={setFarmId}>
+                    <SelectTrigger id="farm" className="shadow-soft">
+                      <SelectValue placeholder="Select a farm" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NEW_FARM}>+ New farm</SelectItem>
+                      {activeFarms.map((farm) => (
+                        <SelectItem key={farm.id} value={farm.id}>
+                          {farm.name} ({cropName(farm.crop_type)}, {farm.location})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
+
+                {farmId === NEW_FARM && (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="location">Location (City/Town) *</Label>
+                        <Input
+                          id="location"
+                          placeholder="e.g., Eldoret, Nakuru"
+                          value={formData.location}
+                          onChange={(e) => handleInputChange("location", e.target.value)}
+                          className="shadow-soft"
+                        />
+                        <div className="flex items-center justify-between gap-2">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={handleUseMyLocation}
+                            disabled={isLocating}
+                            className="px-2 text-muted-foreground"
+                          >
+                            <LocateFixed className="w-4 h-4 mr-1" />
+                            {isLocating ? "Locating..." : "Use my location"}
+                          </Button>
+                          {coordinates && (
+                            <span className="text-xs text-muted-foreground">
+                              {coordinates.latitude}, {coordinates.longitude}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="crop">Crop Type *</Label>
+                        <Select
+                          value={formData.crop}
+                          onValueChange={(value) => handleInputChange("crop", value)}
+                          disabled={cropsLoading}
+                        >
+                          <SelectTrigger className="shadow-soft">
+                            <SelectValue placeholder={cropsLoading ? "Loading crops..." : "Select crop type"} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {crops.map((crop) => (
+                              <SelectItem key={crop.id} value={crop.id}>
+                                {crop.display_name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                
+                    <div className="space-y-2">
+                      <Label htmlFor="area">Farm Area (Hectares) *</Label>
+                      <Input
+                        id="area"
+                        type="number"
+                        step="0.1"
+                        placeholder="e.g., 1.5"
+                        value={formData.area}
+                        onChange={(e) => handleInputChange("area", e.target.value)}
+                        className="shadow-soft"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Not needed if you draw the farm boundary below.
+                      </p>
+                    </div>
+
+                    <BoundaryInput
+                      value={boundary}
+                      onChange={setBoundary}
+                      typedArea={parseFloat(formData.area) || undefined}
+                    />
+                  </>
+                )}
               </div>
 
               <Separator />
@@ -220,6 +399,11 @@ const PredictionForm = ({ onPrediction }: PredictionFormProps) => {
                   <TestTube className="w-5 h-5 text-success" />
                   <h3 className="font-semibold text-lg">Soil Analysis</h3>
                 </div>
+                {farmId !== NEW_FARM && (
+                  <p className="text-sm text-muted-foreground">
+                    Leave the readings blank to use this farm's latest soil test.
+                  </p>
+                )}
                 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="space-y-2">
@@ -265,6 +449,56 @@ const PredictionForm = ({ onPrediction }: PredictionFormProps) => {
                     />
                   </div>
                 </div>
+
+                <Collapsible>
+                  <CollapsibleTrigger asChild>
+                    <Button type="button" variant="ghost" size="sm" className="gap-2 px-0">
+                      <ChevronDown className="w-4 h-4" />
+                      Lab results (optional)
+                    </Button>
+                  </CollapsibleTrigger>
+                  <CollapsibleContent className="space-y-3 pt-2">
+                    <p className="text-sm text-muted-foreground">
+                      Nutrients, salinity and texture from a lab report sharpen the prediction.
+                      Each one left out widens its likely range.
+                    </p>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      {LAB_MEASURES.map((measure) => (
+                        <div key={measure} className="space-y-2">
+                          <Label htmlFor={`lab-${measure}`}>
+                            {SOIL_MEASURES[measure].label} ({SOIL_MEASURES[measure].unit})
+                          </Label>
+                          <Input
+                            id={`lab-${measure}`}
+                            type="number"
+                            step="any"
+                            min="0"
+                            value={labResults[measure] ?? ""}
+                            onChange={(e) => setLabResults(prev => ({ ...prev, [measure]: e.target.value }))}
+                            className="shadow-soft"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </CollapsibleContent>
+                </Collapsible>
+
+                <div className="space-y-2 md:w-1/3">
+                  <Label htmlFor="targetYield">Target Yield (t/ha)</Label>
+                  <Input
+                    id="targetYield"
+                    type="number"
+                    step="0.1"
+                    min="0"
+                    placeholder="Crop's attainable yield"
+                    value={formData.targetYield}
+                    onChange={(e) => handleInputChange("targetYield", e.target.value)}
+                    className="shadow-soft"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Fertilizer rates are worked out for this yield
+                  </p>
+                </div>
               </div>
 
               <Button 
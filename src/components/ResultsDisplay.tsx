@@ -2,9 +2,21 @@ import { Button } from "@/components/ui/enhanced-button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Progress } from "@/components/ui/progress";
+import { PremiumFeatureGate } from "@/components/PremiumFeatureGate";
+import FertilizerRecommendationCard from "@/components/FertilizerRecommendationCard";
+import RevenueCard from "@/components/RevenueCard";
+import YieldWaterfall from "@/components/YieldWaterfall";
+import type { FertilizerRecommendation } from "@/lib/fertilizer";
+import { growthStageLabel, type GrowthStage } from "@/lib/growth";
+import type { YieldExplanation } from "@/lib/contributions";
+import type { RevenueProjection } from "@/lib/revenue";
+import { formatRange, type YieldInterval } from "@/lib/yield";
+import { NUTRIENT_FACTOR_LABELS, soilFactorLabel, type NutrientFactor, type SoilFactor } from "@/lib/soil";
 import { 
   BarChart3, 
   CloudRain, 
+  Droplets,
   Thermometer, 
   Target, 
   Save, 
@@ -12,7 +24,9 @@ import {
   ArrowLeft,
   MapPin,
   User,
-  Sprout
+  Sprout,
+  TestTube,
+  AlertTriangle
 } from "lucide-react";
 
 interface PredictionResult {
@@ -20,8 +34,34 @@ interface PredictionResult {
   weather: {
     temperature: string;
     rainfall: string;
+    humidity?: string;
+    periodStart?: string;
+    periodEnd?: string;
   };
-  confidence: string;
+  interval: YieldInterval;
+  modelVersion?: string;
+  soilFactors?: Record<SoilFactor, number>;
+  nutrientFactors?: Partial<Record<NutrientFactor, number>>;
+  // Optional lab measurements that were not supplied
+  missingInputs?: NutrientFactor[];
+  limitingFactor?: SoilFactor | NutrientFactor;
+  fertilizer?: FertilizerRecommendation;
+  explanation?: YieldExplanation;
+  revenue?: RevenueProjection;
+  // Stage of the season the prediction was filed under
+  growthStage?: GrowthStage | null;
+  location?: {
+    latitude: number;
+    longitude: number;
+    place: string;
+    admin_region: string;
+  };
+  area?: {
+    hectares: number;
+    measured_from_boundary: boolean;
+    warning: string | null;
+  };
+  totalYield?: string;
   farmData: any;
 }
 
@@ -32,6 +72,11 @@ interface ResultsDisplayProps {
 }
 
 const ResultsDisplay = ({ result, onBack, onSubscribe }: ResultsDisplayProps) => {
+  const { p10, p50, p90 } = result.interval;
+  // Band positions on a 0 to just-past-P90 scale
+  const scale = p90 * 1.15 || 1;
+  const position = (value: number) => `${(value / scale) * 100}%`;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-secondary/20 py-12">
       <div className="container mx-auto px-6 max-w-4xl">
@@ -61,8 +106,31 @@ const ResultsDisplay = ({ result, onBack, onSubscribe }: ResultsDisplayProps) =>
                 Estimated crop yield for {result.farmData.crop}
               </CardDescription>
               <Badge variant="secondary" className="mx-auto mt-2 bg-success/10 text-success border-success/20">
-                {result.confidence}% Confidence
+                Likely {formatRange(p10, p90, 2)} t/ha
               </Badge>
+              <div className="max-w-sm w-full mx-auto mt-4 space-y-1">
+                <div className="relative h-3 rounded-full bg-muted">
+                  <div
+                    className="absolute inset-y-0 rounded-full bg-success/30"
+                    style={{ left: position(p10), width: `calc(${position(p90)} - ${position(p10)})` }}
+                  />
+                  <div
+                    className="absolute -inset-y-1 w-1 rounded-full bg-success"
+                    style={{ left: position(p50) }}
+                  />
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>0</span>
+                  <span>
+                    8 in 10 harvests should fall between {p10.toFixed(2)} and {p90.toFixed(2)} t/ha
+                  </span>
+                </div>
+              </div>
+              {result.modelVersion && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Model: {result.modelVersion}
+                </p>
+              )}
             </CardHeader>
           </Card>
 
@@ -76,7 +144,9 @@ const ResultsDisplay = ({ result, onBack, onSubscribe }: ResultsDisplayProps) =>
                   Weather Conditions
                 </CardTitle>
                 <CardDescription>
-                  Current conditions used for prediction
+                  {result.weather.periodStart && result.weather.periodEnd
+                    ? `Observed and forecast weather, ${new Date(result.weather.periodStart).toLocaleDateString()} – ${new Date(result.weather.periodEnd).toLocaleDateString()}`
+                    : "Current conditions used for prediction"}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -90,10 +160,19 @@ const ResultsDisplay = ({ result, onBack, onSubscribe }: ResultsDisplayProps) =>
                 <div className="flex items-center justify-between p-3 rounded-lg bg-primary/5 border border-primary/10">
                   <div className="flex items-center gap-2">
                     <CloudRain className="w-4 h-4 text-primary" />
-                    <span className="font-medium">Expected Rainfall</span>
+                    <span className="font-medium">Total Rainfall</span>
                   </div>
                   <span className="text-lg font-bold text-primary">{result.weather.rainfall}mm</span>
                 </div>
+                {result.weather.humidity && (
+                  <div className="flex items-center justify-between p-3 rounded-lg bg-secondary/20 border border-secondary/30">
+                    <div className="flex items-center gap-2">
+                      <Droplets className="w-4 h-4 text-muted-foreground" />
+                      <span className="font-medium">Humidity</span>
+                    </div>
+                    <span className="text-lg font-bold">{result.weather.humidity}%</span>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -116,20 +195,118 @@ const ResultsDisplay = ({ result, onBack, onSubscribe }: ResultsDisplayProps) =>
                 <div className="flex items-center gap-2">
                   <MapPin className="w-4 h-4 text-muted-foreground" />
                   <span>{result.farmData.location}</span>
+                  {result.location && (
+                    <Badge variant="outline" className="ml-auto">
+                      {result.location.admin_region} County
+                    </Badge>
+                  )}
                 </div>
+                {result.location && (
+                  <p className="text-xs text-muted-foreground pl-6">
+                    {result.location.latitude.toFixed(4)}, {result.location.longitude.toFixed(4)} (near {result.location.place})
+                  </p>
+                )}
                 <div className="flex items-center gap-2">
                   <Sprout className="w-4 h-4 text-muted-foreground" />
                   <span>{result.farmData.crop}</span>
-                  {result.farmData.area && (
+                  {(result.area?.hectares || result.farmData.area) && (
                     <Badge variant="outline" className="ml-auto">
-                      {result.farmData.area} ha
+                      {result.area?.hectares ?? result.farmData.area} ha
                     </Badge>
                   )}
                 </div>
+                {result.growthStage && (
+                  <p className="text-xs text-muted-foreground pl-6">
+                    {growthStageLabel(result.growthStage.stage)} stage, day {result.growthStage.days_after_planting}
+                    {" "}· {Math.round(result.growthStage.progress * 100)}% of degree days to maturity
+                  </p>
+                )}
+                {result.area?.measured_from_boundary && (
+                  <p className="text-xs text-muted-foreground pl-6">
+                    Area measured from farm boundary
+                  </p>
+                )}
+                {result.area?.warning && (
+                  <div className="flex items-start gap-2 p-3 rounded-lg bg-warning/10 border border-warning/20 text-sm">
+                    <AlertTriangle className="w-4 h-4 text-warning mt-0.5 shrink-0" />
+                    <span>{result.area.warning}</span>
+                  </div>
+                )}
+                {result.totalYield && (
+                  <div className="flex items-center justify-between pt-2 border-t">
+                    <span className="text-sm text-muted-foreground">Total expected harvest</span>
+                    <span className="font-semibold">{result.totalYield} tonnes</span>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
 
+          {/* Factor Contributions */}
+          {result.explanation && (
+            <YieldWaterfall explanation={result.explanation} crop={result.farmData.crop} />
+          )}
+
+          {/* Soil Factor Responses */}
+          {result.soilFactors && (
+            <Card className="shadow-medium border-border/50">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <TestTube className="w-5 h-5 text-success" />
+                  Soil Factors
+                </CardTitle>
+                <CardDescription>
+                  Share of the crop's potential yield each soil factor allows
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {Object.entries({ ...result.soilFactors, ...result.nutrientFactors }).map(([factor, value]) => (
+                  <div key={factor} className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{soilFactorLabel(factor)}</span>
+                      <div className="flex items-center gap-2">
+                        {result.limitingFactor === factor && (
+                          <Badge variant="outline" className="border-warning/50 text-warning">
+                            Most limiting
+                          </Badge>
+                        )}
+                        <span className="text-sm text-muted-foreground">
+                          {Math.round(value * 100)}%
+                        </span>
+                      </div>
+                    </div>
+                    <Progress value={value * 100} />
+                  </div>
+                ))}
+                {result.missingInputs && result.missingInputs.length > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Not measured: {result.missingInputs.map(factor => NUTRIENT_FACTOR_LABELS[factor]).join(", ")}.
+                    Adding these from a lab report would narrow the likely range of this prediction.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Fertilizer Recommendations */}
+          {result.fertilizer && (
+            <PremiumFeatureGate
+              feature="Fertilizer Recommendations"
+              description="Lime, N, P and K rates and the products to buy for your farm"
+              onUpgrade={onSubscribe}
+            >
+              <FertilizerRecommendationCard
+                recommendation={result.fertilizer}
+                areaHa={result.area?.hectares}
+              />
+            </PremiumFeatureGate>
+          )}
+
+          {/* Revenue Projection */}
+          {result.revenue && (
+            <RevenueCard projection={result.revenue} areaHa={result.area?.hectares} />
+          )}
+
           {/* Action Buttons */}
           <Card className="shadow-medium border-border/50">
             <CardContent className="p-6">
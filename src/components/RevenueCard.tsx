@@ -0,0 +1,92 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Coins } from "lucide-react";
+import { describePrice, formatKes, type RevenueProjection } from "@/lib/revenue";
+
+interface RevenueCardProps {
+  projection: RevenueProjection;
+  areaHa?: number;
+}
+
+const RevenueCard = ({ projection, areaHa }: RevenueCardProps) => {
+  const { price, per_ha, per_farm, input_costs, margin_range } = projection;
+
+  const rows: { label: string; key: keyof typeof per_ha }[] = [
+    { label: "Gross Revenue", key: "gross_revenue" },
+    { label: "Input Costs", key: "input_costs" },
+    { label: "Margin", key: "margin" },
+  ];
+
+  return (
+    <Card className="shadow-medium border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="w-5 h-5 text-success" />
+          Revenue Projection
+        </CardTitle>
+        <CardDescription>
+          At {formatKes(price.price_per_tonne)} per tonne ({describePrice(price)})
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead />
+              <TableHead className="text-right">Per Hectare</TableHead>
+              <TableHead className="text-right">
+                Whole Farm{areaHa != null && ` (${areaHa} ha)`}
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ label, key }) => (
+              <TableRow key={key} className={key === "margin" ? "font-semibold" : undefined}>
+                <TableCell>{label}</TableCell>
+                <TableCell className={`text-right ${key === "margin" && per_ha.margin < 0 ? "text-destructive" : ""}`}>
+                  {formatKes(per_ha[key])}
+                </TableCell>
+                <TableCell className={`text-right ${key === "margin" && per_farm.margin < 0 ? "text-destructive" : ""}`}>
+                  {formatKes(per_farm[key])}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className={`grid gap-4 ${input_costs.recorded ? "grid-cols-2 md:grid-cols-4" : "grid-cols-3"}`}>
+          <div className="text-center p-4 rounded-lg bg-muted/50">
+            <p className="text-sm text-muted-foreground">Seed, Labour &amp; Other</p>
+            <p className="text-lg font-semibold">{formatKes(input_costs.base)}</p>
+            <p className="text-xs text-muted-foreground">per ha</p>
+          </div>
+          <div className="text-center p-4 rounded-lg bg-muted/50">
+            <p className="text-sm text-muted-foreground">Fertilizer</p>
+            <p className="text-lg font-semibold">{formatKes(input_costs.fertilizer)}</p>
+            <p className="text-xs text-muted-foreground">per ha</p>
+          </div>
+          <div className="text-center p-4 rounded-lg bg-muted/50">
+            <p className="text-sm text-muted-foreground">Lime</p>
+            <p className="text-lg font-semibold">{formatKes(input_costs.lime)}</p>
+            <p className="text-xs text-muted-foreground">per ha</p>
+          </div>
+          {!!input_costs.recorded && (
+            <div className="text-center p-4 rounded-lg bg-muted/50">
+              <p className="text-sm text-muted-foreground">Spent So Far</p>
+              <p className="text-lg font-semibold">{formatKes(input_costs.recorded)}</p>
+              <p className="text-xs text-muted-foreground">per ha, from the activity log</p>
+            </div>
+          )}
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          In 8 of 10 seasons the farm's margin should fall between {formatKes(margin_range.p10)} and{" "}
+          {formatKes(margin_range.p90)}. Fertilizer and lime are costed from the recommendation for this prediction
+          {input_costs.recorded ? ", and spending already logged replaces the estimate for what it covers." : "."}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RevenueCard;
@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FlaskConical, Loader2, RotateCcw } from "lucide-react";
+import { useCrops } from "@/hooks/useCrops";
+import type { Prediction } from "@/hooks/useFarmPredictions";
+import { useToast } from "@/hooks/use-toast";
+import { useYieldScenario } from "@/hooks/useYieldScenario";
+import { CONTRIBUTION_FACTOR_LABELS } from "@/lib/contributions";
+import type { ScenarioInput, ScenarioResult } from "@/lib/scenario";
+import { soilFactorLabel } from "@/lib/soil";
+import { formatRange } from "@/lib/yield";
+
+interface ScenarioDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  farmId: string;
+  cropId: string;
+  prediction: Prediction | null;
+}
+
+interface ScenarioSlider {
+  key: "soil_ph" | "soil_moisture" | "organic_matter";
+  label: string;
+  hint: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const SLIDERS: ScenarioSlider[] = [
+  { key: "soil_ph", label: "Soil pH", hint: "after liming or acidifying", unit: "", min: 3.5, max: 9, step: 0.1 },
+  { key: "organic_matter", label: "Organic Matter", hint: "after compost or manure", unit: "%", min: 0, max: 10, step: 0.1 },
+  { key: "soil_moisture", label: "Soil Moisture", hint: "with irrigation or drainage", unit: "%", min: 0, max: 60, step: 1 },
+];
+
+const formatDelta = (value: number, digits = 1) => `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+
+const ScenarioDialog = ({ isOpen, onClose, farmId, cropId, prediction }: ScenarioDialogProps) => {
+  const { toast } = useToast();
+  const { crops } = useCrops();
+
+  // The prediction's own readings, re-run as the baseline
+  const original = useMemo<ScenarioInput | null>(() => (
+    prediction?.soil_ph != null && prediction.soil_moisture != null && prediction.organic_matter != null
+      ? {
+          soil_ph: Number(prediction.soil_ph),
+          soil_moisture: Number(prediction.soil_moisture),
+          organic_matter: Number(prediction.organic_matter),
+        }
+      : null
+  ), [prediction]);
+  const [input, setInput] = useState<ScenarioInput | null>(original);
+  const { baseline, loadingBaseline, scenario, simulate, simulating, reset } = useYieldScenario(
+    isOpen ? farmId : undefined,
+    prediction?.soil_test_id ?? null,
+    original
+  );
+
+  useEffect(() => {
+    if (isOpen) {
+      setInput(original);
+      reset();
+    }
+  }, [isOpen, original, reset]);
+
+  const handleSimulate = async () => {
+    if (!input) return;
+    try {
+      await simulate({ ...input, crop: input.crop && input.crop !== cropId ? input.crop : undefined });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to run the scenario",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const change = baseline && scenario ? scenario.yield_per_hectare - baseline.yield_per_hectare : null;
+
+  const column = (title: string, result: ScenarioResult | null, loading: boolean) => (
+    <div className="p-4 rounded-lg bg-muted/50 space-y-2">
+      <p className="text-sm text-muted-foreground">{title}</p>
+      {result ? (
+        <>
+          <p className="text-2xl font-bold">{result.yield_per_hectare.toFixed(2)} t/ha</p>
+          <p className="text-sm text-muted-foreground">{result.farm.crop}</p>
+          <p className="text-sm">Likely {formatRange(result.interval.p10, result.interval.p90, 2)} t/ha</p>
+          <p className="text-sm">{result.total_yield.toFixed(2)} t across {result.farm.area_hectares} ha</p>
+          <p className="text-xs text-muted-foreground">
+            Most limiting: {soilFactorLabel(result.limiting_factor)}
+          </p>
+        </>
+      ) : loading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      ) : (
+        <p className="text-sm text-muted-foreground">Adjust the sliders and run the scenario.</p>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FlaskConical className="w-5 h-5 text-primary" />
+            What If?
+          </DialogTitle>
+          <DialogDescription>
+            Try soil and crop changes against the prediction from{" "}
+            {prediction ? new Date(prediction.created_at).toLocaleDateString() : ""}. Scenarios use today's
+            weather and are not saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        {input && original ? (
+          <div className="space-y-6">
+            {SLIDERS.map(slider => (
+              <div key={slider.key} className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>
+                    {slider.label} <span className="text-muted-foreground font-normal">{slider.hint}</span>
+                  </Label>
+                  <span className="text-sm">
+                    {input[slider.key].toFixed(slider.step < 1 ? 1 : 0)}{slider.unit}
+                    {input[slider.key] !== original[slider.key] && (
+                      <span className="text-muted-foreground">
+                        {" "}({formatDelta(input[slider.key] - original[slider.key], slider.step < 1 ? 1 : 0)})
+                      </span>
+                    )}
+                  </span>
+                </div>
+                <Slider
+                  min={slider.min}
+                  max={slider.max}
+                  step={slider.step}
+                  value={[input[slider.key]]}
+                  onValueChange={([value]) => setInput({ ...input, [slider.key]: value })}
+                />
+              </div>
+            ))}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="scenario-crop">Crop</Label>
+                <Select
+                  value={input.crop ?? cropId}
+                  onValueChange={(value) => setInput({ ...input, crop: value })}
+                >
+                  <SelectTrigger id="scenario-crop">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {crops.map(crop => (
+                      <SelectItem key={crop.id} value={crop.id}>{crop.display_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="icon" onClick={() => setInput(original)} title="Reset">
+                  <RotateCcw className="w-4 h-4" />
+                </Button>
+                <Button onClick={handleSimulate} disabled={simulating} className="gap-2 flex-1">
+                  {simulating ? <Loader2 className="w-4 h-4 animate-spin" /> : <FlaskConical className="w-4 h-4" />}
+                  Run Scenario
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {column("As Is", baseline, loadingBaseline)}
+              {column("Scenario", scenario, simulating)}
+            </div>
+
+            {change != null && baseline && (
+              <div className="flex justify-center">
+                <Badge
+                  variant="outline"
+                  className={change >= 0 ? "border-success/50 text-success" : "border-destructive/50 text-destructive"}
+                >
+                  {formatDelta(change, 2)} t/ha ({formatDelta((change / baseline.yield_per_hectare) * 100, 0)}%)
+                </Badge>
+              </div>
+            )}
+
+            {baseline && scenario && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Factor</TableHead>
+                    <TableHead className="text-right">As Is (t/ha)</TableHead>
+                    <TableHead className="text-right">Scenario (t/ha)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {baseline.factor_contributions.contributions.map(item => {
+                    const other = scenario.factor_contributions.contributions.find(c => c.factor === item.factor);
+                    return (
+                      <TableRow key={item.factor}>
+                        <TableCell>{CONTRIBUTION_FACTOR_LABELS[item.factor]}</TableCell>
+                        <TableCell className="text-right">{formatDelta(item.contribution, 2)}</TableCell>
+                        <TableCell className="text-right">
+                          {other ? formatDelta(other.contribution, 2) : "—"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            This prediction has no soil readings to start a scenario from.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScenarioDialog;
@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/enhanced-button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Save } from "lucide-react";
+import { useCrops } from "@/hooks/useCrops";
+import { useCropVarieties } from "@/hooks/useCropVarieties";
+import { useSeasons, type Season } from "@/hooks/useSeasons";
+import { useToast } from "@/hooks/use-toast";
+import { expectedHarvestDate, RAINS_LABELS, rainsForPlanting, type Rains } from "@/lib/seasons";
+
+interface SeasonDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  farmId: string;
+  cropId: string;
+  // Season being edited; a new one is added without
+  season?: Season | null;
+  onSaved?: (season: Season) => void;
+}
+
+const NO_RAINS = "none";
+// A variety the catalogue doesn't list, named in free text
+const OTHER_VARIETY = "other";
+
+const emptyForm = (cropId: string, season?: Season | null) => ({
+  crop_id: season?.crop_id ?? cropId,
+  variety_id: season?.variety_id ?? OTHER_VARIETY,
+  variety: season?.variety ?? "",
+  planting_date: season?.planting_date ?? "",
+  expected_harvest_date: season?.expected_harvest_date ?? "",
+  rains: season ? season.rains ?? NO_RAINS : NO_RAINS,
+  notes: season?.notes ?? "",
+});
+
+const SeasonDialog = ({ isOpen, onClose, farmId, cropId, season, onSaved }: SeasonDialogProps) => {
+  const { toast } = useToast();
+  const { crops } = useCrops();
+  const { varietiesOf } = useCropVarieties();
+  const { addSeason, updateSeason, saving } = useSeasons(farmId);
+  const [formData, setFormData] = useState(() => emptyForm(cropId, season));
+
+  useEffect(() => {
+    if (isOpen) setFormData(emptyForm(cropId, season));
+  }, [isOpen, cropId, season]);
+
+  const varieties = varietiesOf(formData.crop_id);
+  const selectedVariety = varieties.find(v => v.id === formData.variety_id);
+
+  // Changing the crop, variety or planting date re-estimates the harvest
+  // and rains; a catalogue variety's maturity beats the crop's stage lengths
+  const reschedule = (cropIdValue: string, varietyId: string, plantingDate: string) => {
+    const crop = crops.find(c => c.id === cropIdValue);
+    const variety = varietiesOf(cropIdValue).find(v => v.id === varietyId);
+    const stageDays = variety ? [variety.maturity_days] : crop?.stage_days;
+    setFormData(prev => ({
+      ...prev,
+      crop_id: cropIdValue,
+      variety_id: variety ? variety.id : OTHER_VARIETY,
+      planting_date: plantingDate,
+      ...(plantingDate && {
+        rains: rainsForPlanting(plantingDate),
+        ...(stageDays && { expected_harvest_date: expectedHarvestDate(plantingDate, stageDays) }),
+      }),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!formData.crop_id || !formData.planting_date || !formData.expected_harvest_date) {
+      toast({
+        title: "Missing Information",
+        description: "Please choose the crop and enter the planting and expected harvest dates.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (formData.expected_harvest_date <= formData.planting_date) {
+      toast({
+        title: "Check the Dates",
+        description: "The expected harvest must be after the planting date.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const input = {
+      crop_id: formData.crop_id,
+      variety_id: formData.variety_id === OTHER_VARIETY ? null : formData.variety_id,
+      variety: formData.variety_id === OTHER_VARIETY ? formData.variety.trim() || null : null,
+      planting_date: formData.planting_date,
+      expected_harvest_date: formData.expected_harvest_date,
+      rains: formData.rains === NO_RAINS ? null : formData.rains,
+      notes: formData.notes || null,
+    };
+
+    try {
+      const saved = season ? await updateSeason({ id: season.id, ...input }) : await addSeason(input);
+      toast({
+        title: season ? "Season Updated" : "Season Added",
+        description: `Planted ${new Date(saved.planting_date).toLocaleDateString()}, harvest expected ${new Date(saved.expected_harvest_date).toLocaleDateString()}.`,
+      });
+      onSaved?.(saved);
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save season",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{season ? "Edit Season" : "New Season"}</DialogTitle>
+          <DialogDescription>
+            A planting on this farm. Predictions, soil tests and the harvest are filed under it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="season-crop">Crop *</Label>
+            <Select
+              value={formData.crop_id}
+              onValueChange={(value) => reschedule(value, OTHER_VARIETY, formData.planting_date)}
+            >
+              <SelectTrigger id="season-crop">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {crops.map(crop => (
+                  <SelectItem key={crop.id} value={crop.id}>{crop.display_name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="season-variety">Variety</Label>
+            <Select
+              value={formData.variety_id}
+              onValueChange={(value) => reschedule(formData.crop_id, value, formData.planting_date)}
+            >
+              <SelectTrigger id="season-variety">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {varieties.map(variety => (
+                  <SelectItem key={variety.id} value={variety.id}>
+                    {variety.name} · {variety.maturity_days} days
+                  </SelectItem>
+                ))}
+                <SelectItem value={OTHER_VARIETY}>Other / not listed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {selectedVariety ? (
+            <p className="text-xs text-muted-foreground col-span-2">
+              {selectedVariety.description && `${selectedVariety.description}. `}
+              Yield potential {selectedVariety.yield_potential} t/ha.
+            </p>
+          ) : (
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="season-variety-name">Variety Name</Label>
+              <Input
+                id="season-variety-name"
+                placeholder="e.g., Duma 43"
+                value={formData.variety}
+                onChange={(e) => setFormData(prev => ({ ...prev, variety: e.target.value }))}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="season-planting-date">Planting Date *</Label>
+            <Input
+              id="season-planting-date"
+              type="date"
+              value={formData.planting_date}
+              onChange={(e) => reschedule(formData.crop_id, formData.variety_id, e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="season-harvest-date">Expected Harvest *</Label>
+            <Input
+              id="season-harvest-date"
+              type="date"
+              value={formData.expected_harvest_date}
+              onChange={(e) => setFormData(prev => ({ ...prev, expected_harvest_date: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="season-rains">Rains</Label>
+            <Select
+              value={formData.rains}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, rains: value }))}
+            >
+              <SelectTrigger id="season-rains">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_RAINS}>Irrigated or off-season</SelectItem>
+                {(Object.keys(RAINS_LABELS) as Rains[]).map(rains => (
+                  <SelectItem key={rains} value={rains}>{RAINS_LABELS[rains]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 col-span-2">
+            <Label htmlFor="season-notes">Notes</Label>
+            <Textarea
+              id="season-notes"
+              rows={2}
+              placeholder="e.g., Intercropped with beans in the lower field"
+              value={formData.notes}
+              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The expected harvest is estimated from the variety's maturity, or the crop's growth stages for
+          varieties not listed; adjust it for your field.
+        </p>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="gap-2">
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Season
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SeasonDialog;
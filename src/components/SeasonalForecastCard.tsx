@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartConfig } from "@/components/ui/chart";
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { CalendarRange, Loader2 } from "lucide-react";
+import { useCrops } from "@/hooks/useCrops";
+import { useCropVarieties } from "@/hooks/useCropVarieties";
+import { useSeasonalForecasts } from "@/hooks/useSeasonalForecasts";
+import { useSeasons } from "@/hooks/useSeasons";
+import { useToast } from "@/hooks/use-toast";
+import { seasonLabel } from "@/lib/seasons";
+import { formatRange } from "@/lib/yield";
+
+interface SeasonalForecastCardProps {
+  farmId: string;
+  // Forecasts run on the latest soil test
+  canForecast: boolean;
+}
+
+const formatMonth = (month: string) =>
+  new Date(month).toLocaleDateString(undefined, { month: "short", year: "numeric" });
+
+const SeasonalForecastCard = ({ farmId, canForecast }: SeasonalForecastCardProps) => {
+  const { toast } = useToast();
+  const { cropName } = useCrops();
+  const { varietyName } = useCropVarieties();
+  const { seasons } = useSeasons(farmId);
+  const { forecasts, startForecast, starting } = useSeasonalForecasts(farmId);
+  const [seasonId, setSeasonId] = useState("");
+  const [selectedId, setSelectedId] = useState<string>("");
+
+  // Seasons not harvested yet that have no forecast
+  const today = new Date().toISOString().slice(0, 10);
+  const unforecast = seasons.filter(season =>
+    season.expected_harvest_date >= today && !forecasts.some(f => f.season_id === season.id));
+  const forecastLabel = (seasonIdValue: string) => {
+    const season = seasons.find(s => s.id === seasonIdValue);
+    return season ? seasonLabel(season, cropName(season.crop_id), varietyName(season)) : "";
+  };
+
+  const forecast = forecasts.find(f => f.id === selectedId) ?? forecasts[0];
+  const currentMonth = `${new Date().toISOString().slice(0, 7)}-01`;
+  const current = forecast?.points.filter(point => point.month <= currentMonth).pop() ?? forecast?.points[0];
+
+  const handleStart = async () => {
+    try {
+      const started = await startForecast(seasonId);
+      setSelectedId(started.id);
+      setSeasonId("");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to compute forecast",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const chartData = (forecast?.points ?? []).map(point => ({
+    month: formatMonth(point.month),
+    yield: Number(point.yield_per_hectare),
+    range: [Number(point.yield_p10), Number(point.yield_p90)],
+  }));
+
+  const chartConfig: ChartConfig = {
+    yield: {
+      label: "Projected yield (tons/ha)",
+      color: "hsl(var(--primary))",
+    },
+    range: {
+      label: "P10–P90 (tons/ha)",
+      color: "hsl(var(--primary))",
+    },
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarRange className="w-5 h-5 text-primary" />
+          Seasonal Forecast
+        </CardTitle>
+        <CardDescription>
+          Projected yield for the season, updated daily as weather comes in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col md:flex-row gap-4 md:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="forecast-new-season">Season to Forecast</Label>
+            <Select value={seasonId} onValueChange={setSeasonId} disabled={unforecast.length === 0}>
+              <SelectTrigger id="forecast-new-season" className="w-64">
+                <SelectValue placeholder={unforecast.length ? "Choose a season" : "No upcoming seasons"} />
+              </SelectTrigger>
+              <SelectContent>
+                {unforecast.map(season => (
+                  <SelectItem key={season.id} value={season.id}>
+                    {seasonLabel(season, cropName(season.crop_id), varietyName(season))}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleStart} disabled={starting || !seasonId || !canForecast} className="gap-2">
+            {starting ? <Loader2 className="w-4 h-4 animate-spin" /> : <CalendarRange className="w-4 h-4" />}
+            Forecast Season
+          </Button>
+          {forecasts.length > 1 && (
+            <div className="space-y-2 md:ml-auto">
+              <Label htmlFor="forecast-season">Season</Label>
+              <Select value={forecast?.id} onValueChange={setSelectedId}>
+                <SelectTrigger id="forecast-season" className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {forecasts.map(f => (
+                    <SelectItem key={f.id} value={f.id}>
+                      {forecastLabel(f.season_id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        {!canForecast && (
+          <p className="text-sm text-muted-foreground">
+            Record a soil test with pH, moisture and organic matter to forecast a season.
+          </p>
+        )}
+
+        {forecast && current && (
+          <>
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+              <span>
+                <span className="text-muted-foreground">Projected: </span>
+                <span className="font-semibold">{Number(current.yield_per_hectare).toFixed(2)} tons/ha</span>
+                <span className="text-muted-foreground">
+                  {" "}(P10–P90 {formatRange(current.yield_p10, current.yield_p90)})
+                </span>
+              </span>
+              <span>
+                <span className="text-muted-foreground">Harvest: </span>
+                {new Date(forecast.harvest_date).toLocaleDateString()}
+              </span>
+              {forecast.last_computed_at && (
+                <span className="text-muted-foreground">
+                  Updated {new Date(forecast.last_computed_at).toLocaleDateString()}
+                </span>
+              )}
+              <Badge variant={forecast.status === "active" ? "outline" : "secondary"} className="capitalize">
+                {forecast.status}
+              </Badge>
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" />
+                  <YAxis />
+                  <Tooltip />
+                  <Area
+                    type="monotone"
+                    dataKey="range"
+                    stroke="none"
+                    fill="hsl(var(--primary))"
+                    fillOpacity={0.15}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="yield"
+                    stroke="hsl(var(--primary))"
+                    strokeWidth={2}
+                    dot={{ fill: "hsl(var(--primary))" }}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+            <p className="text-xs text-muted-foreground">
+              Each month shows the season's yield projected with the weather known by the end of that
+              month. The shaded band holds 8 in 10 likely outcomes and narrows as less of the season
+              is left to forecast.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SeasonalForecastCard;
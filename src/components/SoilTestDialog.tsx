@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/enhanced-button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Loader2, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSoilTests, type SoilTest } from "@/hooks/useSoilTests";
+import { SOIL_MEASURES, SOIL_TEXTURES, type SoilMeasure } from "@/lib/soil";
+
+interface SoilTestDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  farmId: string;
+  onSaved?: (soilTest: SoilTest) => void;
+}
+
+const emptyForm = () => ({
+  tested_on: new Date().toISOString().slice(0, 10),
+  sampling_depth_cm: "",
+  lab: "",
+  method: "",
+  texture: "",
+  measures: {} as Partial<Record<SoilMeasure, string>>,
+});
+
+const measureSteps: Record<SoilMeasure, string> = {
+  ph: "0.1",
+  moisture: "1",
+  organic_matter: "0.1",
+  nitrogen: "0.01",
+  phosphorus: "1",
+  potassium: "1",
+  ec: "0.01",
+  cec: "0.1",
+  sand: "1",
+  silt: "1",
+  clay: "1",
+};
+
+const parseOptional = (value: string | undefined) => (value ? parseFloat(value) : null);
+
+const SoilTestDialog = ({ isOpen, onClose, farmId, onSaved }: SoilTestDialogProps) => {
+  const { toast } = useToast();
+  const { addSoilTest, adding } = useSoilTests(farmId);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    if (isOpen) setFormData(emptyForm());
+  }, [isOpen]);
+
+  const handleMeasureChange = (measure: SoilMeasure, value: string) => {
+    setFormData(prev => ({ ...prev, measures: { ...prev.measures, [measure]: value } }));
+  };
+
+  const handleSave = async () => {
+    const { measures } = formData;
+    if (!Object.values(measures).some(Boolean)) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter at least one soil measurement.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const soilTest = await addSoilTest({
+        tested_on: formData.tested_on,
+        sampling_depth_cm: parseOptional(formData.sampling_depth_cm),
+        lab: formData.lab || null,
+        method: formData.method || null,
+        texture: formData.texture || null,
+        ph: parseOptional(measures.ph),
+        moisture: parseOptional(measures.moisture),
+        organic_matter: parseOptional(measures.organic_matter),
+        nitrogen: parseOptional(measures.nitrogen),
+        phosphorus: parseOptional(measures.phosphorus),
+        potassium: parseOptional(measures.potassium),
+        ec: parseOptional(measures.ec),
+        cec: parseOptional(measures.cec),
+        sand: parseOptional(measures.sand),
+        silt: parseOptional(measures.silt),
+        clay: parseOptional(measures.clay),
+      });
+
+      toast({
+        title: "Soil Test Saved",
+        description: `Results from ${new Date(soilTest.tested_on).toLocaleDateString()} have been recorded.`,
+      });
+      onSaved?.(soilTest);
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save soil test",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Soil Test</DialogTitle>
+          <DialogDescription>
+            Record field readings or results from a lab report
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tested-on">Date Sampled *</Label>
+              <Input
+                id="tested-on"
+                type="date"
+                value={formData.tested_on}
+                onChange={(e) => setFormData(prev => ({ ...prev, tested_on: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sampling-depth">Sampling Depth (cm)</Label>
+              <Input
+                id="sampling-depth"
+                type="number"
+                step="1"
+                placeholder="e.g., 20"
+                value={formData.sampling_depth_cm}
+                onChange={(e) => setFormData(prev => ({ ...prev, sampling_depth_cm: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="lab">Lab</Label>
+              <Input
+                id="lab"
+                placeholder="e.g., KALRO Kabete"
+                value={formData.lab}
+                onChange={(e) => setFormData(prev => ({ ...prev, lab: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="method">Method</Label>
+              <Input
+                id="method"
+                placeholder="e.g., Mehlich-3"
+                value={formData.method}
+                onChange={(e) => setFormData(prev => ({ ...prev, method: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="grid grid-cols-2 gap-4">
+            {(Object.keys(SOIL_MEASURES) as SoilMeasure[]).map((measure) => (
+              <div key={measure} className="space-y-2">
+                <Label htmlFor={`measure-${measure}`}>
+                  {SOIL_MEASURES[measure].label}
+                  {SOIL_MEASURES[measure].unit && ` (${SOIL_MEASURES[measure].unit})`}
+                </Label>
+                <Input
+                  id={`measure-${measure}`}
+                  type="number"
+                  step={measureSteps[measure]}
+                  value={formData.measures[measure] ?? ""}
+                  onChange={(e) => handleMeasureChange(measure, e.target.value)}
+                />
+              </div>
+            ))}
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="texture">Texture</Label>
+              <Select
+                value={formData.texture}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, texture: value }))}
+              >
+                <SelectTrigger id="texture">
+                  <SelectValue placeholder="Select soil texture" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SOIL_TEXTURES.map((texture) => (
+                    <SelectItem key={texture} value={texture} className="capitalize">
+                      {texture}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={adding} className="gap-2">
+            {adding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save Soil Test
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SoilTestDialog;
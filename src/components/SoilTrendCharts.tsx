@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartConfig } from "@/components/ui/chart";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { TestTube } from "lucide-react";
+import type { SoilTest } from "@/hooks/useSoilTests";
+import { SOIL_MEASURES, type SoilMeasure } from "@/lib/soil";
+
+interface SoilTrendChartsProps {
+  // Oldest first
+  soilTests: SoilTest[];
+}
+
+const SoilTrendCharts = ({ soilTests }: SoilTrendChartsProps) => {
+  // Only offer measures that at least one test recorded
+  const measures = (Object.keys(SOIL_MEASURES) as SoilMeasure[])
+    .filter(measure => soilTests.some(test => test[measure] != null));
+  const [selected, setSelected] = useState<SoilMeasure>("ph");
+  const measure = measures.includes(selected) ? selected : measures[0];
+
+  const { label, unit } = measure ? SOIL_MEASURES[measure] : { label: "", unit: "" };
+  const chartData = measure
+    ? soilTests
+      .filter(test => test[measure] != null)
+      .map(test => ({
+        date: new Date(test.tested_on).toLocaleDateString(),
+        value: Number(test[measure]),
+      }))
+    : [];
+
+  const chartConfig: ChartConfig = {
+    value: {
+      label: unit ? `${label} (${unit})` : label,
+      color: "hsl(var(--primary))",
+    },
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Soil Health Trends</CardTitle>
+        <CardDescription>How each measurement has changed across soil tests</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {measure ? (
+          <>
+            <Tabs value={measure} onValueChange={(value) => setSelected(value as SoilMeasure)}>
+              <TabsList className="flex-wrap h-auto">
+                {measures.map(m => (
+                  <TabsTrigger key={m} value={m}>
+                    {SOIL_MEASURES[m].label}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <ChartContainer config={chartConfig} className="h-[250px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" />
+                  <YAxis domain={["auto", "auto"]} />
+                  <Tooltip />
+                  <Line
+                    type="monotone"
+                    dataKey="value"
+                    name={chartConfig.value.label as string}
+                    stroke="hsl(var(--primary))"
+                    strokeWidth={2}
+                    dot={{ fill: "hsl(var(--primary))" }}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+          </>
+        ) : (
+          <div className="h-[250px] flex items-center justify-center text-muted-foreground">
+            <div className="text-center">
+              <TestTube className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>Record a soil test to see trends</p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SoilTrendCharts;
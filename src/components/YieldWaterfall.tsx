@@ -0,0 +1,125 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartConfig } from "@/components/ui/chart";
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { Lightbulb, Scale } from "lucide-react";
+import { CONTRIBUTION_FACTOR_LABELS, type YieldExplanation } from "@/lib/contributions";
+
+interface YieldWaterfallProps {
+  explanation: YieldExplanation;
+  crop: string;
+}
+
+interface WaterfallStep {
+  label: string;
+  // Invisible bar the visible one sits on
+  offset: number;
+  size: number;
+  change: number;
+  color: string;
+}
+
+const TOTAL_COLOR = "hsl(var(--primary))";
+const GAIN_COLOR = "hsl(var(--success))";
+const LOSS_COLOR = "hsl(var(--destructive))";
+
+const formatChange = (change: number) => `${change > 0 ? "+" : ""}${change.toFixed(2)} t/ha`;
+
+const YieldWaterfall = ({ explanation, crop }: YieldWaterfallProps) => {
+  const { baseline, contributions, yield_per_hectare } = explanation;
+
+  let running = baseline;
+  const steps: WaterfallStep[] = [
+    { label: "Base Yield", offset: 0, size: baseline, change: baseline, color: TOTAL_COLOR },
+    ...contributions.map(({ factor, contribution }) => {
+      const start = running;
+      running += contribution;
+      return {
+        label: CONTRIBUTION_FACTOR_LABELS[factor],
+        offset: Math.min(start, running),
+        size: Math.abs(contribution),
+        change: contribution,
+        color: contribution < 0 ? LOSS_COLOR : GAIN_COLOR,
+      };
+    }),
+    { label: "Predicted", offset: 0, size: yield_per_hectare, change: yield_per_hectare, color: TOTAL_COLOR },
+  ];
+
+  const advice = contributions
+    .filter(item => item.advice)
+    .sort((a, b) => a.contribution - b.contribution);
+
+  const chartConfig: ChartConfig = {
+    size: {
+      label: "Yield (t/ha)",
+      color: TOTAL_COLOR,
+    },
+  };
+
+  return (
+    <Card className="shadow-medium border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="w-5 h-5 text-primary" />
+          Why This Yield
+        </CardTitle>
+        <CardDescription>
+          How each factor moved the yield from the {baseline} t/ha {crop.toLowerCase()} typically gives
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ChartContainer config={chartConfig} className="h-[260px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={steps}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="label" tick={{ fontSize: 12 }} interval={0} />
+              <YAxis />
+              <Tooltip
+                formatter={(_value, _name, item) => [
+                  item.payload.color === TOTAL_COLOR
+                    ? `${item.payload.change.toFixed(2)} t/ha`
+                    : formatChange(item.payload.change),
+                  item.payload.label,
+                ]}
+                labelFormatter={() => ""}
+              />
+              <Bar dataKey="offset" stackId="waterfall" fill="transparent" isAnimationActive={false} />
+              <Bar dataKey="size" stackId="waterfall">
+                {steps.map(step => (
+                  <Cell key={step.label} fill={step.color} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartContainer>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {contributions.map(({ factor, contribution }) => (
+            <div key={factor} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+              <span className="text-sm">{CONTRIBUTION_FACTOR_LABELS[factor]}</span>
+              <span className={`text-sm font-semibold ${contribution < 0 ? "text-destructive" : contribution > 0 ? "text-success" : "text-muted-foreground"}`}>
+                {formatChange(contribution)}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        {advice.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="font-semibold">What would raise it</h4>
+            {advice.map(item => (
+              <div key={item.factor} className="flex items-start gap-2 p-3 rounded-lg bg-warning/10 border border-warning/20 text-sm">
+                <Lightbulb className="w-4 h-4 text-warning mt-0.5 shrink-0" />
+                <span>
+                  <span className="font-medium">{CONTRIBUTION_FACTOR_LABELS[item.factor]} ({formatChange(item.contribution)}): </span>
+                  {item.advice}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default YieldWaterfall;
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { CropComparison } from '@/lib/comparison';
+
+// Every catalogue crop ranked for a farm's latest soil test; computed on
+// request and not stored
+export const useCropComparison = (farmId: string | undefined) => {
+  const query = useQuery({
+    queryKey: ['crop-comparison', farmId],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('compare-crops', {
+        body: { farm_id: farmId },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data.comparison as CropComparison;
+    },
+    enabled: !!farmId,
+    // Weather and soil change slowly; don't re-run on every focus
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return {
+    comparison: query.data ?? null,
+    loading: query.isLoading,
+    error: query.error,
+    refresh: query.refetch,
+    refreshing: query.isFetching,
+  };
+};
@@ -0,0 +1,40 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CropVariety = Tables<'crop_varieties'>;
+
+export const useCropVarieties = () => {
+  const query = useQuery({
+    queryKey: ['crop-varieties'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('crop_varieties')
+        .select('*')
+        .order('crop_id')
+        .order('maturity_days');
+
+      if (error) throw error;
+      return data;
+    },
+    // Part of the catalogue; keep it for the whole session
+    staleTime: Infinity,
+  });
+
+  const varieties = query.data ?? [];
+
+  const varietiesOf = (cropId: string | null | undefined) =>
+    varieties.filter(variety => variety.crop_id === cropId);
+
+  // A season's variety: the catalogue one, else the name the farmer typed
+  const varietyName = (season: { variety_id?: string | null; variety?: string | null }) =>
+    varieties.find(variety => variety.id === season.variety_id)?.name ?? season.variety ?? null;
+
+  return {
+    varieties,
+    varietiesOf,
+    varietyName,
+    loading: query.isLoading,
+    error: query.error,
+  };
+};
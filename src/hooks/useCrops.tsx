@@ -0,0 +1,34 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Crop = Tables<'crops'>;
+
+export const useCrops = () => {
+  const query = useQuery({
+    queryKey: ['crops'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('crops')
+        .select('*')
+        .order('display_name');
+
+      if (error) throw error;
+      return data;
+    },
+    // The catalogue changes rarely; keep it for the whole session
+    staleTime: Infinity,
+  });
+
+  const crops = query.data ?? [];
+
+  const cropName = (id: string | null | undefined) =>
+    crops.find(crop => crop.id === id)?.display_name ?? id ?? '';
+
+  return {
+    crops,
+    cropName,
+    loading: query.isLoading,
+    error: query.error,
+  };
+};
@@ -0,0 +1,77 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { useAuth } from './useAuth';
+
+export type FarmActivity = Tables<'farm_activities'>;
+export type FarmActivityInput = Omit<TablesInsert<'farm_activities'>, 'farm_id' | 'user_id'>;
+
+// A farm's activity log, most recent first
+export const useFarmActivities = (farmId: string | undefined) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['farm-activities', farmId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('farm_activities')
+        .select('*')
+        .eq('farm_id', farmId!)
+        .order('performed_on', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!farmId,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['farm-activities', farmId] });
+
+  const addActivity = useMutation({
+    mutationFn: async (input: FarmActivityInput) => {
+      const { data, error } = await supabase
+        .from('farm_activities')
+        .insert({ ...input, farm_id: farmId!, user_id: user!.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateActivity = useMutation({
+    mutationFn: async ({ id, ...input }: FarmActivityInput & { id: string }) => {
+      const { data, error } = await supabase
+        .from('farm_activities')
+        .update(input)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteActivity = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('farm_activities').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    activities: query.data ?? [],
+    loading: query.isLoading,
+    addActivity: addActivity.mutateAsync,
+    updateActivity: updateActivity.mutateAsync,
+    saving: addActivity.isPending || updateActivity.isPending,
+    deleteActivity: deleteActivity.mutateAsync,
+  };
+};
@@ -0,0 +1,44 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Prediction = Tables<'predictions'>;
+
+// All predictions for one farm, oldest first, plus a mutation to run a new one
+export const useFarmPredictions = (farmId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['predictions', farmId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('predictions')
+        .select('*')
+        .eq('farm_id', farmId!)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!farmId,
+  });
+
+  const runPrediction = useMutation({
+    mutationFn: async (soilTestId: string) => {
+      const { data, error } = await supabase.functions.invoke('predict-yield', {
+        body: { farm_id: farmId, soil_test_id: soilTestId },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data.prediction;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['predictions', farmId] }),
+  });
+
+  return {
+    predictions: query.data ?? [],
+    loading: query.isLoading,
+    runPrediction: runPrediction.mutateAsync,
+    running: runPrediction.isPending,
+  };
+};
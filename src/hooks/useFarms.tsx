@@ -0,0 +1,80 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { BoundaryGeometry } from '@/lib/geo';
+import { useAuth } from './useAuth';
+
+export type Farm = Tables<'farms'>;
+
+export interface FarmInput {
+  farm_id?: string;
+  name: string;
+  location: string;
+  crop: string;
+  area_ha: number | null;
+  latitude?: number;
+  longitude?: number;
+  boundary?: BoundaryGeometry | null;
+}
+
+export interface SaveFarmResult {
+  farm: Farm;
+  area_warning: string | null;
+}
+
+export const useFarms = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['farms', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('farms')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['farms'] });
+
+  // Location and area are resolved server-side, so farms are saved through
+  // the save-farm function rather than a direct insert
+  const saveFarm = useMutation({
+    mutationFn: async (input: FarmInput) => {
+      const { data, error } = await supabase.functions.invoke('save-farm', { body: input });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data as SaveFarmResult;
+    },
+    onSuccess: invalidate,
+  });
+
+  const setArchived = useMutation({
+    mutationFn: async ({ id, archived }: { id: string; archived: boolean }) => {
+      const { error } = await supabase
+        .from('farms')
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  const farms = query.data ?? [];
+
+  return {
+    farms,
+    activeFarms: farms.filter(farm => !farm.archived_at),
+    loading: query.isLoading,
+    saveFarm: saveFarm.mutateAsync,
+    saving: saveFarm.isPending,
+    archiveFarm: (id: string) => setArchived.mutateAsync({ id, archived: true }),
+    restoreFarm: (id: string) => setArchived.mutateAsync({ id, archived: false }),
+  };
+};
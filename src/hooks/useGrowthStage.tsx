@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { SeasonGrowthStage } from '@/lib/growth';
+
+// A season's growth stage from degree days to date; computed on request
+// and not stored
+export const useGrowthStage = (seasonId: string | null | undefined) => {
+  const query = useQuery({
+    queryKey: ['growth-stage', seasonId],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('growth-stage', {
+        body: { season_id: seasonId },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data.growth as SeasonGrowthStage;
+    },
+    enabled: !!seasonId,
+    // Degree days only change once a day
+    staleTime: 60 * 60 * 1000,
+  });
+
+  return {
+    growth: query.data ?? null,
+    loading: query.isLoading,
+    error: query.error,
+  };
+};
@@ -0,0 +1,65 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { useAuth } from './useAuth';
+
+export type Harvest = Tables<'harvests'>;
+// The yield per hectare is derived by the database
+export type HarvestInput = Omit<TablesInsert<'harvests'>, 'farm_id' | 'user_id' | 'yield_per_hectare'>;
+
+// Recorded harvests for one farm, newest first
+export const useHarvests = (farmId: string | undefined) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['harvests', farmId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('harvests')
+        .select('*')
+        .eq('farm_id', farmId!)
+        .order('harvested_on', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!farmId,
+  });
+
+  // A harvest changes how this farm's predictions score
+  const invalidate = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: ['harvests', farmId] }),
+    queryClient.invalidateQueries({ queryKey: ['prediction-accuracy'] }),
+  ]);
+
+  const addHarvest = useMutation({
+    mutationFn: async (input: HarvestInput) => {
+      const { data, error } = await supabase
+        .from('harvests')
+        .insert({ ...input, farm_id: farmId!, user_id: user!.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteHarvest = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('harvests').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    harvests: query.data ?? [],
+    loading: query.isLoading,
+    addHarvest: addHarvest.mutateAsync,
+    adding: addHarvest.isPending,
+    deleteHarvest: deleteHarvest.mutateAsync,
+  };
+};
@@ -0,0 +1,23 @@
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { IrrigationPlan, IrrigationRequest } from '@/lib/irrigation';
+
+// Plans are computed on demand from the latest forecast and not stored
+export const useIrrigationPlan = (farmId: string | undefined) => {
+  const mutation = useMutation({
+    mutationFn: async (request: IrrigationRequest) => {
+      const { data, error } = await supabase.functions.invoke('plan-irrigation', {
+        body: { farm_id: farmId, ...request },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data.plan as IrrigationPlan;
+    },
+  });
+
+  return {
+    plan: mutation.data ?? null,
+    planIrrigation: mutation.mutateAsync,
+    planning: mutation.isPending,
+  };
+};
@@ -0,0 +1,51 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { useAuth } from './useAuth';
+
+export type MarketPrice = Tables<'market_prices'>;
+export type MarketPriceInput = Omit<TablesInsert<'market_prices'>, 'user_id'>;
+
+const RECENT_LIMIT = 50;
+
+// The most recent shared and imported prices, newest first, plus a bulk
+// insert for price list imports
+export const useMarketPrices = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['market-prices'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('market_prices')
+        .select('*')
+        .order('price_date', { ascending: false })
+        .order('created_at', { ascending: false })
+        .limit(RECENT_LIMIT);
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const importPrices = useMutation({
+    mutationFn: async (rows: MarketPriceInput[]) => {
+      const { data, error } = await supabase
+        .from('market_prices')
+        .insert(rows.map(row => ({ ...row, user_id: user!.id })))
+        .select();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['market-prices'] }),
+  });
+
+  return {
+    prices: query.data ?? [],
+    loading: query.isLoading,
+    importPrices: importPrices.mutateAsync,
+    importing: importPrices.isPending,
+  };
+};
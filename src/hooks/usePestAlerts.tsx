@@ -0,0 +1,63 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+// Open pest and disease alerts across the user's farms that haven't been
+// dismissed, high risks first
+export const usePestAlerts = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['pest-alerts'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('pest_alerts')
+        .select('*, pest_risk_rules(name, kind, advice), farms(name)')
+        .is('cleared_on', null)
+        .is('dismissed_at', null)
+        .order('risk_level')
+        .order('evaluated_on', { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['pest-alerts'] });
+
+  // Checks the weather now rather than waiting for the morning refresh
+  const checkPestRisk = useMutation({
+    mutationFn: async (farmId?: string) => {
+      const { data, error } = await supabase.functions.invoke('pest-risk', {
+        body: { farm_id: farmId },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data.farms;
+    },
+    onSuccess: invalidate,
+  });
+
+  const dismissAlert = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('pest_alerts')
+        .update({ dismissed_at: new Date().toISOString() })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    alerts: query.data ?? [],
+    loading: query.isLoading,
+    checkPestRisk: checkPestRisk.mutateAsync,
+    checking: checkPestRisk.isPending,
+    dismissAlert: dismissAlert.mutateAsync,
+  };
+};
+
+export type PestAlert = ReturnType<typeof usePestAlerts>['alerts'][number];
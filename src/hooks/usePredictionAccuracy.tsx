@@ -0,0 +1,31 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { summarizeAccuracy } from '@/lib/accuracy';
+
+// The user's predictions that have a recorded harvest, optionally for one
+// farm, with accuracy summarised by crop and model version
+export const usePredictionAccuracy = (farmId?: string) => {
+  const query = useQuery({
+    queryKey: ['prediction-accuracy', farmId ?? 'all'],
+    queryFn: async () => {
+      let request = supabase
+        .from('prediction_accuracy')
+        .select('*')
+        .order('harvested_on', { ascending: false })
+        .order('predicted_at', { ascending: false });
+      if (farmId) request = request.eq('farm_id', farmId);
+
+      const { data, error } = await request;
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const scored = query.data ?? [];
+
+  return {
+    scored,
+    summary: summarizeAccuracy(scored),
+    loading: query.isLoading,
+  };
+};
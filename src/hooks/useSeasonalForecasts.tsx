@@ -0,0 +1,49 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type SeasonalForecastPoint = Tables<'seasonal_forecast_points'>;
+export type SeasonalForecast = Tables<'seasonal_forecasts'> & {
+  // Oldest month first
+  points: SeasonalForecastPoint[];
+};
+
+// Monthly yield forecasts for a farm's seasons, newest planting first
+export const useSeasonalForecasts = (farmId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['seasonal_forecasts', farmId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('seasonal_forecasts')
+        .select('*, points:seasonal_forecast_points(*)')
+        .eq('farm_id', farmId!)
+        .order('planting_date', { ascending: false })
+        .order('month', { referencedTable: 'points', ascending: true });
+
+      if (error) throw error;
+      return data as SeasonalForecast[];
+    },
+    enabled: !!farmId,
+  });
+
+  const startForecast = useMutation({
+    mutationFn: async (seasonId: string) => {
+      const { data, error } = await supabase.functions.invoke('seasonal-forecast', {
+        body: { season_id: seasonId },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return data.forecast as SeasonalForecast;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['seasonal_forecasts', farmId] }),
+  });
+
+  return {
+    forecasts: query.data ?? [],
+    loading: query.isLoading,
+    startForecast: startForecast.mutateAsync,
+    starting: startForecast.isPending,
+  };
+};
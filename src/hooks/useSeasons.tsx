@@ -0,0 +1,89 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { useAuth } from './useAuth';
+
+export type Season = Tables<'seasons'>;
+export type SeasonInput = Omit<TablesInsert<'seasons'>, 'farm_id' | 'user_id'>;
+
+// Seasons for one farm, or for all the user's farms without one, newest
+// planting first
+export const useSeasons = (farmId?: string) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['seasons', farmId ?? 'all'],
+    queryFn: async () => {
+      let request = supabase
+        .from('seasons')
+        .select('*')
+        .order('planting_date', { ascending: false });
+      if (farmId) request = request.eq('farm_id', farmId);
+
+      const { data, error } = await request;
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  // A season's forecast follows its crop and dates
+  const invalidate = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: ['seasons'] }),
+    queryClient.invalidateQueries({ queryKey: ['seasonal_forecasts', farmId] }),
+  ]);
+
+  const addSeason = useMutation({
+    mutationFn: async (input: SeasonInput) => {
+      const { data, error } = await supabase
+        .from('seasons')
+        .insert({ ...input, farm_id: farmId!, user_id: user!.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+
+  const updateSeason = useMutation({
+    mutationFn: async ({ id, ...input }: SeasonInput & { id: string }) => {
+      const { data, error } = await supabase
+        .from('seasons')
+        .update(input)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+
+  // Removes the season's forecast and harvest with it; its activities are
+  // kept outside any season
+  const deleteSeason = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('seasons').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => Promise.all([
+      invalidate(),
+      queryClient.invalidateQueries({ queryKey: ['harvests', farmId] }),
+      queryClient.invalidateQueries({ queryKey: ['farm-activities', farmId] }),
+      queryClient.invalidateQueries({ queryKey: ['prediction-accuracy'] }),
+    ]),
+  });
+
+  return {
+    seasons: query.data ?? [],
+    loading: query.isLoading,
+    addSeason: addSeason.mutateAsync,
+    updateSeason: updateSeason.mutateAsync,
+    saving: addSeason.isPending || updateSeason.isPending,
+    deleteSeason: deleteSeason.mutateAsync,
+  };
+};
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { useAuth } from './useAuth';
+
+export type SoilTest = Tables<'soil_tests'>;
+export type SoilTestInput = Omit<TablesInsert<'soil_tests'>, 'farm_id' | 'user_id'>;
+
+// Soil tests for one farm, oldest first so they chart as a trend
+export const useSoilTests = (farmId: string | undefined) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['soil-tests', farmId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('soil_tests')
+        .select('*')
+        .eq('farm_id', farmId!)
+        .order('tested_on', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!farmId,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['soil-tests', farmId] });
+
+  const addSoilTest = useMutation({
+    mutationFn: async (input: SoilTestInput) => {
+      const { data, error } = await supabase
+        .from('soil_tests')
+        .insert({ ...input, farm_id: farmId!, user_id: user!.id })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteSoilTest = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('soil_tests').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  const soilTests = query.data ?? [];
+
+  return {
+    soilTests,
+    latestSoilTest: soilTests[soilTests.length - 1] ?? null,
+    loading: query.isLoading,
+    addSoilTest: addSoilTest.mutateAsync,
+    adding: addSoilTest.isPending,
+    deleteSoilTest: deleteSoilTest.mutateAsync,
+  };
+};
+
+// Bulk insert for lab report imports; rows may belong to different farms
+export const useImportSoilTests = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const importSoilTests = useMutation({
+    mutationFn: async (rows: (SoilTestInput & { farm_id: string })[]) => {
+      const { data, error } = await supabase
+        .from('soil_tests')
+        .insert(rows.map(row => ({ ...row, user_id: user!.id })))
+        .select();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['soil-tests'] }),
+  });
+
+  return {
+    importSoilTests: importSoilTests.mutateAsync,
+    importing: importSoilTests.isPending,
+  };
+};
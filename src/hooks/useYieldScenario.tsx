@@ -0,0 +1,40 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { ScenarioInput, ScenarioResult } from '@/lib/scenario';
+
+const runScenario = async (farmId: string, soilTestId: string | null, scenario: ScenarioInput) => {
+  const { data, error } = await supabase.functions.invoke('predict-yield', {
+    body: { farm_id: farmId, soil_test_id: soilTestId, dry_run: true, ...scenario },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data.prediction as ScenarioResult;
+};
+
+// What-if runs against one prediction's soil test. The prediction is re-run
+// unchanged as the baseline so both sides use today's weather.
+export const useYieldScenario = (
+  farmId: string | undefined,
+  soilTestId: string | null,
+  baseline: ScenarioInput | null
+) => {
+  const baselineQuery = useQuery({
+    queryKey: ['scenario-baseline', farmId, soilTestId, baseline],
+    queryFn: () => runScenario(farmId!, soilTestId, baseline!),
+    enabled: !!farmId && !!baseline,
+  });
+
+  const scenario = useMutation({
+    mutationFn: (input: ScenarioInput) => runScenario(farmId!, soilTestId, input),
+  });
+
+  return {
+    baseline: baselineQuery.data ?? null,
+    loadingBaseline: baselineQuery.isLoading,
+    baselineError: baselineQuery.error,
+    scenario: scenario.data ?? null,
+    simulate: scenario.mutateAsync,
+    simulating: scenario.isPending,
+    reset: scenario.reset,
+  };
+};
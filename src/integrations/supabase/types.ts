@@ -14,13 +14,222 @@ export type Database = {
   }
   public: {
     Tables: {
+      crop_varieties: {
+        Row: {
+          created_at: string
+          crop_id: string
+          description: string | null
+          gdd_to_maturity: number
+          id: string
+          maturity_days: number
+          name: string
+          updated_at: string
+          yield_potential: number
+        }
+        Insert: {
+          created_at?: string
+          crop_id: string
+          description?: string | null
+          gdd_to_maturity: number
+          id: string
+          maturity_days: number
+          name: string
+          updated_at?: string
+          yield_potential: number
+        }
+        Update: {
+          created_at?: string
+          crop_id?: string
+          description?: string | null
+          gdd_to_maturity?: number
+          id?: string
+          maturity_days?: number
+          name?: string
+          updated_at?: string
+          yield_potential?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crop_varieties_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crops: {
+        Row: {
+          base_input_cost_per_ha: number
+          base_temperature: number
+          base_yield: number
+          created_at: string
+          depletion_fraction: number
+          display_name: string
+          gdd_to_maturity: number
+          id: string
+          k2o_uptake: number
+          kc_end: number
+          kc_initial: number
+          kc_mid: number
+          max_temperature: number
+          n_uptake: number
+          optimal_moisture_max: number
+          optimal_moisture_min: number
+          optimal_organic_max: number
+          optimal_organic_min: number
+          optimal_ph_max: number
+          optimal_ph_min: number
+          p2o5_uptake: number
+          reference_price_per_tonne: number
+          response_curves: Json | null
+          root_depth_m: number
+          stage_days: number[]
+          standard_moisture: number | null
+          updated_at: string
+          yield_unit: string
+        }
+        Insert: {
+          base_input_cost_per_ha?: number
+          base_temperature?: number
+          base_yield: number
+          created_at?: string
+          depletion_fraction?: number
+          display_name: string
+          gdd_to_maturity?: number
+          id: string
+          k2o_uptake?: number
+          kc_end?: number
+          kc_initial?: number
+          kc_mid?: number
+          max_temperature?: number
+          n_uptake?: number
+          optimal_moisture_max: number
+          optimal_moisture_min: number
+          optimal_organic_max: number
+          optimal_organic_min: number
+          optimal_ph_max: number
+          optimal_ph_min: number
+          p2o5_uptake?: number
+          reference_price_per_tonne?: number
+          response_curves: Json | null
+          root_depth_m?: number
+          stage_days?: number[]
+          standard_moisture?: number | null
+          updated_at?: string
+          yield_unit?: string
+        }
+        Update: {
+          base_input_cost_per_ha?: number
+          base_temperature?: number
+          base_yield?: number
+          created_at?: string
+          depletion_fraction?: number
+          display_name?: string
+          gdd_to_maturity?: number
+          id?: string
+          k2o_uptake?: number
+          kc_end?: number
+          kc_initial?: number
+          kc_mid?: number
+          max_temperature?: number
+          n_uptake?: number
+          optimal_moisture_max?: number
+          optimal_moisture_min?: number
+          optimal_organic_max?: number
+          optimal_organic_min?: number
+          optimal_ph_max?: number
+          optimal_ph_min?: number
+          p2o5_uptake?: number
+          reference_price_per_tonne?: number
+          response_curves?: Json | null
+          root_depth_m?: number
+          stage_days?: number[]
+          standard_moisture?: number | null
+          updated_at?: string
+          yield_unit?: string
+        }
+        Relationships: []
+      }
+      farm_activities: {
+        Row: {
+          activity_type: string
+          analysis: number[] | null
+          cost: number | null
+          created_at: string
+          farm_id: string
+          id: string
+          notes: string | null
+          performed_on: string
+          product: string | null
+          rate: number | null
+          rate_unit: string | null
+          season_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          activity_type: string
+          analysis?: number[] | null
+          cost?: number | null
+          created_at?: string
+          farm_id: string
+          id?: string
+          notes?: string | null
+          performed_on: string
+          product?: string | null
+          rate?: number | null
+          rate_unit?: string | null
+          season_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          activity_type?: string
+          analysis?: number[] | null
+          cost?: number | null
+          created_at?: string
+          farm_id?: string
+          id?: string
+          notes?: string | null
+          performed_on?: string
+          product?: string | null
+          rate?: number | null
+          rate_unit?: string | null
+          season_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "farm_activities_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "farm_activities_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       farms: {
         Row: {
+          admin_region: string | null
+          archived_at: string | null
           area_hectares: number
+          boundary: Json | null
+          boundary_area_hectares: number | null
           created_at: string
           crop_type: string
           id: string
+          latitude: number | null
           location: string
+          longitude: number | null
           name: string
           organic_matter: number | null
           soil_moisture: number | null
@@ -29,11 +238,17 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          admin_region?: string | null
+          archived_at: string | null
           area_hectares: number
+          boundary: Json | null
+          boundary_area_hectares: number | null
           created_at?: string
           crop_type: string
           id?: string
+          latitude?: number | null
           location: string
+          longitude?: number | null
           name: string
           organic_matter?: number | null
           soil_moisture?: number | null
@@ -42,11 +257,17 @@ export type Database = {
           user_id: string
         }
         Update: {
+          admin_region?: string | null
+          archived_at?: string | null
           area_hectares?: number
+          boundary?: Json | null
+          boundary_area_hectares?: number | null
           created_at?: string
           crop_type?: string
           id?: string
+          latitude?: number | null
           location?: string
+          longitude?: number | null
           name?: string
           organic_matter?: number | null
           soil_moisture?: number | null
@@ -54,40 +275,432 @@ export type Database = {
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "farms_crop_type_fkey"
+            columns: ["crop_type"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      harvests: {
+        Row: {
+          area_hectares: number
+          created_at: string
+          farm_id: string
+          harvested_on: string
+          id: string
+          moisture_percent: number | null
+          notes: string | null
+          quality_grade: string | null
+          quantity_tonnes: number
+          season_id: string
+          updated_at: string
+          user_id: string
+          yield_per_hectare: number
+        }
+        Insert: {
+          area_hectares: number
+          created_at?: string
+          farm_id: string
+          harvested_on: string
+          id?: string
+          moisture_percent?: number | null
+          notes?: string | null
+          quality_grade?: string | null
+          quantity_tonnes: number
+          season_id: string
+          updated_at?: string
+          user_id: string
+          yield_per_hectare?: number
+        }
+        Update: {
+          area_hectares?: number
+          created_at?: string
+          farm_id?: string
+          harvested_on?: string
+          id?: string
+          moisture_percent?: number | null
+          notes?: string | null
+          quality_grade?: string | null
+          quantity_tonnes?: number
+          season_id?: string
+          updated_at?: string
+          user_id?: string
+          yield_per_hectare?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "harvests_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "harvests_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      market_prices: {
+        Row: {
+          created_at: string
+          crop_id: string
+          currency: string
+          id: string
+          market: string
+          price: number
+          price_date: string
+          unit: string
+          unit_kg: number
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          crop_id: string
+          currency?: string
+          id?: string
+          market: string
+          price: number
+          price_date: string
+          unit: string
+          unit_kg: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          crop_id?: string
+          currency?: string
+          id?: string
+          market?: string
+          price?: number
+          price_date?: string
+          unit?: string
+          unit_kg?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "market_prices_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      model_calibrations: {
+        Row: {
+          activated_at: string | null
+          after_metrics: Json
+          base_yield: number
+          before_metrics: Json
+          catalogue_base_yield: number
+          created_at: string
+          crop_id: string
+          fitted_at: string
+          id: string
+          model_id: string
+          previous_id: string | null
+          sample_size: number
+          status: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          activated_at?: string | null
+          after_metrics: Json
+          base_yield: number
+          before_metrics: Json
+          catalogue_base_yield: number
+          created_at?: string
+          crop_id: string
+          fitted_at?: string
+          id?: string
+          model_id: string
+          previous_id?: string | null
+          sample_size: number
+          status: string
+          updated_at?: string
+          version: number
+        }
+        Update: {
+          activated_at?: string | null
+          after_metrics?: Json
+          base_yield?: number
+          before_metrics?: Json
+          catalogue_base_yield?: number
+          created_at?: string
+          crop_id?: string
+          fitted_at?: string
+          id?: string
+          model_id?: string
+          previous_id?: string | null
+          sample_size?: number
+          status?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "model_calibrations_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "model_calibrations_previous_id_fkey"
+            columns: ["previous_id"]
+            isOneToOne: false
+            referencedRelation: "model_calibrations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pest_alerts: {
+        Row: {
+          cleared_on: string | null
+          created_at: string
+          dismissed_at: string | null
+          evaluated_on: string
+          farm_id: string
+          id: string
+          message: string
+          notified_at: string | null
+          risk_level: string
+          rule_id: string
+          season_id: string | null
+          streak_days: number
+          streak_start: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cleared_on?: string | null
+          created_at?: string
+          dismissed_at?: string | null
+          evaluated_on: string
+          farm_id: string
+          id?: string
+          message: string
+          notified_at?: string | null
+          risk_level: string
+          rule_id: string
+          season_id?: string | null
+          streak_days: number
+          streak_start: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cleared_on?: string | null
+          created_at?: string
+          dismissed_at?: string | null
+          evaluated_on?: string
+          farm_id?: string
+          id?: string
+          message?: string
+          notified_at?: string | null
+          risk_level?: string
+          rule_id?: string
+          season_id?: string | null
+          streak_days?: number
+          streak_start?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pest_alerts_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pest_alerts_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "pest_risk_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pest_alerts_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pest_risk_rules: {
+        Row: {
+          advice: string
+          created_at: string
+          crop_id: string
+          id: string
+          kind: string
+          max_humidity: number | null
+          max_rainfall_mm: number | null
+          max_temperature: number | null
+          min_humidity: number | null
+          min_rainfall_mm: number | null
+          min_temperature: number | null
+          name: string
+          stages: string[] | null
+          streak_days: number
+          updated_at: string
+          weather_trigger: string
+          window_days: number
+        }
+        Insert: {
+          advice: string
+          created_at?: string
+          crop_id: string
+          id: string
+          kind: string
+          max_humidity?: number | null
+          max_rainfall_mm?: number | null
+          max_temperature?: number | null
+          min_humidity?: number | null
+          min_rainfall_mm?: number | null
+          min_temperature?: number | null
+          name: string
+          stages?: string[] | null
+          streak_days: number
+          updated_at?: string
+          weather_trigger: string
+          window_days: number
+        }
+        Update: {
+          advice?: string
+          created_at?: string
+          crop_id?: string
+          id?: string
+          kind?: string
+          max_humidity?: number | null
+          max_rainfall_mm?: number | null
+          max_temperature?: number | null
+          min_humidity?: number | null
+          min_rainfall_mm?: number | null
+          min_temperature?: number | null
+          name?: string
+          stages?: string[] | null
+          streak_days?: number
+          updated_at?: string
+          weather_trigger?: string
+          window_days?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pest_risk_rules_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       predictions: {
         Row: {
           confidence_score: number | null
           created_at: string
+          crop_id: string | null
+          factor_contributions: Json | null
           farm_id: string
+          fertilizer_recommendation: Json | null
+          growth_stage: Json | null
           id: string
+          limiting_factor: string | null
+          missing_inputs: string[] | null
           model_version: string | null
+          organic_matter: number | null
+          relative_error: number | null
+          revenue_projection: Json | null
+          season_id: string | null
+          soil_moisture: number | null
+          soil_ph: number | null
+          soil_test_id: string | null
           user_id: string
+          variety_id: string | null
           weather_summary: Json | null
+          yield_p10: number | null
+          yield_p50: number | null
+          yield_p90: number | null
           yield_per_hectare: number
         }
         Insert: {
           confidence_score?: number | null
           created_at?: string
+          crop_id?: string | null
+          factor_contributions?: Json | null
           farm_id: string
+          fertilizer_recommendation?: Json | null
+          growth_stage?: Json | null
           id?: string
+          limiting_factor?: string | null
+          missing_inputs?: string[] | null
           model_version?: string | null
+          organic_matter?: number | null
+          relative_error?: number | null
+          revenue_projection?: Json | null
+          season_id?: string | null
+          soil_moisture?: number | null
+          soil_ph?: number | null
+          soil_test_id?: string | null
           user_id: string
+          variety_id?: string | null
           weather_summary?: Json | null
+          yield_p10?: number | null
+          yield_p50?: number | null
+          yield_p90?: number | null
           yield_per_hectare: number
         }
         Update: {
           confidence_score?: number | null
           created_at?: string
+          crop_id?: string | null
+          factor_contributions?: Json | null
           farm_id?: string
+          fertilizer_recommendation?: Json | null
+          growth_stage?: Json | null
           id?: string
+          limiting_factor?: string | null
+          missing_inputs?: string[] | null
           model_version?: string | null
+          organic_matter?: number | null
+          relative_error?: number | null
+          revenue_projection?: Json | null
+          season_id?: string | null
+          soil_moisture?: number | null
+          soil_ph?: number | null
+          soil_test_id?: string | null
           user_id?: string
+          variety_id?: string | null
           weather_summary?: Json | null
+          yield_p10?: number | null
+          yield_p50?: number | null
+          yield_p90?: number | null
           yield_per_hectare?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "predictions_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "predictions_farm_id_fkey"
             columns: ["farm_id"]
@@ -95,6 +708,27 @@ export type Database = {
             referencedRelation: "farms"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "predictions_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "predictions_soil_test_id_fkey"
+            columns: ["soil_test_id"]
+            isOneToOne: false
+            referencedRelation: "soil_tests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "predictions_variety_id_fkey"
+            columns: ["variety_id"]
+            isOneToOne: false
+            referencedRelation: "crop_varieties"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -142,12 +776,387 @@ export type Database = {
         }
         Relationships: []
       }
+      seasonal_forecast_points: {
+        Row: {
+          climatology_days: number
+          computed_at: string
+          forecast_days: number
+          forecast_id: string
+          id: string
+          month: string
+          observed_days: number
+          yield_p10: number
+          yield_p90: number
+          yield_per_hectare: number
+        }
+        Insert: {
+          climatology_days?: number
+          computed_at?: string
+          forecast_days?: number
+          forecast_id: string
+          id?: string
+          month: string
+          observed_days?: number
+          yield_p10: number
+          yield_p90: number
+          yield_per_hectare: number
+        }
+        Update: {
+          climatology_days?: number
+          computed_at?: string
+          forecast_days?: number
+          forecast_id?: string
+          id?: string
+          month?: string
+          observed_days?: number
+          yield_p10?: number
+          yield_p90?: number
+          yield_per_hectare?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seasonal_forecast_points_forecast_id_fkey"
+            columns: ["forecast_id"]
+            isOneToOne: false
+            referencedRelation: "seasonal_forecasts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seasonal_forecasts: {
+        Row: {
+          created_at: string
+          crop_id: string
+          farm_id: string
+          harvest_date: string
+          id: string
+          last_computed_at: string | null
+          model_version: string | null
+          planting_date: string
+          season_id: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          crop_id: string
+          farm_id: string
+          harvest_date: string
+          id?: string
+          last_computed_at?: string | null
+          model_version?: string | null
+          planting_date: string
+          season_id: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          crop_id?: string
+          farm_id?: string
+          harvest_date?: string
+          id?: string
+          last_computed_at?: string | null
+          model_version?: string | null
+          planting_date?: string
+          season_id?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seasonal_forecasts_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seasonal_forecasts_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seasonal_forecasts_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: true
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seasons: {
+        Row: {
+          created_at: string
+          crop_id: string
+          expected_harvest_date: string
+          farm_id: string
+          id: string
+          notes: string | null
+          planting_date: string
+          rains: string | null
+          updated_at: string
+          user_id: string
+          variety: string | null
+          variety_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          crop_id: string
+          expected_harvest_date: string
+          farm_id: string
+          id?: string
+          notes?: string | null
+          planting_date: string
+          rains?: string | null
+          updated_at?: string
+          user_id: string
+          variety?: string | null
+          variety_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          crop_id?: string
+          expected_harvest_date?: string
+          farm_id?: string
+          id?: string
+          notes?: string | null
+          planting_date?: string
+          rains?: string | null
+          updated_at?: string
+          user_id?: string
+          variety?: string | null
+          variety_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seasons_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seasons_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seasons_variety_id_fkey"
+            columns: ["variety_id"]
+            isOneToOne: false
+            referencedRelation: "crop_varieties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      soil_tests: {
+        Row: {
+          cec: number | null
+          clay: number | null
+          created_at: string
+          ec: number | null
+          farm_id: string
+          id: string
+          lab: string | null
+          method: string | null
+          moisture: number | null
+          nitrogen: number | null
+          organic_matter: number | null
+          ph: number | null
+          phosphorus: number | null
+          potassium: number | null
+          sampling_depth_cm: number | null
+          sand: number | null
+          season_id: string | null
+          silt: number | null
+          tested_on: string
+          texture: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          cec?: number | null
+          clay?: number | null
+          created_at?: string
+          ec?: number | null
+          farm_id: string
+          id?: string
+          lab?: string | null
+          method?: string | null
+          moisture?: number | null
+          nitrogen?: number | null
+          organic_matter?: number | null
+          ph?: number | null
+          phosphorus?: number | null
+          potassium?: number | null
+          sampling_depth_cm?: number | null
+          sand?: number | null
+          season_id?: string | null
+          silt?: number | null
+          tested_on?: string
+          texture?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          cec?: number | null
+          clay?: number | null
+          created_at?: string
+          ec?: number | null
+          farm_id?: string
+          id?: string
+          lab?: string | null
+          method?: string | null
+          moisture?: number | null
+          nitrogen?: number | null
+          organic_matter?: number | null
+          ph?: number | null
+          phosphorus?: number | null
+          potassium?: number | null
+          sampling_depth_cm?: number | null
+          sand?: number | null
+          season_id?: string | null
+          silt?: number | null
+          tested_on?: string
+          texture?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "soil_tests_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "soil_tests_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      weather_observations: {
+        Row: {
+          created_at: string
+          fetched_at: string
+          humidity_pct: number
+          id: string
+          kind: string
+          latitude: number | null
+          location_key: string
+          longitude: number | null
+          observed_on: string
+          provider: string
+          rainfall_mm: number
+          temperature_c: number
+        }
+        Insert: {
+          created_at?: string
+          fetched_at?: string
+          humidity_pct: number
+          id?: string
+          kind: string
+          latitude?: number | null
+          location_key: string
+          longitude?: number | null
+          observed_on: string
+          provider: string
+          rainfall_mm: number
+          temperature_c: number
+        }
+        Update: {
+          created_at?: string
+          fetched_at?: string
+          humidity_pct?: number
+          id?: string
+          kind?: string
+          latitude?: number | null
+          location_key?: string
+          longitude?: number | null
+          observed_on?: string
+          provider?: string
+          rainfall_mm?: number
+          temperature_c?: number
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      model_accuracy: {
+        Row: {
+          bias: number | null
+          crop_id: string | null
+          harvests: number | null
+          interval_coverage: number | null
+          mape: number | null
+          mean_absolute_error: number | null
+          model_version: string | null
+          predictions: number | null
+          rmse: number | null
+        }
+        Relationships: []
+      }
+      prediction_accuracy: {
+        Row: {
+          absolute_percentage_error: number | null
+          actual_yield: number | null
+          crop_id: string | null
+          days_before_harvest: number | null
+          error: number | null
+          farm_id: string | null
+          harvested_on: string | null
+          model_version: string | null
+          predicted_at: string | null
+          predicted_yield: number | null
+          prediction_id: string | null
+          season_id: string | null
+          user_id: string | null
+          within_interval: boolean | null
+          yield_p10: number | null
+          yield_p90: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seasons_crop_id_fkey"
+            columns: ["crop_id"]
+            isOneToOne: false
+            referencedRelation: "crops"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "predictions_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "predictions_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      season_on: {
+        Args: { crop?: string; farm: string; on_date: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,92 @@
+// Harvest quality grades, after the KEBS grain grades
+export type QualityGrade = "grade_1" | "grade_2" | "grade_3" | "below_grade";
+
+export const QUALITY_GRADE_LABELS: Record<QualityGrade, string> = {
+  grade_1: "Grade 1",
+  grade_2: "Grade 2",
+  grade_3: "Grade 3",
+  below_grade: "Below grade",
+};
+
+export const qualityGradeLabel = (grade: string | null) =>
+  grade ? QUALITY_GRADE_LABELS[grade as QualityGrade] ?? grade : "—";
+
+// A prediction scored against its season's harvest, as read from the
+// prediction_accuracy view. Error is predicted minus actual (t/ha).
+export interface ScoredPrediction {
+  season_id: string | null;
+  crop_id: string | null;
+  model_version: string | null;
+  error: number | null;
+  absolute_percentage_error: number | null;
+  within_interval: boolean | null;
+}
+
+export interface AccuracySummary {
+  crop_id: string;
+  model_version: string;
+  predictions: number;
+  harvests: number;
+  // Mean error; positive when the model over-predicts
+  bias: number;
+  mean_absolute_error: number;
+  // Mean absolute percentage error, leaving out failed harvests
+  mape: number | null;
+  // Share of harvests inside the predicted P10–P90 range
+  interval_coverage: number | null;
+}
+
+// A season's harvested yield (t/ha): the moisture-corrected tonnes of all
+// its pickings over the farm's area, as in the prediction_accuracy view;
+// null until the first is recorded
+export const seasonYield = (
+  harvests: { season_id: string; yield_per_hectare: number; area_hectares: number }[],
+  seasonId: string | null,
+  farmAreaHectares: number
+) => {
+  const pickings = harvests.filter(harvest => harvest.season_id === seasonId);
+  if (pickings.length === 0 || !(farmAreaHectares > 0)) return null;
+  const tonnes = pickings.reduce(
+    (sum, harvest) => sum + Number(harvest.yield_per_hectare) * Number(harvest.area_hectares),
+    0
+  );
+  return tonnes / farmAreaHectares;
+};
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+// Accuracy per crop and model version, most predictions first
+export const summarizeAccuracy = (rows: ScoredPrediction[]): AccuracySummary[] => {
+  const groups = new Map<string, ScoredPrediction[]>();
+  rows.forEach(row => {
+    if (row.error == null || !row.crop_id || !row.model_version) return;
+    const key = `${row.crop_id}|${row.model_version}`;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  });
+
+  return [...groups.values()]
+    .map(group => {
+      const errors = group.map(row => Number(row.error));
+      const percentages = group
+        .filter(row => row.absolute_percentage_error != null)
+        .map(row => Number(row.absolute_percentage_error) * 100);
+      const coverage = group
+        .filter(row => row.within_interval != null)
+        .map(row => (row.within_interval ? 1 : 0));
+
+      return {
+        crop_id: group[0].crop_id!,
+        model_version: group[0].model_version!,
+        predictions: group.length,
+        harvests: new Set(group.map(row => row.season_id)).size,
+        bias: mean(errors)!,
+        mean_absolute_error: mean(errors.map(Math.abs))!,
+        mape: mean(percentages),
+        interval_coverage: mean(coverage),
+      };
+    })
+    .sort((a, b) => b.predictions - a.predictions);
+};
+
+export const formatError = (value: number, digits = 2) => `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
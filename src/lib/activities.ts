@@ -0,0 +1,68 @@
+// Farm activity log entries. Rates are per hectare and costs are KES for
+// the whole farm.
+export type ActivityType = "planting" | "fertilizer" | "spraying" | "irrigation" | "weeding" | "harvest";
+
+export const ACTIVITY_TYPE_LABELS: Record<ActivityType, string> = {
+  planting: "Planting",
+  fertilizer: "Fertilizer application",
+  spraying: "Pesticide spray",
+  irrigation: "Irrigation",
+  weeding: "Weeding",
+  harvest: "Harvest",
+};
+
+export const activityTypeLabel = (type: string) =>
+  ACTIVITY_TYPE_LABELS[type as ActivityType] ?? type;
+
+export type RateUnit = "kg_per_ha" | "l_per_ha" | "mm";
+
+export const RATE_UNIT_LABELS: Record<RateUnit, string> = {
+  kg_per_ha: "kg/ha",
+  l_per_ha: "L/ha",
+  mm: "mm",
+};
+
+// Units each activity's rate can be given in; the first is the default.
+// Weeding and harvesting have no rate.
+export const ACTIVITY_RATE_UNITS: Record<ActivityType, RateUnit[]> = {
+  planting: ["kg_per_ha"],
+  fertilizer: ["kg_per_ha"],
+  spraying: ["l_per_ha", "kg_per_ha"],
+  irrigation: ["mm"],
+  weeding: [],
+  harvest: [],
+};
+
+interface ActivityDetails {
+  activity_type: string;
+  product: string | null;
+  rate: number | null;
+  rate_unit: string | null;
+  analysis: number[] | null;
+}
+
+// e.g. "DAP (18:46:0) · 125 kg/ha"
+export const describeActivity = (activity: ActivityDetails) => {
+  const product = activity.product && activity.analysis
+    ? `${activity.product} (${activity.analysis.join(":")})`
+    : activity.product;
+  const rate = activity.rate != null && activity.rate_unit
+    ? `${activity.rate} ${RATE_UNIT_LABELS[activity.rate_unit as RateUnit] ?? activity.rate_unit}`
+    : null;
+  return [product, rate].filter(Boolean).join(" · ");
+};
+
+// N, P2O5 and K2O (kg/ha) a fertilizer application supplied
+export const appliedNutrients = (activities: ActivityDetails[]) =>
+  activities.reduce((total, activity) => {
+    if (activity.activity_type !== "fertilizer" || activity.rate == null || !activity.analysis) return total;
+    const [n, p2o5, k2o] = activity.analysis;
+    return {
+      n: total.n + (activity.rate * n) / 100,
+      p2o5: total.p2o5 + (activity.rate * p2o5) / 100,
+      k2o: total.k2o + (activity.rate * k2o) / 100,
+    };
+  }, { n: 0, p2o5: 0, k2o: 0 });
+
+export const totalCost = (activities: { cost: number | null }[]) =>
+  activities.reduce((sum, activity) => sum + (activity.cost ?? 0), 0);
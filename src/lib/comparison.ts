@@ -0,0 +1,37 @@
+import type { CropPrice } from "@/lib/revenue";
+import type { YieldInterval } from "@/lib/yield";
+
+// Crop rankings as returned by the compare-crops function. Revenue, costs
+// and margin are for the whole farm in KES.
+export type RiskLevel = "low" | "medium" | "high";
+
+export const RISK_LABELS: Record<RiskLevel, string> = {
+  low: "Low",
+  medium: "Medium",
+  high: "High",
+};
+
+export interface CropOption {
+  rank: number;
+  crop_id: string;
+  crop: string;
+  model_version: string;
+  yield_per_hectare: number;
+  interval: YieldInterval;
+  total_yield: number;
+  price: CropPrice;
+  revenue: { p10: number; p50: number; p90: number };
+  input_costs: number;
+  margin: { p10: number; p50: number; p90: number };
+  risk: RiskLevel;
+  limiting_factor: string;
+}
+
+export interface CropComparison {
+  farm_id: string;
+  current_crop: string;
+  area_hectares: number;
+  soil_test_id: string;
+  tested_on: string;
+  options: CropOption[];
+}
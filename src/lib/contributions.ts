@@ -0,0 +1,25 @@
+// Breakdown of a prediction stored with it by the predict-yield function:
+// each factor's contribution (t/ha) from the crop's base yield to the
+// predicted yield
+export type ContributionFactor = "crop" | "ph" | "moisture" | "organic_matter" | "nutrients" | "weather";
+
+export const CONTRIBUTION_FACTOR_LABELS: Record<ContributionFactor, string> = {
+  crop: "Crop Potential",
+  ph: "Soil pH",
+  moisture: "Soil Moisture",
+  organic_matter: "Organic Matter",
+  nutrients: "Lab Nutrients",
+  weather: "Weather",
+};
+
+export interface FactorContribution {
+  factor: ContributionFactor;
+  contribution: number;
+  advice: string | null;
+}
+
+export interface YieldExplanation {
+  baseline: number;
+  contributions: FactorContribution[];
+  yield_per_hectare: number;
+}
@@ -0,0 +1,38 @@
+// Fertilizer advice stored with a prediction, as produced by the
+// predict-yield function. Nutrient rates are in kg/ha and lime in t/ha.
+export interface FertilizerProductRate {
+  product: string;
+  name: string;
+  // N-P2O5-K2O, % by weight
+  analysis: [number, number, number];
+  kg_per_ha: number;
+  kg_total: number;
+  // 50 kg bags for the whole farm
+  bags_total: number;
+  timing: "planting" | "top-dress";
+}
+
+export interface FertilizerRecommendation {
+  target_yield: number;
+  lime_t_per_ha: number;
+  lime_t_total: number;
+  nutrients: { n: number; p2o5: number; k2o: number };
+  // Credited from the season's activity log; missing on older predictions
+  applied?: { n: number; p2o5: number; k2o: number };
+  products: FertilizerProductRate[];
+  notes: string[];
+}
+
+// Common fertilizers by N-P2O5-K2O grade, for logging applications
+export const FERTILIZER_GRADES: { name: string; analysis: [number, number, number] }[] = [
+  { name: "DAP", analysis: [18, 46, 0] },
+  { name: "TSP", analysis: [0, 46, 0] },
+  { name: "CAN", analysis: [26, 0, 0] },
+  { name: "Urea", analysis: [46, 0, 0] },
+  { name: "Sulphate of Ammonia", analysis: [21, 0, 0] },
+  { name: "Muriate of Potash", analysis: [0, 0, 60] },
+  { name: "NPK 17:17:17", analysis: [17, 17, 17] },
+  { name: "NPK 23:23:0", analysis: [23, 23, 0] },
+];
+
+export const productGrade = ({ analysis }: FertilizerProductRate) => analysis.join(":");
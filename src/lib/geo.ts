@@ -0,0 +1,68 @@
+// [longitude, latitude] as in GeoJSON
+export type Position = [number, number];
+
+export type BoundaryGeometry =
+  | { type: "Polygon"; coordinates: Position[][] }
+  | { type: "MultiPolygon"; coordinates: Position[][][] };
+
+// Typed and boundary areas further apart than this are flagged
+export const AREA_MISMATCH_THRESHOLD = 0.2;
+
+const EARTH_RADIUS_M = 6378137;
+const SQUARE_METRES_PER_HECTARE = 10000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Spherical excess of a ring, in square metres. A copy of the one in
+// supabase/functions/_shared/geo/area.ts, which save-farm stores; keep the
+// two in sync so previews match the saved area.
+const ringArea = (ring: Position[]) => {
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const lower = ring[i];
+    const middle = ring[i + 1];
+    const upper = ring[(i + 2) % (ring.length - 1)];
+    total += (toRadians(upper[0]) - toRadians(lower[0])) * Math.sin(toRadians(middle[1]));
+  }
+  return Math.abs((total * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+};
+
+const polygonArea = (rings: Position[][]) =>
+  rings.reduce((area, ring, i) => (i === 0 ? area + ringArea(ring) : area - ringArea(ring)), 0);
+
+export const polygonsOf = (geometry: BoundaryGeometry) =>
+  geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+
+export const boundaryAreaHectares = (geometry: BoundaryGeometry) => {
+  const squareMetres = polygonsOf(geometry).reduce((sum, rings) => sum + polygonArea(rings), 0);
+  return Math.round((squareMetres / SQUARE_METRES_PER_HECTARE) * 100) / 100;
+};
+
+export const areaMismatch = (typedHectares: number, boundaryHectares: number) => {
+  if (!typedHectares || !boundaryHectares) return null;
+  const difference = Math.abs(typedHectares - boundaryHectares) / boundaryHectares;
+  return difference > AREA_MISMATCH_THRESHOLD ? difference : null;
+};
+
+// Closes an open list of corners into a polygon ring
+export const polygonFromCorners = (corners: Position[]): BoundaryGeometry => ({
+  type: "Polygon",
+  coordinates: [[...corners, corners[0]]],
+});
+
+// Accepts a GeoJSON geometry, Feature or FeatureCollection and returns the
+// first polygon geometry in it
+export const parseBoundary = (text: string): BoundaryGeometry => {
+  const json = JSON.parse(text);
+  const geometries = json.type === "FeatureCollection"
+    ? json.features.map((feature: { geometry: unknown }) => feature.geometry)
+    : [json.type === "Feature" ? json.geometry : json];
+
+  const polygon = geometries.find(
+    (geometry: { type?: string }) => geometry?.type === "Polygon" || geometry?.type === "MultiPolygon"
+  );
+  if (!polygon) {
+    throw new Error("The file does not contain a Polygon or MultiPolygon");
+  }
+  return polygon as BoundaryGeometry;
+};
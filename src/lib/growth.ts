@@ -0,0 +1,31 @@
+import { CROP_STAGE_LABELS, type CropStage } from "./irrigation";
+
+// Growth stages as returned by the growth-stage function and saved with
+// predictions. Degree days are °C·days above the crop's base temperature.
+export type GrowthStageName = CropStage | "not_planted" | "mature";
+
+export const GROWTH_STAGE_LABELS: Record<GrowthStageName, string> = {
+  not_planted: "Not planted",
+  ...CROP_STAGE_LABELS,
+  mature: "Mature",
+};
+
+export interface GrowthStage {
+  stage: GrowthStageName;
+  days_after_planting: number;
+  gdd: number;
+  gdd_to_maturity: number;
+  progress: number;
+  next_stage: Exclude<GrowthStageName, "not_planted"> | null;
+  next_stage_date: string | null;
+  maturity_date: string | null;
+}
+
+export interface SeasonGrowthStage extends GrowthStage {
+  season_id: string;
+  crop: string;
+  variety_id: string | null;
+}
+
+export const growthStageLabel = (stage: string) =>
+  GROWTH_STAGE_LABELS[stage as GrowthStageName] ?? stage;
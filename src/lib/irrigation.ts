@@ -0,0 +1,69 @@
+// Irrigation plans as returned by the plan-irrigation function. Depths are
+// in mm and volumes in m³.
+export type CropStage = "initial" | "development" | "mid" | "late";
+
+export const CROP_STAGE_LABELS: Record<CropStage, string> = {
+  initial: "Initial",
+  development: "Development",
+  mid: "Mid-season",
+  late: "Late season",
+};
+
+export type IrrigationMethod = "drip" | "sprinkler" | "furrow";
+
+export const IRRIGATION_METHOD_LABELS: Record<IrrigationMethod, string> = {
+  drip: "Drip",
+  sprinkler: "Sprinkler",
+  furrow: "Furrow",
+};
+
+export interface IrrigationDay {
+  date: string;
+  stage: CropStage | null;
+  kind: "observed" | "forecast" | "estimated";
+  et0_mm: number;
+  etc_mm: number;
+  rainfall_mm: number;
+  effective_rainfall_mm: number;
+  depletion_mm: number;
+  irrigation_mm: number;
+}
+
+export interface IrrigationWeek {
+  week_start: string;
+  week_end: string;
+  etc_mm: number;
+  effective_rainfall_mm: number;
+  net_irrigation_mm: number;
+  gross_irrigation_mm: number;
+  volume_m3: number;
+  irrigation_dates: string[];
+}
+
+export interface IrrigationPlan {
+  farm_id: string;
+  crop: string;
+  area_hectares: number;
+  soil_test_id: string;
+  soil_moisture: number;
+  days_after_planting: number;
+  start: string;
+  method: IrrigationMethod;
+  efficiency: number;
+  texture: string;
+  root_depth_m: number;
+  total_available_water_mm: number;
+  readily_available_water_mm: number;
+  initial_depletion_mm: number;
+  weeks: IrrigationWeek[];
+  days: IrrigationDay[];
+  total_volume_m3: number;
+  notes: string[];
+}
+
+export interface IrrigationRequest {
+  planting_date?: string;
+  stage?: CropStage;
+  method: IrrigationMethod;
+  weeks?: number;
+}
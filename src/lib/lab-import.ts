@@ -0,0 +1,322 @@
+import { SOIL_TEXTURES, type SoilMeasure } from "@/lib/soil";
+
+// Columns a lab report can be mapped onto
+export type ImportField =
+  | SoilMeasure
+  | "tested_on"
+  | "sampling_depth_cm"
+  | "lab"
+  | "method"
+  | "texture"
+  | "farm";
+
+export interface ColumnMapping {
+  field: ImportField | null;
+  // Key into IMPORT_UNITS for the field; null for fields without units
+  unit: string | null;
+}
+
+export type ImportValues = Partial<Record<Exclude<ImportField, "farm">, string | number>>;
+
+export interface ImportRow {
+  // 1-based line in the source, for messages
+  line: number;
+  farm_id: string | null;
+  values: ImportValues;
+  errors: string[];
+  warnings: string[];
+}
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  tested_on: "Date Sampled",
+  sampling_depth_cm: "Sampling Depth (cm)",
+  lab: "Lab",
+  method: "Method",
+  farm: "Farm",
+  ph: "pH",
+  moisture: "Moisture",
+  organic_matter: "Organic Matter",
+  nitrogen: "Nitrogen",
+  phosphorus: "Phosphorus",
+  potassium: "Potassium",
+  ec: "EC",
+  cec: "CEC",
+  sand: "Sand",
+  silt: "Silt",
+  clay: "Clay",
+  texture: "Texture",
+};
+
+// Units labs report each measurement in, with the factor that converts to
+// the unit soil_tests stores. The first entry is the stored unit.
+export const IMPORT_UNITS: Partial<Record<SoilMeasure, Record<string, { label: string; factor: number }>>> = {
+  moisture: { "%": { label: "%", factor: 1 }, "g/kg": { label: "g/kg", factor: 0.1 } },
+  organic_matter: {
+    "%": { label: "% organic matter", factor: 1 },
+    "oc%": { label: "% organic carbon", factor: 1.724 },
+    "g/kg": { label: "g/kg organic matter", factor: 0.1 },
+  },
+  nitrogen: {
+    "%": { label: "%", factor: 1 },
+    "g/kg": { label: "g/kg", factor: 0.1 },
+    "mg/kg": { label: "mg/kg (ppm)", factor: 0.0001 },
+  },
+  phosphorus: { "mg/kg": { label: "mg/kg (ppm)", factor: 1 } },
+  potassium: {
+    "mg/kg": { label: "mg/kg (ppm)", factor: 1 },
+    "cmol/kg": { label: "cmol/kg (meq/100g)", factor: 391 },
+  },
+  ec: {
+    "dS/m": { label: "dS/m (mS/cm)", factor: 1 },
+    "uS/cm": { label: "µS/cm", factor: 0.001 },
+  },
+  cec: { "cmol/kg": { label: "cmol/kg (meq/100g)", factor: 1 } },
+  sand: { "%": { label: "%", factor: 1 }, "g/kg": { label: "g/kg", factor: 0.1 } },
+  silt: { "%": { label: "%", factor: 1 }, "g/kg": { label: "g/kg", factor: 0.1 } },
+  clay: { "%": { label: "%", factor: 1 }, "g/kg": { label: "g/kg", factor: 0.1 } },
+};
+
+// Plausible ranges after unit conversion; values outside are rejected
+const VALID_RANGES: Record<SoilMeasure, [number, number]> = {
+  ph: [2, 11],
+  moisture: [0, 100],
+  organic_matter: [0, 100],
+  nitrogen: [0, 2],
+  phosphorus: [0, 1000],
+  potassium: [0, 5000],
+  ec: [0, 50],
+  cec: [0, 200],
+  sand: [0, 100],
+  silt: [0, 100],
+  clay: [0, 100],
+};
+
+// Header patterns, tried in order; KALRO-style reports abbreviate heavily
+const HEADER_PATTERNS: [ImportField, RegExp][] = [
+  ["farm", /\b(farm|field|plot|site)\b/i],
+  ["tested_on", /\b(date|sampled|sampling date|received)\b/i],
+  ["sampling_depth_cm", /\bdepth\b/i],
+  ["lab", /\b(lab|laboratory)\b/i],
+  ["method", /\b(method|extract(ant|ion)?)\b/i],
+  ["ph", /\bph\b/i],
+  ["organic_matter", /\b(organic|o\.?m\.?|o\.?c\.?|carbon)\b/i],
+  ["nitrogen", /\b(nitrogen|total n|n)\b/i],
+  ["phosphorus", /\b(phosphorus|avail(able)? p|olsen|p)\b/i],
+  ["potassium", /\b(potassium|exch(angeable)? k|k)\b/i],
+  ["cec", /\bcec\b|cation exchange/i],
+  ["ec", /\b(ec|conductivity|salinity)\b/i],
+  ["moisture", /\b(moisture|water content)\b/i],
+  ["sand", /\bsand\b/i],
+  ["silt", /\bsilt\b/i],
+  ["clay", /\bclay\b/i],
+  ["texture", /\b(texture|textural class)\b/i],
+];
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const numericColumn = (rows: string[][], index: number) =>
+  rows.map(row => parseNumber(row[index])).filter((value): value is number => value != null);
+
+// Splits delimited text into rows. The delimiter is whichever of tab,
+// semicolon or comma appears most in the header line, so tables copied out
+// of PDFs (tab separated) and European CSV exports parse as well.
+export const parseDelimited = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = ["\t", ";", ","].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter(r => r.some(value => value !== ""));
+};
+
+// Accepts decimal commas and strips "<", ">" and trailing units
+export const parseNumber = (value: string | undefined) => {
+  if (!value) return null;
+  const match = value.replace(",", ".").match(/-?\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+};
+
+// Unit named in a header such as "K (cmol/kg)" or "EC uS/cm"
+const unitFromHeader = (field: SoilMeasure, header: string) => {
+  const text = header.toLowerCase().replace(/\s+/g, "");
+  if (field === "organic_matter" && /(^|[^a-z])(o\.?c|organiccarbon|carbon)/.test(text)) return "oc%";
+  if (/meq\/100g|cmol/.test(text)) return "cmol/kg";
+  if (/[µu]s\/cm/.test(text)) return "uS/cm";
+  if (/ds\/m|ms\/cm/.test(text)) return "dS/m";
+  if (/mg\/kg|ppm/.test(text)) return "mg/kg";
+  if (/g\/kg/.test(text)) return "g/kg";
+  if (/%|percent/.test(text)) return "%";
+  return null;
+};
+
+// Falls back on typical magnitudes when the header does not name a unit
+const unitFromValues = (field: SoilMeasure, values: number[]) => {
+  if (values.length === 0) return null;
+  const typical = median(values);
+  switch (field) {
+    case "nitrogen":
+      return typical > 50 ? "mg/kg" : typical > 2 ? "g/kg" : "%";
+    case "potassium":
+      return typical < 10 ? "cmol/kg" : "mg/kg";
+    case "ec":
+      return typical > 50 ? "uS/cm" : "dS/m";
+    case "moisture":
+    case "sand":
+    case "silt":
+    case "clay":
+      return typical > 100 ? "g/kg" : "%";
+    default:
+      return null;
+  }
+};
+
+const defaultUnit = (field: SoilMeasure) => {
+  const units = IMPORT_UNITS[field];
+  return units ? Object.keys(units)[0] : null;
+};
+
+export const isMeasure = (field: ImportField | null): field is SoilMeasure =>
+  field != null && field in VALID_RANGES;
+
+// Picks a unit for a mapped column from its header, then its values
+export const detectUnit = (field: ImportField | null, header: string, rows: string[][], index: number) => {
+  if (!isMeasure(field) || !IMPORT_UNITS[field]) return null;
+  const units = IMPORT_UNITS[field]!;
+  const fromHeader = unitFromHeader(field, header);
+  if (fromHeader && fromHeader in units) return fromHeader;
+  const fromValues = unitFromValues(field, numericColumn(rows, index));
+  return fromValues && fromValues in units ? fromValues : defaultUnit(field);
+};
+
+// Maps each header onto the first unclaimed field it matches
+export const guessMappings = (headers: string[], rows: string[][]): ColumnMapping[] => {
+  const claimed = new Set<ImportField>();
+  return headers.map((header, index) => {
+    const match = HEADER_PATTERNS.find(([field, pattern]) => !claimed.has(field) && pattern.test(header));
+    if (!match) return { field: null, unit: null };
+    claimed.add(match[0]);
+    return { field: match[0], unit: detectUnit(match[0], header, rows, index) };
+  });
+};
+
+// Day-first dates (as Kenyan labs write them) and ISO dates
+export const parseDate = (value: string) => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : dayFirst
+      ? [Number(dayFirst[3]) + (dayFirst[3].length === 2 ? 2000 : 0), Number(dayFirst[2]), Number(dayFirst[1])]
+      : [NaN, NaN, NaN];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+const normalizeTexture = (value: string) => {
+  const text = value.toLowerCase().replace(/[_-]/g, " ").replace(/\s+/g, " ").trim();
+  return SOIL_TEXTURES.find(texture => texture === text) ?? null;
+};
+
+// Converts mapped rows into soil test values, collecting problems per row
+export const convertRows = (
+  rows: string[][],
+  mappings: ColumnMapping[],
+  farms: { id: string; name: string }[],
+  defaultFarmId: string | null
+): ImportRow[] =>
+  rows.map((row, rowIndex) => {
+    const values: ImportValues = {};
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    let farmId = defaultFarmId;
+
+    mappings.forEach(({ field, unit }, index) => {
+      const raw = row[index]?.trim();
+      if (!field || !raw) return;
+      const label = IMPORT_FIELD_LABELS[field];
+
+      if (field === "farm") {
+        const farm = farms.find(f => f.name.toLowerCase() === raw.toLowerCase());
+        if (farm) farmId = farm.id;
+        else errors.push(`Unknown farm "${raw}"`);
+      } else if (field === "tested_on") {
+        const date = parseDate(raw);
+        if (date) values.tested_on = date;
+        else errors.push(`Unreadable date "${raw}"`);
+      } else if (field === "texture") {
+        const texture = normalizeTexture(raw);
+        if (texture) values.texture = texture;
+        else warnings.push(`Unrecognised texture "${raw}" skipped`);
+      } else if (field === "lab" || field === "method") {
+        values[field] = raw;
+      } else {
+        const number = parseNumber(raw);
+        if (number == null) {
+          errors.push(`${label} "${raw}" is not a number`);
+          return;
+        }
+        if (field === "sampling_depth_cm") {
+          // "0-20" is a depth range; record the bottom of the sample
+          const range = raw.match(/(\d+(?:\.\d+)?)\s*-\s*(\d+(?:\.\d+)?)/);
+          values.sampling_depth_cm = range ? parseFloat(range[2]) : number;
+          return;
+        }
+        if (/^[<>]/.test(raw)) warnings.push(`${label} "${raw}" is a detection limit`);
+        const factor = unit ? IMPORT_UNITS[field]?.[unit]?.factor ?? 1 : 1;
+        const converted = Math.round(number * factor * 1000) / 1000;
+        const [min, max] = VALID_RANGES[field];
+        if (converted < min || converted > max) {
+          errors.push(`${label} ${converted} is outside ${min}-${max}`);
+        } else {
+          values[field] = converted;
+        }
+      }
+    });
+
+    const { sand, silt, clay } = values;
+    if (sand != null && silt != null && clay != null) {
+      const total = Number(sand) + Number(silt) + Number(clay);
+      if (Math.abs(total - 100) > 10) warnings.push(`Sand, silt and clay add up to ${total}%`);
+    }
+    if (!farmId) errors.push("No farm chosen");
+    if (!Object.keys(values).some(key => isMeasure(key as ImportField))) errors.push("No soil measurements");
+
+    return { line: rowIndex + 2, farm_id: farmId, values, errors, warnings };
+  });
@@ -0,0 +1,18 @@
+// Pest and disease alerts as raised by the pest-risk functions
+export type PestRiskLevel = "low" | "medium" | "high";
+
+export const PEST_RISK_LABELS: Record<PestRiskLevel, string> = {
+  low: "Low risk",
+  medium: "Medium risk",
+  high: "High risk",
+};
+
+export const pestRiskLabel = (level: string) =>
+  PEST_RISK_LABELS[level as PestRiskLevel] ?? level;
+
+export type PestKind = "pest" | "disease";
+
+export const PEST_KIND_LABELS: Record<PestKind, string> = {
+  pest: "Pest",
+  disease: "Disease",
+};
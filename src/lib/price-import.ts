@@ -0,0 +1,167 @@
+import { parseDate, parseNumber } from "@/lib/lab-import";
+
+// Columns a market price list can be mapped onto
+export type PriceField = "crop" | "market" | "price_date" | "price" | "unit" | "currency";
+
+export interface PriceColumnMapping {
+  field: PriceField | null;
+}
+
+export interface PriceValues {
+  crop_id?: string;
+  market?: string;
+  price_date?: string;
+  price?: number;
+  unit?: string;
+  unit_kg?: number;
+}
+
+export interface PriceImportRow {
+  // 1-based line in the source, for messages
+  line: number;
+  values: PriceValues;
+  errors: string[];
+  warnings: string[];
+}
+
+export const PRICE_FIELD_LABELS: Record<PriceField, string> = {
+  crop: "Crop",
+  market: "Market",
+  price_date: "Date",
+  price: "Price",
+  unit: "Unit",
+  currency: "Currency",
+};
+
+// Units crops are sold in at Kenyan markets, with their weight
+export const PRICE_UNITS: Record<string, { label: string; kg: number }> = {
+  kg: { label: "per kg", kg: 1 },
+  "50kg bag": { label: "per 50 kg bag", kg: 50 },
+  "90kg bag": { label: "per 90 kg bag", kg: 90 },
+  crate: { label: "per crate (64 kg)", kg: 64 },
+  tonne: { label: "per tonne", kg: 1000 },
+};
+
+// Swahili and common market names for catalogue crops
+const CROP_ALIASES: Record<string, string> = {
+  mahindi: "maize",
+  corn: "maize",
+  "dry maize": "maize",
+  ngano: "wheat",
+  maharagwe: "beans",
+  "dry beans": "beans",
+  viazi: "potatoes",
+  "irish potatoes": "potatoes",
+  mchele: "rice",
+  mpunga: "rice",
+  paddy: "rice",
+  shayiri: "barley",
+  nyanya: "tomatoes",
+};
+
+// Per-tonne prices outside this range (KES) usually mean the wrong unit
+const PLAUSIBLE_PER_TONNE: [number, number] = [5000, 500000];
+
+const HEADER_PATTERNS: [PriceField, RegExp][] = [
+  ["crop", /\b(crop|commodity|product|item)\b/i],
+  ["market", /\b(market|town|county|location)\b/i],
+  ["price_date", /\b(date|day|week|month)\b/i],
+  ["unit", /\b(unit|measure|packaging)\b/i],
+  ["currency", /\bcurrency\b/i],
+  ["price", /\b(price|wholesale|retail|kes|ksh|amount)\b/i],
+];
+
+// Unit named in a header such as "Price (KES/90kg bag)" or a unit cell
+export const parseUnit = (value: string) => {
+  const text = value.toLowerCase().replace(/\s+/g, "");
+  if (/crate/.test(text)) return "crate";
+  if (/90kg/.test(text)) return "90kg bag";
+  if (/50kg/.test(text)) return "50kg bag";
+  if (/tonne|ton\b|\/t$|pert$/.test(text)) return "tonne";
+  if (/kg|kilo/.test(text)) return "kg";
+  return null;
+};
+
+// Maps each header onto the first unclaimed field it matches
+export const guessPriceMappings = (headers: string[]): PriceColumnMapping[] => {
+  const claimed = new Set<PriceField>();
+  return headers.map(header => {
+    const match = HEADER_PATTERNS.find(([field, pattern]) => !claimed.has(field) && pattern.test(header));
+    if (!match) return { field: null };
+    claimed.add(match[0]);
+    return { field: match[0] };
+  });
+};
+
+// Unit for the whole list from the price column's header, e.g. "KES/kg"
+export const guessDefaultUnit = (headers: string[], mappings: PriceColumnMapping[]) => {
+  const index = mappings.findIndex(mapping => mapping.field === "price");
+  return (index >= 0 && parseUnit(headers[index])) || "90kg bag";
+};
+
+export const matchCrop = (value: string, crops: { id: string; display_name: string }[]) => {
+  const text = value.toLowerCase().replace(/\s+/g, " ").trim();
+  const id = CROP_ALIASES[text] ?? text;
+  return crops.find(crop => crop.id === id || crop.display_name.toLowerCase() === id)?.id ?? null;
+};
+
+// Converts mapped rows into market prices, collecting problems per row
+export const convertPriceRows = (
+  rows: string[][],
+  mappings: PriceColumnMapping[],
+  crops: { id: string; display_name: string }[],
+  defaults: { market: string; unit: string }
+): PriceImportRow[] =>
+  rows.map((row, rowIndex) => {
+    const values: PriceValues = {};
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    let unit = defaults.unit;
+
+    mappings.forEach(({ field }, index) => {
+      const raw = row[index]?.trim();
+      if (!field || !raw) return;
+
+      if (field === "crop") {
+        const cropId = matchCrop(raw, crops);
+        if (cropId) values.crop_id = cropId;
+        else errors.push(`Unknown crop "${raw}"`);
+      } else if (field === "market") {
+        values.market = raw;
+      } else if (field === "price_date") {
+        const date = parseDate(raw);
+        if (date) values.price_date = date;
+        else errors.push(`Unreadable date "${raw}"`);
+      } else if (field === "unit") {
+        const parsed = parseUnit(raw);
+        if (parsed) unit = parsed;
+        else errors.push(`Unknown unit "${raw}"`);
+      } else if (field === "currency") {
+        if (!/^(kes|ksh|kshs)$/i.test(raw)) errors.push(`Only KES prices can be imported, not ${raw}`);
+      } else {
+        // Thousands separators are common in price lists
+        const price = parseNumber(raw.replace(/,(?=\d{3}\b)/g, ""));
+        if (price == null || price <= 0) errors.push(`Price "${raw}" is not a positive number`);
+        else values.price = price;
+      }
+    });
+
+    values.market = values.market ?? (defaults.market.trim() || undefined);
+    values.unit = unit;
+    values.unit_kg = PRICE_UNITS[unit].kg;
+
+    if (!values.crop_id && !errors.some(error => error.startsWith("Unknown crop"))) errors.push("No crop");
+    if (!values.market) errors.push("No market");
+    if (!values.price_date) errors.push("No date");
+    if (values.price == null && !errors.some(error => error.startsWith("Price"))) errors.push("No price");
+
+    if (values.price != null) {
+      const perTonne = (values.price * 1000) / values.unit_kg;
+      const [min, max] = PLAUSIBLE_PER_TONNE;
+      if (perTonne < min || perTonne > max) {
+        warnings.push(`KSh ${Math.round(perTonne).toLocaleString()} per tonne; check the unit`);
+      }
+    }
+
+    return { line: rowIndex + 2, values, errors, warnings };
+  });
@@ -0,0 +1,35 @@
+// Revenue projection stored with a prediction by the predict-yield function.
+// Money is in KES.
+export interface CropPrice {
+  price_per_tonne: number;
+  // "market" when taken from an imported price, else the catalogue's
+  // reference price
+  source: "market" | "reference";
+  market: string | null;
+  price_date: string | null;
+}
+
+export interface RevenueFigures {
+  gross_revenue: number;
+  input_costs: number;
+  margin: number;
+}
+
+export interface RevenueProjection {
+  currency: "KES";
+  price: CropPrice;
+  // Recorded is spending from the season's activity log; missing on older
+  // predictions
+  input_costs: { base: number; fertilizer: number; lime: number; recorded?: number };
+  per_ha: RevenueFigures;
+  per_farm: RevenueFigures;
+  margin_range: { p10: number; p90: number };
+}
+
+export const formatKes = (value: number) =>
+  `${value < 0 ? "-" : ""}KSh ${Math.abs(Math.round(value)).toLocaleString()}`;
+
+export const describePrice = (price: CropPrice) =>
+  price.source === "market" && price.market && price.price_date
+    ? `${price.market}, ${new Date(price.price_date).toLocaleDateString()}`
+    : "Typical farm-gate price";
@@ -0,0 +1,21 @@
+import type { YieldExplanation } from "@/lib/contributions";
+import type { YieldInterval } from "@/lib/yield";
+
+// Soil and crop changes tried against a prediction. Values replace the
+// prediction's readings; the crop defaults to the farm's.
+export interface ScenarioInput {
+  soil_ph: number;
+  soil_moisture: number;
+  organic_matter: number;
+  crop?: string;
+}
+
+// Dry-run result from the predict-yield function; nothing is stored
+export interface ScenarioResult {
+  yield_per_hectare: number;
+  interval: YieldInterval;
+  total_yield: number;
+  limiting_factor: string;
+  farm: { crop: string; area_hectares: number };
+  factor_contributions: YieldExplanation;
+}
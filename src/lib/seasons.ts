@@ -0,0 +1,71 @@
+// Kenya's two rainy seasons: the long rains (March to May) and the short
+// rains (October to December)
+export type Rains = "long_rains" | "short_rains";
+
+export const RAINS_LABELS: Record<Rains, string> = {
+  long_rains: "Long rains",
+  short_rains: "Short rains",
+};
+
+export const rainsLabel = (rains: string | null) =>
+  rains ? RAINS_LABELS[rains as Rains] ?? rains : null;
+
+// Rains a planting most likely catches: February to July plantings go in
+// for the long rains, the rest for the short rains
+export const rainsForPlanting = (plantingDate: string): Rains => {
+  const month = Number(plantingDate.slice(5, 7));
+  return month >= 2 && month <= 7 ? "long_rains" : "short_rains";
+};
+
+// Expected harvest from the crop's growth stage lengths (days)
+export const expectedHarvestDate = (plantingDate: string, stageDays: number[]) => {
+  const date = new Date(`${plantingDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + stageDays.reduce((sum, days) => sum + days, 0) - 1);
+  return date.toISOString().slice(0, 10);
+};
+
+export type SeasonStatus = "planned" | "growing" | "harvest_due" | "harvested";
+
+export const SEASON_STATUS_LABELS: Record<SeasonStatus, string> = {
+  planned: "Planned",
+  growing: "Growing",
+  harvest_due: "Harvest due",
+  harvested: "Harvested",
+};
+
+interface SeasonDates {
+  planting_date: string;
+  expected_harvest_date: string;
+}
+
+export const seasonStatus = (season: SeasonDates, harvested: boolean, today = new Date().toISOString().slice(0, 10)): SeasonStatus => {
+  if (harvested) return "harvested";
+  if (today < season.planting_date) return "planned";
+  return today <= season.expected_harvest_date ? "growing" : "harvest_due";
+};
+
+// e.g. "Long rains 2026 · Maize (H614D)"; seasons without rains use the
+// planting date. Pass the catalogue variety's name when the season has one.
+export const seasonLabel = (
+  season: SeasonDates & { rains: string | null; variety: string | null },
+  cropName: string,
+  variety = season.variety
+) => {
+  const when = season.rains
+    ? `${rainsLabel(season.rains)} ${season.planting_date.slice(0, 4)}`
+    : `Planted ${new Date(season.planting_date).toLocaleDateString()}`;
+  const crop = variety ? `${cropName} (${variety})` : cropName;
+  return `${when} · ${crop}`;
+};
+
+// Rows grouped by season, in the order each season first appears; rows
+// outside a season share one group with a null id
+export const groupBySeason = <T extends { season_id: string | null }>(rows: T[]) => {
+  const groups: { seasonId: string | null; rows: T[] }[] = [];
+  for (const row of rows) {
+    const group = groups.find(g => g.seasonId === row.season_id);
+    if (group) group.rows.push(row);
+    else groups.push({ seasonId: row.season_id, rows: [row] });
+  }
+  return groups;
+};
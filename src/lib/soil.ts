@@ -0,0 +1,68 @@
+export type SoilFactor = "ph" | "moisture" | "organic_matter";
+
+export const SOIL_FACTOR_LABELS: Record<SoilFactor, string> = {
+  ph: "Soil pH",
+  moisture: "Soil Moisture",
+  organic_matter: "Organic Matter",
+};
+
+// Optional lab measurements the yield models use when supplied
+export type NutrientFactor = "nitrogen" | "phosphorus" | "potassium" | "cec" | "ec" | "texture";
+
+export const NUTRIENT_FACTOR_LABELS: Record<NutrientFactor, string> = {
+  nitrogen: "Nitrogen",
+  phosphorus: "Phosphorus",
+  potassium: "Potassium",
+  cec: "Cation Exchange Capacity",
+  ec: "Salinity (EC)",
+  texture: "Soil Texture",
+};
+
+export const soilFactorLabel = (factor: string) =>
+  SOIL_FACTOR_LABELS[factor as SoilFactor] ?? NUTRIENT_FACTOR_LABELS[factor as NutrientFactor] ?? factor;
+
+export const SOIL_TEXTURES = [
+  "sand",
+  "loamy sand",
+  "sandy loam",
+  "loam",
+  "silt loam",
+  "silt",
+  "sandy clay loam",
+  "clay loam",
+  "silty clay loam",
+  "sandy clay",
+  "silty clay",
+  "clay",
+] as const;
+
+// Numeric soil test measurements with the units they are stored in
+export type SoilMeasure =
+  | "ph"
+  | "moisture"
+  | "organic_matter"
+  | "nitrogen"
+  | "phosphorus"
+  | "potassium"
+  | "ec"
+  | "cec"
+  | "sand"
+  | "silt"
+  | "clay";
+
+export const SOIL_MEASURES: Record<SoilMeasure, { label: string; unit: string }> = {
+  ph: { label: "pH", unit: "" },
+  moisture: { label: "Moisture", unit: "%" },
+  organic_matter: { label: "Organic Matter", unit: "%" },
+  nitrogen: { label: "Nitrogen", unit: "%" },
+  phosphorus: { label: "Phosphorus", unit: "mg/kg" },
+  potassium: { label: "Potassium", unit: "mg/kg" },
+  ec: { label: "EC", unit: "dS/m" },
+  cec: { label: "CEC", unit: "cmol/kg" },
+  sand: { label: "Sand", unit: "%" },
+  silt: { label: "Silt", unit: "%" },
+  clay: { label: "Clay", unit: "%" },
+};
+
+// Measurements beyond pH, moisture and organic matter, as entered from a lab report
+export const LAB_MEASURES: SoilMeasure[] = ["nitrogen", "phosphorus", "potassium", "cec", "ec", "sand", "silt", "clay"];
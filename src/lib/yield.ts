@@ -0,0 +1,18 @@
+// Yield distribution returned with each prediction (t/ha): the estimate as
+// the median with the 10th and 90th percentiles
+export interface YieldInterval {
+  p10: number;
+  p50: number;
+  p90: number;
+  relative_error: number;
+}
+
+export const formatRange = (p10: number, p90: number, digits = 1) =>
+  `${Number(p10).toFixed(digits)}–${Number(p90).toFixed(digits)}`;
+
+// P10 and P90 of a stored prediction; null for predictions made before
+// intervals, which only have a confidence score
+export const predictionRange = (prediction: { yield_p10: number | null; yield_p90: number | null }) =>
+  prediction.yield_p10 != null && prediction.yield_p90 != null
+    ? [Number(prediction.yield_p10), Number(prediction.yield_p90)] as [number, number]
+    : null;
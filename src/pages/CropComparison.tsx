@@ -0,0 +1,224 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartConfig } from "@/components/ui/chart";
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { ArrowLeft, Loader2, RefreshCw, Scale } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useCropComparison } from "@/hooks/useCropComparison";
+import { useFarms } from "@/hooks/useFarms";
+import { RISK_LABELS, type CropOption, type RiskLevel } from "@/lib/comparison";
+import { describePrice, formatKes } from "@/lib/revenue";
+import { soilFactorLabel } from "@/lib/soil";
+import { formatRange } from "@/lib/yield";
+
+type SortKey = "margin" | "revenue" | "yield" | "risk";
+
+const RISK_ORDER: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+
+const RISK_STYLES: Record<RiskLevel, string> = {
+  low: "border-success/50 text-success",
+  medium: "border-warning/50 text-warning",
+  high: "border-destructive/50 text-destructive",
+};
+
+const sorters: Record<SortKey, (a: CropOption, b: CropOption) => number> = {
+  margin: (a, b) => b.margin.p50 - a.margin.p50,
+  revenue: (a, b) => b.revenue.p50 - a.revenue.p50,
+  yield: (a, b) => b.yield_per_hectare - a.yield_per_hectare,
+  // Low risk first, then the best poor-season margin
+  risk: (a, b) => RISK_ORDER[a.risk] - RISK_ORDER[b.risk] || b.margin.p10 - a.margin.p10,
+};
+
+const CropComparison = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { farms } = useFarms();
+  const { comparison, loading, error, refresh, refreshing } = useCropComparison(id);
+  const [sortKey, setSortKey] = useState<SortKey>("margin");
+
+  const farm = farms.find(f => f.id === id);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+    }
+  }, [user, navigate]);
+
+  const options = [...(comparison?.options ?? [])].sort(sorters[sortKey]);
+
+  const chartData = options.map(option => ({
+    crop: option.crop,
+    margin: option.margin.p50,
+    current: option.crop_id === comparison?.current_crop,
+  }));
+
+  const chartConfig: ChartConfig = {
+    margin: {
+      label: "Expected margin (KSh)",
+      color: "hsl(var(--primary))",
+    },
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        <Button variant="ghost" size="sm" onClick={() => navigate(`/farms/${id}`)} className="gap-2">
+          <ArrowLeft className="w-4 h-4" />
+          {farm?.name ?? "Farm"}
+        </Button>
+
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div className="flex items-center gap-4">
+            <div className="p-3 rounded-full bg-primary/10">
+              <Scale className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold text-foreground">Compare Crops</h1>
+              <p className="text-muted-foreground">
+                Which crop suits {farm?.name ?? "this field"} best, on its latest soil test and the current weather
+              </p>
+            </div>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="sort-by">Rank By</Label>
+              <Select value={sortKey} onValueChange={(value) => setSortKey(value as SortKey)}>
+                <SelectTrigger id="sort-by" className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="margin">Expected margin</SelectItem>
+                  <SelectItem value="revenue">Expected revenue</SelectItem>
+                  <SelectItem value="yield">Yield (t/ha)</SelectItem>
+                  <SelectItem value="risk">Lowest risk</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" size="icon" onClick={() => refresh()} disabled={refreshing} title="Refresh">
+              <RefreshCw className={`w-4 h-4 ${refreshing ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : error ? (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">
+              {error instanceof Error ? error.message : "Failed to compare crops"}
+            </CardContent>
+          </Card>
+        ) : comparison && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Expected Margin</CardTitle>
+                <CardDescription>
+                  Median harvest across {comparison.area_hectares} ha at the latest market prices, less input costs
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={chartConfig} className="h-[260px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="crop" />
+                      <YAxis tickFormatter={(value) => `${Math.round(value / 1000)}k`} />
+                      <Tooltip formatter={(value) => formatKes(Number(value))} />
+                      <Bar dataKey="margin">
+                        {chartData.map(entry => (
+                          <Cell
+                            key={entry.crop}
+                            fill={entry.current ? "hsl(var(--success))" : "hsl(var(--primary))"}
+                          />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Ranking</CardTitle>
+                <CardDescription>
+                  Soil test from {new Date(comparison.tested_on).toLocaleDateString()}. Risk reflects how wide
+                  the likely yield range is on this field.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>#</TableHead>
+                      <TableHead>Crop</TableHead>
+                      <TableHead className="text-right">Yield (t/ha)</TableHead>
+                      <TableHead className="text-right">Likely Range</TableHead>
+                      <TableHead className="text-right">Price / t</TableHead>
+                      <TableHead className="text-right">Expected Revenue</TableHead>
+                      <TableHead className="text-right">Input Costs</TableHead>
+                      <TableHead className="text-right">Expected Margin</TableHead>
+                      <TableHead className="text-right">In a Poor Season</TableHead>
+                      <TableHead>Risk</TableHead>
+                      <TableHead>Limiting Factor</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {options.map((option, i) => (
+                      <TableRow key={option.crop_id}>
+                        <TableCell>{i + 1}</TableCell>
+                        <TableCell className="font-medium">
+                          {option.crop}
+                          {option.crop_id === comparison.current_crop && (
+                            <Badge variant="secondary" className="ml-2">Current</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{option.yield_per_hectare.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatRange(option.interval.p10, option.interval.p90)}
+                        </TableCell>
+                        <TableCell className="text-right" title={describePrice(option.price)}>
+                          {formatKes(option.price.price_per_tonne)}
+                          {option.price.source === "market" && (
+                            <span className="block text-xs text-muted-foreground">{option.price.market}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatKes(option.revenue.p50)}</TableCell>
+                        <TableCell className="text-right">{formatKes(option.input_costs)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatKes(option.margin.p50)}</TableCell>
+                        <TableCell className="text-right text-muted-foreground">{formatKes(option.margin.p10)}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={RISK_STYLES[option.risk]}>
+                            {RISK_LABELS[option.risk]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{soilFactorLabel(option.limiting_factor)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="text-xs text-muted-foreground mt-4">
+                  A poor season is the margin at the 1-in-10 low end of the yield range. Input costs include the
+                  fertilizer and lime this soil needs for a typical crop. Crops without an imported market price
+                  from the last six months use a typical farm-gate price.
+                </p>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CropComparison;
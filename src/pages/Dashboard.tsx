@@ -5,13 +5,21 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/useAuth";
 import { useSubscription } from "@/hooks/useSubscription";
+import { useCrops } from "@/hooks/useCrops";
+import { useCropVarieties } from "@/hooks/useCropVarieties";
+import { usePredictionAccuracy } from "@/hooks/usePredictionAccuracy";
 import { supabase } from "@/integrations/supabase/client";
-import { Leaf, BarChart3, TrendingUp, Calendar, MapPin, Plus, Crown, Zap, Shield, MessageSquare, FileText, Smartphone } from "lucide-react";
+import { Leaf, BarChart3, Target, TrendingUp, Calendar, MapPin, Plus, Crown, Zap, Shield, MessageSquare, FileText, Smartphone } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { ChartContainer, ChartConfig } from "@/components/ui/chart";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from "recharts";
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 import SubscriptionModal from "@/components/SubscriptionModal";
+import PestAlertsCard from "@/components/PestAlertsCard";
 import { PremiumFeatureGate } from "@/components/PremiumFeatureGate";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatError, seasonYield } from "@/lib/accuracy";
+import { groupBySeason, seasonLabel } from "@/lib/seasons";
+import { formatRange, predictionRange } from "@/lib/yield";
 
 interface Farm {
   id: string;
@@ -19,15 +27,39 @@ interface Farm {
   location: string;
   crop_type: string;
   area_hectares: number;
+  boundary_area_hectares: number | null;
+  archived_at: string | null;
   created_at: string;
 }
 
 interface Prediction {
   id: string;
   yield_per_hectare: number;
-  confidence_score: number;
+  yield_p10: number | null;
+  yield_p90: number | null;
+  // Only set on predictions made before yield intervals
+  confidence_score: number | null;
+  model_version: string | null;
   created_at: string;
   farm_id: string;
+  season_id: string | null;
+}
+
+interface Season {
+  id: string;
+  farm_id: string;
+  crop_id: string;
+  variety_id: string | null;
+  variety: string | null;
+  rains: string | null;
+  planting_date: string;
+  expected_harvest_date: string;
+}
+
+interface Harvest {
+  season_id: string;
+  yield_per_hectare: number;
+  area_hectares: number;
 }
 
 interface Profile {
@@ -40,9 +72,14 @@ interface Profile {
 const Dashboard = () => {
   const { user } = useAuth();
   const { isPremium, subscriptionTier } = useSubscription();
+  const { cropName } = useCrops();
+  const { varietyName } = useCropVarieties();
+  const { summary: accuracy } = usePredictionAccuracy();
   const navigate = useNavigate();
   const [farms, setFarms] = useState<Farm[]>([]);
   const [predictions, setPredictions] = useState<Prediction[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [harvests, setHarvests] = useState<Harvest[]>([]);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [showSubscriptionModal, setShowSubscriptionModal] = useState(false);
@@ -57,14 +94,18 @@ const Dashboard = () => {
 
   const fetchDashboardData = async () => {
     try {
-      const [farmsResult, predictionsResult, profileResult] = await Promise.all([
+      const [farmsResult, predictionsResult, seasonsResult, harvestsResult, profileResult] = await Promise.all([
         supabase.from('farms').select('*').order('created_at', { ascending: false }),
         supabase.from('predictions').select('*').order('created_at', { ascending: false }).limit(10),
+        supabase.from('seasons').select('*').order('planting_date', { ascending: false }),
+        supabase.from('harvests').select('season_id, yield_per_hectare, area_hectares'),
         supabase.from('profiles').select('*').single()
       ]);
 
       if (farmsResult.data) setFarms(farmsResult.data);
       if (predictionsResult.data) setPredictions(predictionsResult.data);
+      if (seasonsResult.data) setSeasons(seasonsResult.data);
+      if (harvestsResult.data) setHarvests(harvestsResult.data);
       if (profileResult.data) setProfile(profileResult.data);
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
@@ -73,15 +114,33 @@ const Dashboard = () => {
     }
   };
 
-  const totalArea = farms.reduce((sum, farm) => sum + farm.area_hectares, 0);
+  // Archived farms keep their prediction history but no longer count towards the totals
+  const activeFarms = farms.filter(farm => !farm.archived_at);
+  const farmArea = (farm: Farm) => farm.boundary_area_hectares ?? farm.area_hectares;
+  const totalArea = activeFarms.reduce((sum, farm) => sum + farmArea(farm), 0);
   const avgYield = predictions.length > 0 
     ? predictions.reduce((sum, pred) => sum + pred.yield_per_hectare, 0) / predictions.length 
     : 0;
 
-  const chartData = predictions.slice(0, 7).map((pred, index) => ({
-    date: new Date(pred.created_at).toLocaleDateString(),
-    yield: pred.yield_per_hectare,
-    confidence: pred.confidence_score,
+  const describeSeason = (seasonId: string | null) => {
+    const season = seasons.find(s => s.id === seasonId);
+    return season ? seasonLabel(season, cropName(season.crop_id), varietyName(season)) : "No season";
+  };
+  const harvestedYield = (seasonId: string | null) => {
+    const season = seasons.find(s => s.id === seasonId);
+    const farm = farms.find(f => f.id === season?.farm_id);
+    return farm ? seasonYield(harvests, seasonId, farmArea(farm)) : null;
+  };
+
+  // Recent predictions by season, newest season first
+  const predictionGroups = groupBySeason(predictions);
+
+  // One point per season: its latest prediction and the harvest once recorded
+  const chartData = predictionGroups.slice(0, 7).map(({ seasonId, rows: [latest] }) => ({
+    season: describeSeason(seasonId),
+    yield: latest.yield_per_hectare,
+    range: predictionRange(latest),
+    actual: harvestedYield(seasonId),
   })).reverse();
 
   const chartConfig: ChartConfig = {
@@ -89,12 +148,65 @@ const Dashboard = () => {
       label: "Yield (tons/ha)",
       color: "hsl(var(--primary))",
     },
-    confidence: {
-      label: "Confidence (%)",
-      color: "hsl(var(--secondary))",
+    range: {
+      label: "P10–P90 (tons/ha)",
+      color: "hsl(var(--primary))",
+    },
+    actual: {
+      label: "Harvested (tons/ha)",
+      color: "hsl(var(--accent))",
     },
   };
 
+  const describeSpread = (pred: Prediction) => {
+    const range = predictionRange(pred);
+    if (range) return `Likely ${formatRange(...range)} t/ha`;
+    return pred.confidence_score != null ? `${pred.confidence_score}% confidence` : "";
+  };
+
+  const renderPredictionGroups = (list: Prediction[]) => groupBySeason(list).map(({ seasonId, rows }) => {
+    const harvested = harvestedYield(seasonId);
+    return (
+      <div key={seasonId ?? "none"} className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <p className="font-medium text-muted-foreground">{describeSeason(seasonId)}</p>
+          {harvested != null && (
+            <Badge variant="secondary">Harvested {harvested.toFixed(1)} t/ha</Badge>
+          )}
+        </div>
+        {rows.map((prediction) => {
+          const farm = farms.find(f => f.id === prediction.farm_id);
+          return (
+            <div key={prediction.id} className="flex items-center justify-between p-4 rounded-lg border">
+              <div className="flex items-center gap-4">
+                <div className="p-3 rounded-full bg-primary/10">
+                  <BarChart3 className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <p className="font-medium">{farm?.name || 'Unknown Farm'}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {[new Date(prediction.created_at).toLocaleDateString(), !seasonId && cropName(farm?.crop_type), farm?.location]
+                      .filter(Boolean)
+                      .join(" • ")}
+                  </p>
+                  {prediction.model_version && (
+                    <p className="text-xs text-muted-foreground">
+                      Model {prediction.model_version}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <div className="text-right">
+                <p className="font-medium">{prediction.yield_per_hectare.toFixed(1)} t/ha</p>
+                <p className="text-sm text-muted-foreground">{describeSpread(prediction)}</p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  });
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background to-muted/50 flex items-center justify-center">
@@ -143,9 +255,9 @@ const Dashboard = () => {
               <Leaf className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{farms.length}</div>
+              <div className="text-2xl font-bold">{activeFarms.length}</div>
               <p className="text-xs text-muted-foreground">
-                +{farms.filter(f => new Date(f.created_at) > new Date(Date.now() - 30*24*60*60*1000)).length} this month
+                +{activeFarms.filter(f => new Date(f.created_at) > new Date(Date.now() - 30*24*60*60*1000)).length} this month
               </p>
             </CardContent>
           </Card>
@@ -190,22 +302,32 @@ const Dashboard = () => {
           </Card>
         </div>
 
+        {/* Pest & Disease Alerts */}
+        <PestAlertsCard className="mb-8" />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Yield Trend Chart */}
           <Card>
             <CardHeader>
-              <CardTitle>Yield Predictions Trend</CardTitle>
-              <CardDescription>Your recent yield predictions over time</CardDescription>
+              <CardTitle>Yield by Season</CardTitle>
+              <CardDescription>The latest prediction for each season, with the likely range shaded and the harvest once recorded</CardDescription>
             </CardHeader>
             <CardContent>
               {chartData.length > 0 ? (
                 <ChartContainer config={chartConfig} className="h-[300px]">
                   <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={chartData}>
+                    <ComposedChart data={chartData}>
                       <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="date" />
+                      <XAxis dataKey="season" tick={{ fontSize: 12 }} />
                       <YAxis />
                       <Tooltip />
+                      <Area
+                        type="monotone"
+                        dataKey="range"
+                        stroke="none"
+                        fill="hsl(var(--primary))"
+                        fillOpacity={0.15}
+                      />
                       <Line 
                         type="monotone" 
                         dataKey="yield" 
@@ -213,7 +335,12 @@ const Dashboard = () => {
                         strokeWidth={2}
                         dot={{ fill: "hsl(var(--primary))" }}
                       />
-                    </LineChart>
+                      <Line
+                        dataKey="actual"
+                        stroke="none"
+                        dot={{ fill: "hsl(var(--accent))", r: 5 }}
+                      />
+                    </ComposedChart>
                   </ResponsiveContainer>
                 </ChartContainer>
               ) : (
@@ -226,14 +353,23 @@ const Dashboard = () => {
 
           {/* Recent Farms */}
           <Card>
-            <CardHeader>
-              <CardTitle>Your Farms</CardTitle>
-              <CardDescription>Manage your agricultural properties</CardDescription>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Your Farms</CardTitle>
+                <CardDescription>Manage your agricultural properties</CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => navigate('/farms')}>
+                Manage
+              </Button>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {farms.slice(0, 5).map((farm) => (
-                  <div key={farm.id} className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+                {activeFarms.slice(0, 5).map((farm) => (
+                  <div
+                    key={farm.id}
+                    className="flex items-center justify-between p-3 rounded-lg bg-muted/50 cursor-pointer hover:bg-muted"
+                    onClick={() => navigate(`/farms/${farm.id}`)}
+                  >
                     <div className="flex items-center gap-3">
                       <div className="p-2 rounded-full bg-primary/10">
                         <Leaf className="w-4 h-4 text-primary" />
@@ -241,7 +377,7 @@ const Dashboard = () => {
                       <div>
                         <p className="font-medium">{farm.name}</p>
                         <p className="text-sm text-muted-foreground">
-                          {farm.crop_type} • {farm.area_hectares} ha • {farm.location}
+                          {cropName(farm.crop_type)} • {farmArea(farm).toFixed(1)} ha • {farm.location}
                         </p>
                       </div>
                     </div>
@@ -252,16 +388,72 @@ const Dashboard = () => {
                     </div>
                   </div>
                 ))}
-                {farms.length === 0 && (
+                {activeFarms.length === 0 && (
                   <div className="text-center py-8 text-muted-foreground">
                     <Leaf className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                    <p>No farms yet. Create your first prediction to get started!</p>
+                    <p>No farms yet. Add your first farm to start predicting yields.</p>
                   </div>
                 )}
               </div>
             </CardContent>
           </Card>
 
+          {/* Prediction Accuracy */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Target className="w-5 h-5 text-primary" />
+                Prediction Accuracy
+              </CardTitle>
+              <CardDescription>How your predictions compared with the harvests you recorded</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {accuracy.length > 0 ? (
+                <>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Crop</TableHead>
+                        <TableHead>Model</TableHead>
+                        <TableHead className="text-right">Harvests</TableHead>
+                        <TableHead className="text-right">Predictions</TableHead>
+                        <TableHead className="text-right">Typical Error</TableHead>
+                        <TableHead className="text-right">MAPE</TableHead>
+                        <TableHead className="text-right">Bias (t/ha)</TableHead>
+                        <TableHead className="text-right">Within Range</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {accuracy.map(row => (
+                        <TableRow key={`${row.crop_id}-${row.model_version}`}>
+                          <TableCell className="font-medium">{cropName(row.crop_id)}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{row.model_version}</TableCell>
+                          <TableCell className="text-right">{row.harvests}</TableCell>
+                          <TableCell className="text-right">{row.predictions}</TableCell>
+                          <TableCell className="text-right">{row.mean_absolute_error.toFixed(2)} t/ha</TableCell>
+                          <TableCell className="text-right">{row.mape != null ? `${row.mape.toFixed(0)}%` : "—"}</TableCell>
+                          <TableCell className="text-right">{formatError(row.bias)}</TableCell>
+                          <TableCell className="text-right">
+                            {row.interval_coverage != null ? `${Math.round(row.interval_coverage * 100)}%` : "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <p className="text-xs text-muted-foreground mt-4">
+                    MAPE is the average percentage the prediction was off by. A positive bias means predictions
+                    ran higher than the harvest. About 80% of harvests should fall within the likely range.
+                  </p>
+                </>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Target className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                  <p>Record a harvest on a farm to see how accurate its predictions were.</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Premium Features Section */}
           {!isPremium && (
             <Card className="lg:col-span-2 gradient-card border-success/20">
@@ -356,7 +548,7 @@ const Dashboard = () => {
           {/* Recent Predictions */}
           <PremiumFeatureGate 
             feature="Advanced Predictions History"
-            description="View detailed prediction history with confidence scores and farm analytics"
+            description="View detailed prediction history with yield ranges and farm analytics"
             onUpgrade={() => setShowSubscriptionModal(true)}
             fallback={
               <Card className="lg:col-span-2">
@@ -366,37 +558,7 @@ const Dashboard = () => {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
-                    {predictions.slice(0, isPremium ? 10 : 3).map((prediction) => {
-                  const farm = farms.find(f => f.id === prediction.farm_id);
-                  return (
-                    <div key={prediction.id} className="flex items-center justify-between p-4 rounded-lg border">
-                      <div className="flex items-center gap-4">
-                        <div className="p-3 rounded-full bg-primary/10">
-                          <BarChart3 className="w-5 h-5 text-primary" />
-                        </div>
-                        <div>
-                          <p className="font-medium">{farm?.name || 'Unknown Farm'}</p>
-                          <p className="text-sm text-muted-foreground">
-                            {farm?.crop_type} • {farm?.location}
-                          </p>
-                        </div>
-                      </div>
-                      <div className="text-right">
-                        <div className="flex items-center gap-4">
-                          <div>
-                            <p className="font-medium">{prediction.yield_per_hectare.toFixed(1)} t/ha</p>
-                            <p className="text-sm text-muted-foreground">
-                              {prediction.confidence_score}% confidence
-                            </p>
-                          </div>
-                          <Badge variant={prediction.confidence_score > 80 ? 'default' : 'secondary'}>
-                            {prediction.confidence_score > 80 ? 'High' : 'Medium'} Confidence
-                          </Badge>
-                        </div>
-                      </div>
-                    </div>
-                  );
-                    })}
+                    {renderPredictionGroups(predictions.slice(0, isPremium ? 10 : 3))}
                     {predictions.length === 0 && (
                       <div className="text-center py-8 text-muted-foreground">
                         <BarChart3 className="w-12 h-12 mx-auto mb-4 opacity-50" />
@@ -433,37 +595,7 @@ const Dashboard = () => {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {predictions.map((prediction) => {
-                    const farm = farms.find(f => f.id === prediction.farm_id);
-                    return (
-                      <div key={prediction.id} className="flex items-center justify-between p-4 rounded-lg border">
-                        <div className="flex items-center gap-4">
-                          <div className="p-3 rounded-full bg-primary/10">
-                            <BarChart3 className="w-5 h-5 text-primary" />
-                          </div>
-                          <div>
-                            <p className="font-medium">{farm?.name || 'Unknown Farm'}</p>
-                            <p className="text-sm text-muted-foreground">
-                              {farm?.crop_type} • {farm?.location}
-                            </p>
-                          </div>
-                        </div>
-                        <div className="text-right">
-                          <div className="flex items-center gap-4">
-                            <div>
-                              <p className="font-medium">{prediction.yield_per_hectare.toFixed(1)} t/ha</p>
-                              <p className="text-sm text-muted-foreground">
-                                {prediction.confidence_score}% confidence
-                              </p>
-                            </div>
-                            <Badge variant={prediction.confidence_score > 80 ? 'default' : 'secondary'}>
-                              {prediction.confidence_score > 80 ? 'High' : 'Medium'} Confidence
-                            </Badge>
-                          </div>
-                        </div>
-                      </div>
-                    );
-                  })}
+                  {renderPredictionGroups(predictions)}
                   {predictions.length === 0 && (
                     <div className="text-center py-8 text-muted-foreground">
                       <BarChart3 className="w-12 h-12 mx-auto mb-4 opacity-50" />
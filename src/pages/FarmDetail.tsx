@@ -0,0 +1,820 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartConfig } from "@/components/ui/chart";
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { ArrowLeft, BarChart3, CalendarDays, FileUp, FlaskConical, Leaf, Loader2, MapPin, Pencil, Plus, RefreshCw, Scale, TestTube, Trash2, Wheat } from "lucide-react";
+import ActivityLog from "@/components/ActivityLog";
+import FarmFormDialog from "@/components/FarmFormDialog";
+import GrowthStageCard from "@/components/GrowthStageCard";
+import HarvestDialog from "@/components/HarvestDialog";
+import IrrigationSchedule from "@/components/IrrigationSchedule";
+import { PremiumFeatureGate } from "@/components/PremiumFeatureGate";
+import ScenarioDialog from "@/components/ScenarioDialog";
+import SeasonDialog from "@/components/SeasonDialog";
+import SeasonalForecastCard from "@/components/SeasonalForecastCard";
+import SubscriptionModal from "@/components/SubscriptionModal";
+import SoilTestDialog from "@/components/SoilTestDialog";
+import SoilTrendCharts from "@/components/SoilTrendCharts";
+import { useAuth } from "@/hooks/useAuth";
+import { useCrops } from "@/hooks/useCrops";
+import { useCropVarieties } from "@/hooks/useCropVarieties";
+import { useFarms } from "@/hooks/useFarms";
+import { useFarmPredictions, type Prediction } from "@/hooks/useFarmPredictions";
+import { useHarvests, type Harvest } from "@/hooks/useHarvests";
+import { usePredictionAccuracy } from "@/hooks/usePredictionAccuracy";
+import { useSeasons, type Season } from "@/hooks/useSeasons";
+import { useSoilTests, type SoilTest } from "@/hooks/useSoilTests";
+import { useToast } from "@/hooks/use-toast";
+import { formatError, qualityGradeLabel, seasonYield } from "@/lib/accuracy";
+import { SEASON_STATUS_LABELS, seasonLabel, seasonStatus } from "@/lib/seasons";
+import { SOIL_FACTOR_LABELS, soilFactorLabel } from "@/lib/soil";
+import { formatRange, predictionRange } from "@/lib/yield";
+
+const formatReading = (value: number | null, digits = 1) => (value == null ? "—" : Number(value).toFixed(digits));
+
+// Legacy predictions show the confidence score they were made with
+const describeRange = (prediction: Prediction) => {
+  const range = predictionRange(prediction);
+  if (range) return formatRange(...range);
+  return prediction.confidence_score != null ? `${prediction.confidence_score}% confidence` : "—";
+};
+
+const describeSoilTest = (test: SoilTest) =>
+  `${new Date(test.tested_on).toLocaleDateString()} • pH ${formatReading(test.ph)}` +
+  ` • ${formatReading(test.moisture)}% moisture • ${formatReading(test.organic_matter)}% OM`;
+
+const FarmDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { cropName } = useCrops();
+  const { varietyName } = useCropVarieties();
+  const { farms, loading: farmsLoading } = useFarms();
+  const { predictions, loading: predictionsLoading, runPrediction, running } = useFarmPredictions(id);
+  const { soilTests, latestSoilTest, loading: soilTestsLoading, deleteSoilTest } = useSoilTests(id);
+  const { harvests, deleteHarvest } = useHarvests(id);
+  const { seasons, deleteSeason } = useSeasons(id);
+  const { scored } = usePredictionAccuracy(id);
+  const [showFarmDialog, setShowFarmDialog] = useState(false);
+  const [showSoilTestDialog, setShowSoilTestDialog] = useState(false);
+  const [showHarvestDialog, setShowHarvestDialog] = useState(false);
+  const [harvestSeasonId, setHarvestSeasonId] = useState<string | null>(null);
+  const [showSeasonDialog, setShowSeasonDialog] = useState(false);
+  const [editingSeason, setEditingSeason] = useState<Season | null>(null);
+  const [showSubscriptionModal, setShowSubscriptionModal] = useState(false);
+  const [scenarioPrediction, setScenarioPrediction] = useState<Prediction | null>(null);
+  const [soilTestId, setSoilTestId] = useState<string>("");
+
+  const farm = farms.find(f => f.id === id);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+    }
+  }, [user, navigate]);
+
+  // Re-runs default to the most recent soil test
+  useEffect(() => {
+    if (latestSoilTest && !soilTests.some(test => test.id === soilTestId)) {
+      setSoilTestId(latestSoilTest.id);
+    }
+  }, [latestSoilTest, soilTests, soilTestId]);
+
+  const selectedSoilTest = soilTests.find(test => test.id === soilTestId);
+  const canPredict = selectedSoilTest != null &&
+    selectedSoilTest.ph != null && selectedSoilTest.moisture != null && selectedSoilTest.organic_matter != null;
+
+  const handleDeleteSoilTest = async (test: SoilTest) => {
+    try {
+      await deleteSoilTest(test.id);
+      toast({
+        title: "Soil Test Deleted",
+        description: `The test from ${new Date(test.tested_on).toLocaleDateString()} was removed.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete soil test",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteHarvest = async (harvest: Harvest) => {
+    try {
+      await deleteHarvest(harvest.id);
+      toast({
+        title: "Harvest Deleted",
+        description: `The harvest from ${new Date(harvest.harvested_on).toLocaleDateString()} was removed.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete harvest",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteSeason = async (season: Season) => {
+    try {
+      await deleteSeason(season.id);
+      toast({
+        title: "Season Deleted",
+        description: `The season planted ${new Date(season.planting_date).toLocaleDateString()} and its harvests were removed.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete season",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openSeasonDialog = (season: Season | null) => {
+    setEditingSeason(season);
+    setShowSeasonDialog(true);
+  };
+
+  const openHarvestDialog = (seasonId: string | null) => {
+    setHarvestSeasonId(seasonId);
+    setShowHarvestDialog(true);
+  };
+
+  const handleRerun = async () => {
+    if (!canPredict) {
+      toast({
+        title: "Missing Information",
+        description: "The selected soil test needs pH, moisture and organic matter readings.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const prediction = await runPrediction(selectedSoilTest.id);
+      toast({
+        title: "Prediction Complete",
+        description: `New estimate: ${prediction.yield_per_hectare} tons/ha (likely ${formatRange(prediction.interval.p10, prediction.interval.p90)}).`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to run prediction",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (farmsLoading || predictionsLoading || soilTestsLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background to-muted/50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!farm) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background to-muted/50 flex items-center justify-center">
+        <div className="text-center space-y-4">
+          <p className="text-muted-foreground">This farm could not be found.</p>
+          <Button variant="outline" onClick={() => navigate("/farms")}>
+            Back to Farms
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const area = farm.boundary_area_hectares ?? farm.area_hectares;
+  const latest = predictions[predictions.length - 1];
+  // Newest first for the tables
+  const history = [...predictions].reverse();
+
+  // The last prediction before each season's harvest, which it is judged by.
+  // Harvests are newest first, so a season's first is its last picking.
+  const lastPrediction = (seasonId: string) => scored.find(row => row.season_id === seasonId);
+  const lastPicking = (seasonId: string) => harvests.find(h => h.season_id === seasonId);
+
+  const seasonById = (seasonId: string | null) => seasons.find(season => season.id === seasonId);
+  const describeSeason = (season: Season | undefined) =>
+    season ? seasonLabel(season, cropName(season.crop_id), varietyName(season)) : "—";
+
+  const chartData = predictions.map(pred => ({
+    date: new Date(pred.created_at).toLocaleDateString(),
+    yield: pred.yield_per_hectare,
+    range: predictionRange(pred),
+  }));
+
+  const chartConfig: ChartConfig = {
+    yield: {
+      label: "Yield (tons/ha)",
+      color: "hsl(var(--primary))",
+    },
+    range: {
+      label: "P10–P90 (tons/ha)",
+      color: "hsl(var(--primary))",
+    },
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        <Button variant="ghost" size="sm" onClick={() => navigate("/farms")} className="gap-2">
+          <ArrowLeft className="w-4 h-4" />
+          All Farms
+        </Button>
+
+        {/* Farm metadata */}
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+          <div className="flex items-center gap-4">
+            <div className="p-3 rounded-full bg-primary/10">
+              <Leaf className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <div className="flex items-center gap-2">
+                <h1 className="text-3xl font-bold text-foreground">{farm.name}</h1>
+                {farm.archived_at && <Badge variant="secondary">Archived</Badge>}
+              </div>
+              <p className="text-muted-foreground">
+                {cropName(farm.crop_type)} • {area} ha
+                {farm.boundary_area_hectares != null && " (measured)"}
+              </p>
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                <MapPin className="w-3 h-3" />
+                {farm.location}
+                {farm.admin_region && ` • ${farm.admin_region} County`}
+                {farm.latitude != null && farm.longitude != null &&
+                  ` • ${Number(farm.latitude).toFixed(4)}, ${Number(farm.longitude).toFixed(4)}`}
+              </p>
+            </div>
+          </div>
+          {!farm.archived_at && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => navigate(`/farms/${farm.id}/compare`)} className="gap-2">
+                <Scale className="w-4 h-4" />
+                Compare Crops
+              </Button>
+              <Button variant="outline" onClick={() => setShowFarmDialog(true)} className="gap-2">
+                <Pencil className="w-4 h-4" />
+                Edit Farm
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Predictions</CardDescription>
+              <CardTitle className="text-2xl">{predictions.length}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Latest Yield</CardDescription>
+              <CardTitle className="text-2xl">
+                {latest ? `${latest.yield_per_hectare.toFixed(1)} tons/ha` : "—"}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Latest Total</CardDescription>
+              <CardTitle className="text-2xl">
+                {latest ? `${(latest.yield_per_hectare * area).toFixed(1)} tons` : "—"}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Prediction timeline */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Prediction Timeline</CardTitle>
+              <CardDescription>Every yield prediction made for this farm</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {chartData.length > 0 ? (
+                <ChartContainer config={chartConfig} className="h-[300px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="date" />
+                      <YAxis />
+                      <Tooltip />
+                      <Area
+                        type="monotone"
+                        dataKey="range"
+                        stroke="none"
+                        fill="hsl(var(--primary))"
+                        fillOpacity={0.15}
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="yield"
+                        stroke="hsl(var(--primary))"
+                        strokeWidth={2}
+                        dot={{ fill: "hsl(var(--primary))" }}
+                      />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </ChartContainer>
+              ) : (
+                <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+                  <div className="text-center">
+                    <BarChart3 className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                    <p>No predictions for this farm yet</p>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Re-run against a recorded soil test */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TestTube className="w-5 h-5 text-primary" />
+                Run Prediction
+              </CardTitle>
+              <CardDescription>Predict again from a recorded soil test</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="soil-test">Soil Test</Label>
+                <Select
+                  value={soilTestId}
+                  onValueChange={setSoilTestId}
+                  disabled={!!farm.archived_at || soilTests.length === 0}
+                >
+                  <SelectTrigger id="soil-test">
+                    <SelectValue placeholder="No soil tests yet" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...soilTests].reverse().map(test => (
+                      <SelectItem key={test.id} value={test.id}>
+                        {describeSoilTest(test)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setShowSoilTestDialog(true)}
+                disabled={!!farm.archived_at}
+                className="w-full gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                Record Soil Test
+              </Button>
+              <Button
+                onClick={handleRerun}
+                disabled={running || !canPredict || !!farm.archived_at}
+                className="w-full gap-2"
+              >
+                {running ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                {running ? "Predicting..." : "Re-run Prediction"}
+              </Button>
+              {farm.archived_at && (
+                <p className="text-sm text-muted-foreground">Restore this farm to run new predictions.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <SoilTrendCharts soilTests={soilTests} />
+
+          {/* Soil tests */}
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Soil Tests</CardTitle>
+                <CardDescription>Field readings and lab results for this farm</CardDescription>
+              </div>
+              {!farm.archived_at && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigate(`/soil-tests/import?farm=${farm.id}`)}
+                  className="gap-2"
+                >
+                  <FileUp className="w-4 h-4" />
+                  Import
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {soilTests.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">pH</TableHead>
+                      <TableHead className="text-right">OM (%)</TableHead>
+                      <TableHead className="text-right">N (%)</TableHead>
+                      <TableHead className="text-right">P</TableHead>
+                      <TableHead className="text-right">K</TableHead>
+                      <TableHead>Texture</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...soilTests].reverse().map(test => (
+                      <TableRow key={test.id}>
+                        <TableCell>
+                          <p>{new Date(test.tested_on).toLocaleDateString()}</p>
+                          {(test.lab || test.sampling_depth_cm != null) && (
+                            <p className="text-xs text-muted-foreground">
+                              {[test.lab, test.sampling_depth_cm != null && `${test.sampling_depth_cm} cm`]
+                                .filter(Boolean)
+                                .join(" • ")}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatReading(test.ph)}</TableCell>
+                        <TableCell className="text-right">{formatReading(test.organic_matter)}</TableCell>
+                        <TableCell className="text-right">{formatReading(test.nitrogen, 2)}</TableCell>
+                        <TableCell className="text-right">{formatReading(test.phosphorus, 0)}</TableCell>
+                        <TableCell className="text-right">{formatReading(test.potassium, 0)}</TableCell>
+                        <TableCell className="capitalize">{test.texture ?? "—"}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteSoilTest(test)}
+                            aria-label="Delete soil test"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-center py-8 text-muted-foreground">
+                  No soil tests recorded for this farm yet.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Prediction and soil history */}
+        {!farm.archived_at && (
+          <PremiumFeatureGate
+            feature="Monthly Forecasts"
+            description="Month-by-month yield projections across the growing season"
+            onUpgrade={() => setShowSubscriptionModal(true)}
+          >
+            <SeasonalForecastCard
+              farmId={farm.id}
+              canForecast={latestSoilTest != null && latestSoilTest.ph != null &&
+                latestSoilTest.moisture != null && latestSoilTest.organic_matter != null}
+            />
+          </PremiumFeatureGate>
+        )}
+
+        {!farm.archived_at && (
+          <PremiumFeatureGate
+            feature="Irrigation Planning"
+            description="Weekly irrigation volumes from crop water use and the rainfall forecast"
+            onUpgrade={() => setShowSubscriptionModal(true)}
+          >
+            <IrrigationSchedule farmId={farm.id} hasMoisture={latestSoilTest?.moisture != null} />
+          </PremiumFeatureGate>
+        )}
+
+        <GrowthStageCard farmId={farm.id} />
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <CalendarDays className="w-5 h-5 text-primary" />
+                Seasons
+              </CardTitle>
+              <CardDescription>Each planting on this farm, with its predictions and harvest</CardDescription>
+            </div>
+            {!farm.archived_at && (
+              <Button variant="outline" size="sm" onClick={() => openSeasonDialog(null)} className="gap-2">
+                <Plus className="w-4 h-4" />
+                New Season
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {seasons.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Season</TableHead>
+                    <TableHead>Planted</TableHead>
+                    <TableHead>Harvest</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Predictions</TableHead>
+                    <TableHead className="text-right">Latest (tons/ha)</TableHead>
+                    <TableHead className="text-right">Harvested (tons/ha)</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {seasons.map(season => {
+                    const seasonPredictions = predictions.filter(pred => pred.season_id === season.id);
+                    const latestPrediction = seasonPredictions[seasonPredictions.length - 1];
+                    const harvest = lastPicking(season.id);
+                    const harvested = seasonYield(harvests, season.id, area);
+                    const status = seasonStatus(season, harvest != null);
+                    return (
+                      <TableRow key={season.id}>
+                        <TableCell>
+                          <p>{describeSeason(season)}</p>
+                          {season.notes && <p className="text-xs text-muted-foreground">{season.notes}</p>}
+                        </TableCell>
+                        <TableCell>{new Date(season.planting_date).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          {new Date(harvest?.harvested_on ?? season.expected_harvest_date).toLocaleDateString()}
+                          {!harvest && <span className="block text-xs text-muted-foreground">Expected</span>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={status === "harvest_due" ? "destructive" : status === "harvested" ? "secondary" : "outline"}>
+                            {SEASON_STATUS_LABELS[status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{seasonPredictions.length}</TableCell>
+                        <TableCell className="text-right">
+                          {latestPrediction ? latestPrediction.yield_per_hectare.toFixed(1) : "—"}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatReading(harvested, 2)}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {!farm.archived_at && status !== "planned" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openHarvestDialog(season.id)}
+                              className="gap-1"
+                            >
+                              <Wheat className="w-4 h-4" />
+                              {harvest ? "Add Picking" : "Harvest"}
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openSeasonDialog(season)}
+                            disabled={!!farm.archived_at}
+                            aria-label="Edit season"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteSeason(season)}
+                            disabled={!!farm.archived_at}
+                            aria-label="Delete season"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-center py-8 text-muted-foreground">
+                Add a season when you plant so predictions, soil tests and the harvest are kept together.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <ActivityLog farmId={farm.id} readOnly={!!farm.archived_at} />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>History</CardTitle>
+            <CardDescription>Soil readings and results for each prediction</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {history.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Season</TableHead>
+                    <TableHead className="text-right">{SOIL_FACTOR_LABELS.ph}</TableHead>
+                    <TableHead className="text-right">{SOIL_FACTOR_LABELS.moisture} (%)</TableHead>
+                    <TableHead className="text-right">{SOIL_FACTOR_LABELS.organic_matter} (%)</TableHead>
+                    <TableHead className="text-right">Yield (tons/ha)</TableHead>
+                    <TableHead className="text-right">Likely Range</TableHead>
+                    <TableHead>Limiting Factor</TableHead>
+                    <TableHead>Model</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map(pred => (
+                    <TableRow key={pred.id}>
+                      <TableCell>{new Date(pred.created_at).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-xs">{describeSeason(seasonById(pred.season_id))}</TableCell>
+                      <TableCell className="text-right">{formatReading(pred.soil_ph)}</TableCell>
+                      <TableCell className="text-right">{formatReading(pred.soil_moisture)}</TableCell>
+                      <TableCell className="text-right">{formatReading(pred.organic_matter)}</TableCell>
+                      <TableCell className="text-right font-medium">{pred.yield_per_hectare.toFixed(1)}</TableCell>
+                      <TableCell className="text-right">
+                        {describeRange(pred)}
+                      </TableCell>
+                      <TableCell>
+                        {pred.limiting_factor ? soilFactorLabel(pred.limiting_factor) : "—"}
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{pred.model_version ?? "—"}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setScenarioPrediction(pred)}
+                          className="gap-1"
+                          disabled={!!farm.archived_at}
+                        >
+                          <FlaskConical className="w-4 h-4" />
+                          What if
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-center py-8 text-muted-foreground">
+                Run a prediction to start this farm's history.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Wheat className="w-5 h-5 text-primary" />
+                Harvests
+              </CardTitle>
+              <CardDescription>What was actually harvested, against the last prediction for the season</CardDescription>
+            </div>
+            {!farm.archived_at && (
+              <Button variant="outline" size="sm" onClick={() => openHarvestDialog(null)} className="gap-2">
+                <Plus className="w-4 h-4" />
+                Record Harvest
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {harvests.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Harvested</TableHead>
+                    <TableHead>Season</TableHead>
+                    <TableHead className="text-right">Quantity (tons)</TableHead>
+                    <TableHead className="text-right">Yield (tons/ha)</TableHead>
+                    <TableHead>Grade</TableHead>
+                    <TableHead className="text-right">Predicted (tons/ha)</TableHead>
+                    <TableHead className="text-right">Error</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {harvests.map(harvest => {
+                    // Predictions are scored once per season, on its last picking
+                    const prediction = lastPicking(harvest.season_id) === harvest
+                      ? lastPrediction(harvest.season_id)
+                      : undefined;
+                    const season = seasonById(harvest.season_id);
+                    return (
+                      <TableRow key={harvest.id}>
+                        <TableCell>
+                          <p>{new Date(harvest.harvested_on).toLocaleDateString()}</p>
+                          {season && (
+                            <p className="text-xs text-muted-foreground">
+                              Planted {new Date(season.planting_date).toLocaleDateString()}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>{describeSeason(season)}</TableCell>
+                        <TableCell className="text-right">{formatReading(harvest.quantity_tonnes, 2)}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatReading(harvest.yield_per_hectare, 2)}
+                          {prediction?.actual_yield != null &&
+                            formatReading(prediction.actual_yield, 2) !== formatReading(harvest.yield_per_hectare, 2) && (
+                            <span className="block text-xs font-normal text-muted-foreground">
+                              {formatReading(prediction.actual_yield, 2)} for the season
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>{qualityGradeLabel(harvest.quality_grade)}</TableCell>
+                        <TableCell className="text-right">
+                          {prediction?.predicted_yield != null ? (
+                            <>
+                              {Number(prediction.predicted_yield).toFixed(2)}
+                              {prediction.within_interval != null && (
+                                <span className="block text-xs text-muted-foreground">
+                                  {prediction.within_interval ? "Within" : "Outside"} the likely range
+                                </span>
+                              )}
+                            </>
+                          ) : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {prediction?.error != null ? (
+                            <>
+                              {formatError(Number(prediction.error))}
+                              {prediction.absolute_percentage_error != null && (
+                                <span className="block text-xs text-muted-foreground">
+                                  {(Number(prediction.absolute_percentage_error) * 100).toFixed(0)}% off
+                                </span>
+                              )}
+                            </>
+                          ) : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteHarvest(harvest)}
+                            aria-label="Delete harvest"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-center py-8 text-muted-foreground">
+                Record a harvest to see how close this farm's predictions were.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <FarmFormDialog
+        isOpen={showFarmDialog}
+        onClose={() => setShowFarmDialog(false)}
+        farm={farm}
+      />
+      <SoilTestDialog
+        isOpen={showSoilTestDialog}
+        onClose={() => setShowSoilTestDialog(false)}
+        farmId={farm.id}
+        onSaved={(test) => setSoilTestId(test.id)}
+      />
+      <HarvestDialog
+        isOpen={showHarvestDialog}
+        onClose={() => setShowHarvestDialog(false)}
+        farmId={farm.id}
+        areaHectares={area}
+        seasonId={harvestSeasonId}
+      />
+      <SeasonDialog
+        isOpen={showSeasonDialog}
+        onClose={() => setShowSeasonDialog(false)}
+        farmId={farm.id}
+        cropId={farm.crop_type}
+        season={editingSeason}
+      />
+      <ScenarioDialog
+        isOpen={scenarioPrediction != null}
+        onClose={() => setScenarioPrediction(null)}
+        farmId={farm.id}
+        cropId={farm.crop_type}
+        prediction={scenarioPrediction}
+      />
+      <SubscriptionModal
+        isOpen={showSubscriptionModal}
+        onClose={() => setShowSubscriptionModal(false)}
+      />
+    </div>
+  );
+};
+
+export default FarmDetail;
@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Leaf, Plus, Pencil, Archive, ArchiveRestore, BarChart3, MapPin, FileUp, Coins } from "lucide-react";
+import FarmFormDialog from "@/components/FarmFormDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useCrops } from "@/hooks/useCrops";
+import { useFarms, type Farm } from "@/hooks/useFarms";
+import { useToast } from "@/hooks/use-toast";
+
+const Farms = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { cropName } = useCrops();
+  const { farms, activeFarms, loading, archiveFarm, restoreFarm } = useFarms();
+  const [editingFarm, setEditingFarm] = useState<Farm | null>(null);
+  const [showFarmDialog, setShowFarmDialog] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+    }
+  }, [user, navigate]);
+
+  const archivedFarms = farms.filter(farm => farm.archived_at);
+
+  const openDialog = (farm: Farm | null) => {
+    setEditingFarm(farm);
+    setShowFarmDialog(true);
+  };
+
+  const handleArchive = async (farm: Farm, archived: boolean) => {
+    try {
+      await (archived ? archiveFarm(farm.id) : restoreFarm(farm.id));
+      toast({
+        title: archived ? "Farm Archived" : "Farm Restored",
+        description: archived
+          ? `${farm.name} is hidden from new predictions. Its history is kept.`
+          : `${farm.name} is active again.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update farm",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderFarm = (farm: Farm) => (
+    <div key={farm.id} className="flex flex-col md:flex-row md:items-center justify-between gap-4 p-4 rounded-lg border">
+      <div className="flex items-center gap-4">
+        <div className="p-3 rounded-full bg-primary/10">
+          <Leaf className="w-5 h-5 text-primary" />
+        </div>
+        <div>
+          <Link to={`/farms/${farm.id}`} className="font-medium hover:underline">
+            {farm.name}
+          </Link>
+          <p className="text-sm text-muted-foreground">
+            {cropName(farm.crop_type)} • {farm.boundary_area_hectares ?? farm.area_hectares} ha
+            {farm.boundary_area_hectares != null && " (measured)"}
+          </p>
+          <p className="text-sm text-muted-foreground flex items-center gap-1">
+            <MapPin className="w-3 h-3" />
+            {farm.location}
+            {farm.admin_region && ` • ${farm.admin_region} County`}
+          </p>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {farm.archived_at ? (
+          <Button variant="outline" size="sm" onClick={() => handleArchive(farm, false)}>
+            <ArchiveRestore className="w-4 h-4 mr-1" />
+            Restore
+          </Button>
+        ) : (
+          <>
+            <Button size="sm" onClick={() => navigate("/", { state: { farmId: farm.id } })}>
+              <BarChart3 className="w-4 h-4 mr-1" />
+              Predict
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => openDialog(farm)}>
+              <Pencil className="w-4 h-4 mr-1" />
+              Edit
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => handleArchive(farm, true)}>
+              <Archive className="w-4 h-4 mr-1" />
+              Archive
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background to-muted/50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/50">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Your Farms</h1>
+            <p className="text-muted-foreground">Create, edit and archive the land you farm</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => navigate("/soil-tests/import")} className="gap-2">
+              <FileUp className="w-4 h-4" />
+              Import Lab Results
+            </Button>
+            <Button variant="outline" onClick={() => navigate("/market-prices/import")} className="gap-2">
+              <Coins className="w-4 h-4" />
+              Import Prices
+            </Button>
+            <Button onClick={() => openDialog(null)} className="gap-2">
+              <Plus className="w-4 h-4" />
+              New Farm
+            </Button>
+          </div>
+        </div>
+
+        <Tabs defaultValue="active">
+          <TabsList>
+            <TabsTrigger value="active">
+              Active <Badge variant="secondary" className="ml-2">{activeFarms.length}</Badge>
+            </TabsTrigger>
+            <TabsTrigger value="archived">
+              Archived <Badge variant="secondary" className="ml-2">{archivedFarms.length}</Badge>
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="active">
+            <Card>
+              <CardHeader>
+                <CardTitle>Active Farms</CardTitle>
+                <CardDescription>Available when creating predictions</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {activeFarms.map(renderFarm)}
+                {activeFarms.length === 0 && (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Leaf className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                    <p>No farms yet. Add your first farm to start predicting yields.</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="archived">
+            <Card>
+              <CardHeader>
+                <CardTitle>Archived Farms</CardTitle>
+                <CardDescription>Kept for their prediction history</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {archivedFarms.map(renderFarm)}
+                {archivedFarms.length === 0 && (
+                  <p className="text-center py-8 text-muted-foreground">No archived farms.</p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <FarmFormDialog
+        isOpen={showFarmDialog}
+        onClose={() => setShowFarmDialog(false)}
+        farm={editingFarm}
+      />
+    </div>
+  );
+};
+
+export default Farms;
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useLocation } from "react-router-dom";
 import HeroSection from "@/components/HeroSection";
 import PredictionForm from "@/components/PredictionForm";
 import ResultsDisplay from "@/components/ResultsDisplay";
@@ -7,7 +8,9 @@ import SubscriptionModal from "@/components/SubscriptionModal";
 type AppState = "hero" | "form" | "results";
 
 const Index = () => {
-  const [currentState, setCurrentState] = useState<AppState>("hero");
+  // Links from a farm open the form directly with that farm selected
+  const initialFarmId: string | undefined = useLocation().state?.farmId;
+  const [currentState, setCurrentState] = useState<AppState>(initialFarmId ? "form" : "hero");
   const [predictionResult, setPredictionResult] = useState<any>(null);
   const [showSubscriptionModal, setShowSubscriptionModal] = useState(false);
 
@@ -38,7 +41,7 @@ const Index = () => {
       case "hero":
         return <HeroSection onGetStarted={handleGetStarted} />;
       case "form":
-        return <PredictionForm onPrediction={handlePrediction} />;
+        return <PredictionForm onPrediction={handlePrediction} initialFarmId={initialFarmId} />;
       case "results":
         return (
           <ResultsDisplay 
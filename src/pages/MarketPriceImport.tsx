@@ -0,0 +1,377 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ArrowLeft, CheckCircle2, Coins, Loader2, Upload } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useCrops } from "@/hooks/useCrops";
+import { useMarketPrices } from "@/hooks/useMarketPrices";
+import { useToast } from "@/hooks/use-toast";
+import { parseDelimited } from "@/lib/lab-import";
+import {
+  PRICE_FIELD_LABELS,
+  PRICE_UNITS,
+  convertPriceRows,
+  guessDefaultUnit,
+  guessPriceMappings,
+  type PriceColumnMapping,
+  type PriceField,
+} from "@/lib/price-import";
+import { formatKes } from "@/lib/revenue";
+
+type Step = "source" | "mapping" | "preview";
+
+const IGNORE = "ignore";
+
+const MarketPriceImport = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { crops, cropName } = useCrops();
+  const { prices, importPrices, importing } = useMarketPrices();
+  const [step, setStep] = useState<Step>("source");
+  const [text, setText] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mappings, setMappings] = useState<PriceColumnMapping[]>([]);
+  const [defaultMarket, setDefaultMarket] = useState("");
+  const [defaultUnit, setDefaultUnit] = useState("90kg bag");
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+    }
+  }, [user, navigate]);
+
+  const converted = useMemo(
+    () => convertPriceRows(rows, mappings, crops, { market: defaultMarket, unit: defaultUnit }),
+    [rows, mappings, crops, defaultMarket, defaultUnit]
+  );
+  const validRows = converted.filter(row => row.errors.length === 0);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+  };
+
+  const handleParse = () => {
+    const [headerRow, ...dataRows] = parseDelimited(text);
+    if (!headerRow || dataRows.length === 0) {
+      toast({
+        title: "Nothing to Import",
+        description: "Paste or upload a price list with a header row and at least one price.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const guessed = guessPriceMappings(headerRow);
+    setHeaders(headerRow);
+    setRows(dataRows);
+    setMappings(guessed);
+    setDefaultUnit(guessDefaultUnit(headerRow, guessed));
+    setStep("mapping");
+  };
+
+  const handleFieldChange = (index: number, value: string) => {
+    const field = value === IGNORE ? null : (value as PriceField);
+    setMappings(prev => prev.map((mapping, i) => (i === index ? { field } : mapping)));
+  };
+
+  const handleImport = async () => {
+    try {
+      const imported = await importPrices(
+        validRows.map(({ values }) => ({
+          crop_id: values.crop_id!,
+          market: values.market!,
+          price_date: values.price_date!,
+          price: values.price!,
+          unit: values.unit!,
+          unit_kg: values.unit_kg!,
+        }))
+      );
+      toast({
+        title: "Prices Imported",
+        description: `${imported.length} price${imported.length === 1 ? "" : "s"} recorded. New predictions use the latest price for each crop.`,
+      });
+      setStep("source");
+      setText("");
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Failed to import prices",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const mapsMarket = mappings.some(mapping => mapping.field === "market");
+  const mapsUnit = mappings.some(mapping => mapping.field === "unit");
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        <Button variant="ghost" size="sm" onClick={() => navigate(-1)} className="gap-2">
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Import Market Prices</h1>
+          <p className="text-muted-foreground">
+            Load a market price list so revenue projections use the prices you sell at
+          </p>
+        </div>
+
+        {step === "source" && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Coins className="w-5 h-5 text-primary" />
+                  Price List
+                </CardTitle>
+                <CardDescription>
+                  Upload a CSV file or paste the table. The first row must hold the column headings.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.txt,text/csv,text/plain"
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                  className="text-sm"
+                />
+                <Textarea
+                  rows={10}
+                  placeholder={"Commodity,Market,Date,Unit,Wholesale (KES)\nDry Maize,Eldoret,03/10/2026,90kg bag,3800\nBeans,Nairobi,03/10/2026,90kg bag,9500"}
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  className="font-mono text-xs"
+                />
+                <Button onClick={handleParse} disabled={!text.trim()}>
+                  Continue
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Recent Prices</CardTitle>
+                <CardDescription>Your imports and the shared reference prices</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {prices.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Crop</TableHead>
+                        <TableHead>Market</TableHead>
+                        <TableHead className="text-right">Price</TableHead>
+                        <TableHead className="text-right">Per Tonne</TableHead>
+                        <TableHead>Source</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {prices.map(price => (
+                        <TableRow key={price.id}>
+                          <TableCell>{new Date(price.price_date).toLocaleDateString()}</TableCell>
+                          <TableCell>{cropName(price.crop_id)}</TableCell>
+                          <TableCell>{price.market}</TableCell>
+                          <TableCell className="text-right">
+                            {formatKes(price.price)} {PRICE_UNITS[price.unit]?.label ?? `per ${price.unit}`}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {formatKes((Number(price.price) * 1000) / Number(price.unit_kg))}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{price.user_id ? "Imported" : "Shared"}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <p className="text-center py-8 text-muted-foreground">
+                    No market prices yet; projections use typical farm-gate prices.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {step === "mapping" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Match Columns</CardTitle>
+              <CardDescription>
+                Check what each column holds. Prices are stored with their unit and compared per tonne.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Sample</TableHead>
+                    <TableHead>Imports As</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {headers.map((header, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="font-medium">{header || `Column ${index + 1}`}</TableCell>
+                      <TableCell className="text-muted-foreground">{rows[0]?.[index]}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={mappings[index].field ?? IGNORE}
+                          onValueChange={(value) => handleFieldChange(index, value)}
+                        >
+                          <SelectTrigger className="w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={IGNORE}>Don't import</SelectItem>
+                            {(Object.keys(PRICE_FIELD_LABELS) as PriceField[]).map(option => (
+                              <SelectItem key={option} value={option}>
+                                {PRICE_FIELD_LABELS[option]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-2xl">
+                <div className="space-y-2">
+                  <Label htmlFor="default-market">Market</Label>
+                  <Input
+                    id="default-market"
+                    placeholder="e.g. Eldoret"
+                    value={defaultMarket}
+                    onChange={(e) => setDefaultMarket(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {mapsMarket ? "Used for rows with an empty Market column." : "Every row is priced at this market."}
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="default-unit">Unit</Label>
+                  <Select value={defaultUnit} onValueChange={setDefaultUnit}>
+                    <SelectTrigger id="default-unit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PRICE_UNITS).map(([key, { label }]) => (
+                        <SelectItem key={key} value={key}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {mapsUnit ? "Used for rows with an empty Unit column." : "What each price is quoted for."}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setStep("source")}>
+                  Back
+                </Button>
+                <Button onClick={() => setStep("preview")}>
+                  Preview
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "preview" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+              <CardDescription>
+                {validRows.length} of {converted.length} rows are ready to import. Rows with
+                problems are skipped.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Crop</TableHead>
+                      <TableHead>Market</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead className="text-right">Per Tonne</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {converted.map(row => (
+                      <TableRow key={row.line} className={row.errors.length > 0 ? "bg-destructive/5" : undefined}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell>{row.values.crop_id ? cropName(row.values.crop_id) : "—"}</TableCell>
+                        <TableCell>{row.values.market ?? "—"}</TableCell>
+                        <TableCell>{row.values.price_date ?? "—"}</TableCell>
+                        <TableCell className="text-right">
+                          {row.values.price != null
+                            ? `${formatKes(row.values.price)} ${PRICE_UNITS[row.values.unit!].label}`
+                            : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {row.values.price != null ? formatKes((row.values.price * 1000) / row.values.unit_kg!) : "—"}
+                        </TableCell>
+                        <TableCell className="min-w-[200px]">
+                          {row.errors.length === 0 ? (
+                            <Badge variant="outline" className="border-success/50 text-success gap-1">
+                              <CheckCircle2 className="w-3 h-3" />
+                              Ready
+                            </Badge>
+                          ) : (
+                            <div className="text-xs text-destructive space-y-1">
+                              {row.errors.map(error => <p key={error}>{error}</p>)}
+                            </div>
+                          )}
+                          {row.warnings.map(warning => (
+                            <p key={warning} className="text-xs text-warning flex items-center gap-1 mt-1">
+                              <AlertTriangle className="w-3 h-3" />
+                              {warning}
+                            </p>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setStep("mapping")}>
+                  Back
+                </Button>
+                <Button onClick={handleImport} disabled={importing || validRows.length === 0} className="gap-2">
+                  {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  Import {validRows.length} Price{validRows.length === 1 ? "" : "s"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MarketPriceImport;
@@ -0,0 +1,326 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/enhanced-button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ArrowLeft, CheckCircle2, FileUp, Loader2, Upload } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useFarms } from "@/hooks/useFarms";
+import { useImportSoilTests, type SoilTestInput } from "@/hooks/useSoilTests";
+import { useToast } from "@/hooks/use-toast";
+import {
+  IMPORT_FIELD_LABELS,
+  IMPORT_UNITS,
+  convertRows,
+  detectUnit,
+  guessMappings,
+  isMeasure,
+  parseDelimited,
+  type ColumnMapping,
+  type ImportField,
+} from "@/lib/lab-import";
+
+type Step = "source" | "mapping" | "preview";
+
+const IGNORE = "ignore";
+const NO_FARM = "none";
+
+const SoilTestImport = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { toast } = useToast();
+  const { activeFarms } = useFarms();
+  const { importSoilTests, importing } = useImportSoilTests();
+  const [step, setStep] = useState<Step>("source");
+  const [text, setText] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mappings, setMappings] = useState<ColumnMapping[]>([]);
+  const [defaultFarmId, setDefaultFarmId] = useState<string>(searchParams.get("farm") ?? NO_FARM);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+    }
+  }, [user, navigate]);
+
+  const converted = useMemo(
+    () => convertRows(rows, mappings, activeFarms, defaultFarmId === NO_FARM ? null : defaultFarmId),
+    [rows, mappings, activeFarms, defaultFarmId]
+  );
+  const validRows = converted.filter(row => row.errors.length === 0);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+  };
+
+  const handleParse = () => {
+    const [headerRow, ...dataRows] = parseDelimited(text);
+    if (!headerRow || dataRows.length === 0) {
+      toast({
+        title: "Nothing to Import",
+        description: "Paste or upload a table with a header row and at least one result.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setHeaders(headerRow);
+    setRows(dataRows);
+    setMappings(guessMappings(headerRow, dataRows));
+    setStep("mapping");
+  };
+
+  const handleFieldChange = (index: number, value: string) => {
+    const field = value === IGNORE ? null : (value as ImportField);
+    setMappings(prev => prev.map((mapping, i) =>
+      i === index ? { field, unit: detectUnit(field, headers[index], rows, index) } : mapping
+    ));
+  };
+
+  const handleUnitChange = (index: number, unit: string) => {
+    setMappings(prev => prev.map((mapping, i) => (i === index ? { ...mapping, unit } : mapping)));
+  };
+
+  const handleImport = async () => {
+    try {
+      const imported = await importSoilTests(
+        validRows.map(row => ({ ...(row.values as SoilTestInput), farm_id: row.farm_id! }))
+      );
+      toast({
+        title: "Lab Results Imported",
+        description: `${imported.length} soil test${imported.length === 1 ? "" : "s"} recorded.`,
+      });
+      navigate(defaultFarmId !== NO_FARM ? `/farms/${defaultFarmId}` : "/farms");
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Failed to import soil tests",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const mappedColumns = mappings
+    .map((mapping, index) => ({ ...mapping, index }))
+    .filter(mapping => mapping.field && mapping.field !== "farm");
+  const farmName = (id: string | null) => activeFarms.find(farm => farm.id === id)?.name ?? "—";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/50">
+      <div className="container mx-auto px-4 py-8 max-w-6xl space-y-6">
+        <Button variant="ghost" size="sm" onClick={() => navigate(-1)} className="gap-2">
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Import Lab Results</h1>
+          <p className="text-muted-foreground">
+            Turn a soil lab's CSV export, or a table copied from its PDF report, into soil tests
+          </p>
+        </div>
+
+        {step === "source" && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileUp className="w-5 h-5 text-primary" />
+                Lab Report
+              </CardTitle>
+              <CardDescription>
+                Upload a CSV file or paste the table. The first row must hold the column headings.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/plain"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                className="text-sm"
+              />
+              <Textarea
+                rows={10}
+                placeholder={"Farm,Date,pH,OC (%),Total N (%),Olsen P (ppm),K (meq/100g)\nHome Farm,03/09/2026,5.6,1.8,0.14,12,0.45"}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                className="font-mono text-xs"
+              />
+              <Button onClick={handleParse} disabled={!text.trim()}>
+                Continue
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "mapping" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Match Columns</CardTitle>
+              <CardDescription>
+                Check what each column holds and the unit it was reported in. Values are converted
+                to the units soil tests are stored in.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Sample</TableHead>
+                    <TableHead>Imports As</TableHead>
+                    <TableHead>Unit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {headers.map((header, index) => {
+                    const { field, unit } = mappings[index];
+                    const units = isMeasure(field) ? IMPORT_UNITS[field] : undefined;
+                    return (
+                      <TableRow key={index}>
+                        <TableCell className="font-medium">{header || `Column ${index + 1}`}</TableCell>
+                        <TableCell className="text-muted-foreground">{rows[0]?.[index]}</TableCell>
+                        <TableCell>
+                          <Select value={field ?? IGNORE} onValueChange={(value) => handleFieldChange(index, value)}>
+                            <SelectTrigger className="w-48">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={IGNORE}>Don't import</SelectItem>
+                              {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map(option => (
+                                <SelectItem key={option} value={option}>
+                                  {IMPORT_FIELD_LABELS[option]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          {units && unit && (
+                            <Select value={unit} onValueChange={(value) => handleUnitChange(index, value)}>
+                              <SelectTrigger className="w-48">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.entries(units).map(([key, { label }]) => (
+                                  <SelectItem key={key} value={key}>{label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              <div className="space-y-2 max-w-sm">
+                <Label htmlFor="default-farm">Farm</Label>
+                <Select value={defaultFarmId} onValueChange={setDefaultFarmId}>
+                  <SelectTrigger id="default-farm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_FARM}>Use the Farm column</SelectItem>
+                    {activeFarms.map(farm => (
+                      <SelectItem key={farm.id} value={farm.id}>{farm.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Rows whose Farm column names one of your farms go to that farm; the rest go here.
+                </p>
+              </div>
+
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setStep("source")}>
+                  Back
+                </Button>
+                <Button onClick={() => setStep("preview")}>
+                  Preview
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "preview" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+              <CardDescription>
+                {validRows.length} of {converted.length} rows are ready to import. Rows with
+                problems are skipped.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Farm</TableHead>
+                      {mappedColumns.map(({ field, index }) => (
+                        <TableHead key={index}>{IMPORT_FIELD_LABELS[field!]}</TableHead>
+                      ))}
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {converted.map(row => (
+                      <TableRow key={row.line} className={row.errors.length > 0 ? "bg-destructive/5" : undefined}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell>{farmName(row.farm_id)}</TableCell>
+                        {mappedColumns.map(({ field, index }) => (
+                          <TableCell key={index} className="capitalize">
+                            {row.values[field as keyof typeof row.values] ?? "—"}
+                          </TableCell>
+                        ))}
+                        <TableCell className="min-w-[200px]">
+                          {row.errors.length === 0 ? (
+                            <Badge variant="outline" className="border-success/50 text-success gap-1">
+                              <CheckCircle2 className="w-3 h-3" />
+                              Ready
+                            </Badge>
+                          ) : (
+                            <div className="text-xs text-destructive space-y-1">
+                              {row.errors.map(error => <p key={error}>{error}</p>)}
+                            </div>
+                          )}
+                          {row.warnings.map(warning => (
+                            <p key={warning} className="text-xs text-warning flex items-center gap-1 mt-1">
+                              <AlertTriangle className="w-3 h-3" />
+                              {warning}
+                            </p>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setStep("mapping")}>
+                  Back
+                </Button>
+                <Button onClick={handleImport} disabled={importing || validRows.length === 0} className="gap-2">
+                  {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                  Import {validRows.length} Soil Test{validRows.length === 1 ? "" : "s"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SoilTestImport;
@@ -0,0 +1,71 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export type ActivityType = 'planting' | 'fertilizer' | 'spraying' | 'irrigation' | 'weeding' | 'harvest';
+
+// A row of public.farm_activities. Cost is KES for the whole farm; rate is
+// per hectare in rate_unit.
+export interface FarmActivity {
+  id: string;
+  farm_id: string;
+  user_id: string;
+  season_id: string | null;
+  activity_type: ActivityType;
+  performed_on: string;
+  product: string | null;
+  rate: number | null;
+  rate_unit: 'kg_per_ha' | 'l_per_ha' | 'mm' | null;
+  // N-P2O5-K2O, % by weight
+  analysis: [number, number, number] | null;
+  cost: number | null;
+  notes: string | null;
+}
+
+// What a season's logged activities add up to
+export interface ActivitySummary {
+  // Nutrients applied as fertilizer, kg/ha
+  applied: { n: number; p2o5: number; k2o: number };
+  // Recorded spending in KES for the whole farm, fertilizer apart from the
+  // rest
+  costs: { fertilizer: number; other: number };
+}
+
+export const fetchSeasonActivities = async (client: SupabaseClient, seasonId: string) => {
+  const { data, error } = await client
+    .from('farm_activities')
+    .select('*')
+    .eq('season_id', seasonId)
+    .order('performed_on');
+
+  if (error) throw error;
+  return (data ?? []) as FarmActivity[];
+};
+
+export const summarizeActivities = (activities: FarmActivity[]): ActivitySummary => {
+  const applied = { n: 0, p2o5: 0, k2o: 0 };
+  const costs = { fertilizer: 0, other: 0 };
+
+  for (const activity of activities) {
+    const cost = Number(activity.cost ?? 0);
+    if (activity.activity_type === 'fertilizer') {
+      costs.fertilizer += cost;
+      if (activity.rate != null && activity.analysis) {
+        const [n, p2o5, k2o] = activity.analysis.map(Number);
+        const rate = Number(activity.rate);
+        applied.n += (rate * n) / 100;
+        applied.p2o5 += (rate * p2o5) / 100;
+        applied.k2o += (rate * k2o) / 100;
+      }
+    } else {
+      costs.other += cost;
+    }
+  }
+
+  return {
+    applied: {
+      n: Math.round(applied.n),
+      p2o5: Math.round(applied.p2o5),
+      k2o: Math.round(applied.k2o),
+    },
+    costs: { fertilizer: Math.round(costs.fertilizer), other: Math.round(costs.other) },
+  };
+};
@@ -0,0 +1,101 @@
+import type { CropProfile } from "./crops.ts";
+import { recommendFertilizer } from "./fertilizer.ts";
+import { cropPrice, type CropPrice, type MarketPrice } from "./market-prices.ts";
+import type { SoilNutrients } from "./response-curves.ts";
+import { projectRevenue } from "./revenue.ts";
+import { selectCalibratedModel, type ModelCalibration } from "./yield-models/calibration.ts";
+import type { YieldInterval } from "./yield-models/registry.ts";
+import type { DailyWeather, WeatherSummary } from "./weather/index.ts";
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export interface CropOption {
+  rank: number;
+  crop_id: string;
+  crop: string;
+  model_version: string;
+  yield_per_hectare: number;
+  interval: YieldInterval;
+  total_yield: number;
+  price: CropPrice;
+  // Whole-farm revenue (KES) at the yield's P10, P50 and P90
+  revenue: { p10: number; p50: number; p90: number };
+  // Whole-farm input costs (KES): the crop's base costs plus the fertilizer
+  // and lime this soil needs for its typical yield
+  input_costs: number;
+  // Revenue less input costs (KES) at the yield's P10, P50 and P90
+  margin: { p10: number; p50: number; p90: number };
+  risk: RiskLevel;
+  limiting_factor: string;
+}
+
+export interface ComparisonInput {
+  crops: CropProfile[];
+  // Latest market price per crop id; crops without one use their reference price
+  prices: Map<string, MarketPrice>;
+  // Active model calibrations, keyed by calibrationKey
+  calibrations: Map<string, ModelCalibration>;
+  areaHa: number;
+  soilPh: number;
+  soilMoisture: number;
+  organicMatter: number;
+  nutrients: SoilNutrients;
+  weather: WeatherSummary;
+  dailyWeather: DailyWeather[];
+}
+
+// Relative error of the yield above which a crop counts as medium and high
+// risk on this field
+const MEDIUM_RISK = 0.3;
+const HIGH_RISK = 0.4;
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export const riskLevel = (interval: YieldInterval): RiskLevel =>
+  interval.relative_error >= HIGH_RISK ? 'high' : interval.relative_error >= MEDIUM_RISK ? 'medium' : 'low';
+
+// Runs every catalogue crop through its yield model on the same soil and
+// weather, and ranks them by expected margin at market prices
+export const compareCrops = ({ crops, prices, calibrations, areaHa, ...inputs }: ComparisonInput): CropOption[] =>
+  crops
+    .map((crop) => {
+      const model = selectCalibratedModel(crop.id, calibrations);
+      const result = model.predict({ crop, areaHa, ...inputs });
+      const price = cropPrice(crop, prices.get(crop.id));
+      const revenue = (yieldPerHa: number) => Math.round(yieldPerHa * areaHa * price.price_per_tonne);
+      const fertilizer = recommendFertilizer({
+        crop,
+        areaHa,
+        targetYield: Number(crop.base_yield),
+        soilPh: inputs.soilPh,
+        organicMatter: inputs.organicMatter,
+        nutrients: inputs.nutrients,
+      });
+      const projection = projectRevenue({ crop, areaHa, interval: result.interval, price, fertilizer });
+
+      return {
+        rank: 0,
+        crop_id: crop.id,
+        crop: crop.display_name,
+        model_version: model.version,
+        yield_per_hectare: result.yield_per_hectare,
+        interval: result.interval,
+        total_yield: round(result.yield_per_hectare * areaHa),
+        price,
+        revenue: {
+          p10: revenue(result.interval.p10),
+          p50: revenue(result.interval.p50),
+          p90: revenue(result.interval.p90),
+        },
+        input_costs: projection.per_farm.input_costs,
+        margin: {
+          p10: projection.margin_range.p10,
+          p50: projection.per_farm.margin,
+          p90: projection.margin_range.p90,
+        },
+        risk: riskLevel(result.interval),
+        limiting_factor: result.soil_response.limiting_factor,
+      };
+    })
+    .sort((a, b) => b.margin.p50 - a.margin.p50)
+    .map((option, i) => ({ ...option, rank: i + 1 }));
@@ -0,0 +1,65 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { ResponseCurves } from "./response-curves.ts";
+
+// A row of the public.crops catalogue
+export interface CropProfile {
+  id: string;
+  display_name: string;
+  yield_unit: string;
+  base_yield: number;
+  optimal_ph_min: number;
+  optimal_ph_max: number;
+  optimal_moisture_min: number;
+  optimal_moisture_max: number;
+  optimal_organic_min: number;
+  optimal_organic_max: number;
+  // Nutrient uptake per tonne of harvested yield (kg), for fertilizer budgets
+  n_uptake: number;
+  p2o5_uptake: number;
+  k2o_uptake: number;
+  // FAO-56 crop coefficients and stage lengths (initial, development, mid,
+  // late; days), for the irrigation water balance
+  kc_initial: number;
+  kc_mid: number;
+  kc_end: number;
+  stage_days: [number, number, number, number];
+  root_depth_m: number;
+  // Share of available water the crop can use before it is stressed
+  depletion_fraction: number;
+  // Typical farm-gate price (KES per tonne), for revenue comparisons
+  reference_price_per_tonne: number;
+  // Seed, land preparation, labour and crop protection (KES per hectare)
+  base_input_cost_per_ha: number;
+  // Moisture (%) grain yields are quoted at; null for crops sold fresh
+  standard_moisture: number | null;
+  // Growing degree days (°C): development counts mean temperature above the
+  // base, up to the maximum, and the typical variety matures at gdd_to_maturity
+  base_temperature: number;
+  max_temperature: number;
+  gdd_to_maturity: number;
+  response_curves: ResponseCurves | null;
+}
+
+export const fetchCrop = async (client: SupabaseClient, id: string) => {
+  const { data, error } = await client
+    .from('crops')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new Error(`Unknown crop: ${id}`);
+  }
+  return data as CropProfile;
+};
+
+export const fetchCrops = async (client: SupabaseClient) => {
+  const { data, error } = await client
+    .from('crops')
+    .select('*')
+    .order('display_name');
+
+  if (error) throw error;
+  return (data ?? []) as CropProfile[];
+};
@@ -0,0 +1,111 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { fetchCrop } from "./crops.ts";
+import { resolveLocation, type ResolvedLocation } from "./geo/geocode.ts";
+import {
+  areaMismatch,
+  boundaryAreaHectares,
+  boundaryCentroid,
+  validateBoundary,
+  type BoundaryGeometry
+} from "./geo/area.ts";
+
+// A row of public.farms as the edge functions use it
+export interface Farm {
+  id: string;
+  user_id: string;
+  name: string;
+  location: string;
+  latitude: number | null;
+  longitude: number | null;
+  admin_region: string | null;
+  crop_type: string;
+  area_hectares: number;
+  boundary: BoundaryGeometry | null;
+  boundary_area_hectares: number | null;
+  archived_at: string | null;
+}
+
+// Farm details as submitted by the farm form
+export interface FarmInput {
+  name: string;
+  location: string;
+  crop: string;
+  area_ha?: number | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  boundary?: unknown;
+}
+
+export const fetchFarm = async (client: SupabaseClient, id: string) => {
+  const { data, error } = await client
+    .from('farms')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new Error(`Farm not found: ${id}`);
+  }
+  return data as Farm;
+};
+
+// Area predictions should use: measured from the boundary when there is one
+export const farmArea = (farm: Farm) =>
+  Number(farm.boundary_area_hectares ?? farm.area_hectares);
+
+// Coordinates stored on the farm, or resolved from its text for farms
+// created before geocoding
+export const farmLocation = (farm: Farm): ResolvedLocation =>
+  farm.latitude != null && farm.longitude != null
+    ? {
+      latitude: Number(farm.latitude),
+      longitude: Number(farm.longitude),
+      place: farm.location,
+      admin_region: farm.admin_region ?? '',
+    }
+    : resolveLocation(farm.location);
+
+// Validates the form input and derives the stored location and area columns
+export const resolveFarmFields = async (client: SupabaseClient, input: FarmInput) => {
+  if (!input.name?.trim()) {
+    throw new Error("Farm name is required");
+  }
+  const crop = await fetchCrop(client, input.crop);
+
+  // A drawn or imported boundary fixes the area and, without device
+  // coordinates, the farm's position
+  const boundary = input.boundary ? validateBoundary(input.boundary) : null;
+  const boundaryArea = boundary ? boundaryAreaHectares(boundary) : null;
+  const area = input.area_ha || boundaryArea;
+  if (!area || area <= 0) {
+    throw new Error("Farm area must be greater than zero");
+  }
+
+  const mismatch = boundaryArea ? areaMismatch(input.area_ha, boundaryArea) : null;
+  const area_warning = mismatch
+    ? `Entered area ${input.area_ha} ha differs from the boundary area ${boundaryArea} ha by ${Math.round(mismatch * 100)}%; the boundary area will be used for yields.`
+    : null;
+
+  const location = resolveLocation(
+    input.location,
+    input.latitude != null && input.longitude != null
+      ? { latitude: input.latitude, longitude: input.longitude }
+      : boundary ? boundaryCentroid(boundary) : null
+  );
+
+  return {
+    fields: {
+      name: input.name.trim(),
+      location: input.location,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      admin_region: location.admin_region,
+      crop_type: crop.id,
+      area_hectares: area,
+      boundary,
+      boundary_area_hectares: boundaryArea,
+    },
+    area_warning,
+  };
+};
@@ -0,0 +1,204 @@
+import type { CropProfile } from "./crops.ts";
+import type { SoilNutrients } from "./response-curves.ts";
+import { soilNitrogenSupply } from "./soil-nitrogen.ts";
+
+export interface FertilizerProduct {
+  id: string;
+  name: string;
+  // N-P2O5-K2O, % by weight
+  analysis: [number, number, number];
+  // Typical retail price of a 50 kg bag (KES)
+  price_per_bag: number;
+}
+
+// Straight and compound fertilizers stocked by Kenyan agro-dealers
+export const FERTILIZER_PRODUCTS: Record<string, FertilizerProduct> = {
+  dap: { id: 'dap', name: 'DAP', analysis: [18, 46, 0], price_per_bag: 6500 },
+  tsp: { id: 'tsp', name: 'TSP', analysis: [0, 46, 0], price_per_bag: 6000 },
+  can: { id: 'can', name: 'CAN', analysis: [26, 0, 0], price_per_bag: 4500 },
+  urea: { id: 'urea', name: 'Urea', analysis: [46, 0, 0], price_per_bag: 5000 },
+  sa: { id: 'sa', name: 'Sulphate of Ammonia', analysis: [21, 0, 0], price_per_bag: 4000 },
+  mop: { id: 'mop', name: 'Muriate of Potash', analysis: [0, 0, 60], price_per_bag: 5500 },
+};
+
+export const BAG_KG = 50;
+// Agricultural lime, KES per tonne
+export const LIME_PRICE_PER_TONNE = 6000;
+
+export interface ProductRate {
+  product: string;
+  name: string;
+  analysis: [number, number, number];
+  kg_per_ha: number;
+  kg_total: number;
+  bags_total: number;
+  timing: 'planting' | 'top-dress';
+}
+
+export interface FertilizerRecommendation {
+  target_yield: number;
+  // Agricultural lime (CaCO3 equivalent)
+  lime_t_per_ha: number;
+  lime_t_total: number;
+  // Nutrient rates in kg/ha still to apply, and already applied this season
+  nutrients: { n: number; p2o5: number; k2o: number };
+  applied: { n: number; p2o5: number; k2o: number };
+  products: ProductRate[];
+  notes: string[];
+}
+
+export interface FertilizerInput {
+  crop: CropProfile;
+  areaHa: number;
+  targetYield: number;
+  soilPh: number;
+  organicMatter: number;
+  nutrients: SoilNutrients;
+  // Nutrients applied so far this season (kg/ha)
+  applied?: { n: number; p2o5: number; k2o: number };
+}
+
+// Share of applied N the crop recovers
+const N_RECOVERY = 0.5;
+// Extractable P and K below these levels (mg/kg) warrant building up
+const P_CRITICAL = 20;
+const K_CRITICAL = 120;
+// Fertilizer needed to raise soil test values by 1 mg/kg
+const P2O5_PER_MG_KG = 5;
+const K2O_PER_MG_KG = 1;
+// Largest single lime application before splitting across seasons
+const MAX_LIME_T_PER_HA = 6;
+
+const round = (value: number, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Tonnes of lime per hectare to raise pH by one unit in the top 20 cm, from
+// CEC when measured, else clay content, else a loam default
+const limePerPhUnit = (nutrients: SoilNutrients) => {
+  if (nutrients.cec != null) return Math.max(1, nutrients.cec * 0.25);
+  if (nutrients.fractions) return 1.5 + nutrients.fractions.clay * 0.06;
+  return 3;
+};
+
+const productRate = (
+  product: FertilizerProduct,
+  kgPerHa: number,
+  areaHa: number,
+  timing: ProductRate['timing']
+): ProductRate => {
+  // Rates are rounded to 5 kg, a practical measure for hand application
+  const rounded = Math.round(kgPerHa / 5) * 5;
+  const total = rounded * areaHa;
+  return {
+    product: product.id,
+    name: product.name,
+    analysis: product.analysis,
+    kg_per_ha: rounded,
+    kg_total: Math.round(total),
+    bags_total: Math.ceil(total / BAG_KG * 2) / 2,
+    timing,
+  };
+};
+
+// Nutrient budget for a target yield: crop uptake less what the soil
+// supplies, plus build-up where soil P or K is below critical levels, and
+// lime to bring pH up to the crop's optimal range. Fertilizer already applied
+// this season is credited, and what remains is filled with DAP or TSP for P,
+// muriate of potash for K and a nitrogen top-dress.
+export const recommendFertilizer = ({
+  crop,
+  areaHa,
+  targetYield,
+  soilPh,
+  organicMatter,
+  nutrients,
+  applied = { n: 0, p2o5: 0, k2o: 0 },
+}: FertilizerInput): FertilizerRecommendation => {
+  const notes: string[] = [];
+
+  // Nitrogen: uptake minus mineralised soil N, grossed up for recovery
+  if (nutrients.nitrogen == null) {
+    notes.push("Soil nitrogen was estimated from organic matter; a lab total N result would refine the N rate.");
+  }
+  const soilNSupply = soilNitrogenSupply(nutrients, organicMatter);
+  const nNeed = Math.max(0, (crop.n_uptake * targetYield - soilNSupply) / N_RECOVERY);
+
+  // Phosphorus and potassium: replace what the harvest removes, and build
+  // up soils testing below the critical level. K mostly stays in residues,
+  // so only half its uptake is replaced.
+  const p2o5Removal = crop.p2o5_uptake * targetYield;
+  let p2o5Need: number;
+  if (nutrients.phosphorus == null) {
+    p2o5Need = p2o5Removal;
+    notes.push("No soil phosphorus result; the P rate only replaces crop removal.");
+  } else if (nutrients.phosphorus > P_CRITICAL * 2) {
+    p2o5Need = 0;
+    notes.push("Soil phosphorus is high; no P is needed this season.");
+  } else {
+    p2o5Need = p2o5Removal + Math.min(60, Math.max(0, P_CRITICAL - nutrients.phosphorus) * P2O5_PER_MG_KG);
+  }
+
+  const k2oRemoval = crop.k2o_uptake * targetYield * 0.5;
+  let k2oNeed: number;
+  if (nutrients.potassium == null) {
+    k2oNeed = k2oRemoval;
+    notes.push("No soil potassium result; the K rate only replaces crop removal.");
+  } else if (nutrients.potassium > K_CRITICAL * 2) {
+    k2oNeed = 0;
+    notes.push("Soil potassium is high; no K is needed this season.");
+  } else {
+    k2oNeed = k2oRemoval + Math.min(100, Math.max(0, K_CRITICAL - nutrients.potassium) * K2O_PER_MG_KG);
+  }
+
+  // Applied fertilizer N is recovered like the N still to apply, so every
+  // nutrient is credited kg for kg
+  const n = Math.max(0, nNeed - applied.n);
+  const p2o5 = Math.max(0, p2o5Need - applied.p2o5);
+  const k2o = Math.max(0, k2oNeed - applied.k2o);
+  if (applied.n > 0 || applied.p2o5 > 0 || applied.k2o > 0) {
+    notes.push(`Credited ${round(applied.n)} kg N, ${round(applied.p2o5)} kg P2O5 and ${round(applied.k2o)} kg K2O per ha already applied this season.`);
+  }
+
+  // Lime to the bottom of the crop's optimal pH range
+  let lime = soilPh < crop.optimal_ph_min
+    ? (crop.optimal_ph_min - soilPh) * limePerPhUnit(nutrients)
+    : 0;
+  if (lime > MAX_LIME_T_PER_HA) {
+    notes.push(`Lime need is ${lime.toFixed(1)} t/ha; apply ${MAX_LIME_T_PER_HA} t/ha now and retest before the next season.`);
+    lime = MAX_LIME_T_PER_HA;
+  }
+  if (lime > 0) {
+    notes.push("Work lime into the soil at least a month before planting.");
+  }
+
+  // Fill the P rate first, since its carrier also supplies N
+  const products: ProductRate[] = [];
+  let remainingN = n;
+  if (p2o5 > 0) {
+    // TSP keeps N off soils that need little of it
+    const carrier = remainingN < p2o5 * 0.39 ? FERTILIZER_PRODUCTS.tsp : FERTILIZER_PRODUCTS.dap;
+    const kg = (p2o5 * 100) / carrier.analysis[1];
+    products.push(productRate(carrier, kg, areaHa, 'planting'));
+    remainingN -= (kg * carrier.analysis[0]) / 100;
+  }
+  if (k2o > 0) {
+    products.push(productRate(FERTILIZER_PRODUCTS.mop, (k2o * 100) / 60, areaHa, 'planting'));
+  }
+  if (remainingN > 5) {
+    // Urea and ammonium sources acidify; CAN is gentler on acid soils and
+    // sulphate of ammonia brings alkaline soils down
+    const carrier = soilPh > crop.optimal_ph_max
+      ? FERTILIZER_PRODUCTS.sa
+      : soilPh < crop.optimal_ph_min ? FERTILIZER_PRODUCTS.can : FERTILIZER_PRODUCTS.urea;
+    products.push(productRate(carrier, (remainingN * 100) / carrier.analysis[0], areaHa, 'top-dress'));
+  }
+
+  return {
+    target_yield: targetYield,
+    lime_t_per_ha: round(lime, 1),
+    lime_t_total: round(lime * areaHa, 1),
+    nutrients: { n: round(n), p2o5: round(p2o5), k2o: round(k2o) },
+    applied: { n: round(applied.n), p2o5: round(applied.p2o5), k2o: round(applied.k2o) },
+    products,
+    notes,
+  };
+};
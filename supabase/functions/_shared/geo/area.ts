@@ -0,0 +1,90 @@
+import type { Coordinates } from "./geocode.ts";
+
+// [longitude, latitude] as in GeoJSON
+export type Position = [number, number];
+
+export type BoundaryGeometry =
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] };
+
+// Typed and boundary areas further apart than this are flagged
+export const AREA_MISMATCH_THRESHOLD = 0.2;
+
+// WGS84 equatorial radius, as used by GeoJSON area tools
+const EARTH_RADIUS_M = 6378137;
+const SQUARE_METRES_PER_HECTARE = 10000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const isPosition = (value: unknown): value is Position =>
+  Array.isArray(value)
+  && value.length >= 2
+  && typeof value[0] === 'number' && Math.abs(value[0]) <= 180
+  && typeof value[1] === 'number' && Math.abs(value[1]) <= 90;
+
+const isRing = (value: unknown): value is Position[] => {
+  if (!Array.isArray(value) || value.length < 4 || !value.every(isPosition)) return false;
+  const first = value[0];
+  const last = value[value.length - 1];
+  return first[0] === last[0] && first[1] === last[1];
+};
+
+const isPolygon = (value: unknown): value is Position[][] =>
+  Array.isArray(value) && value.length > 0 && value.every(isRing);
+
+export const validateBoundary = (value: unknown): BoundaryGeometry => {
+  const geometry = value as BoundaryGeometry;
+  if (geometry?.type === 'Polygon' && isPolygon(geometry.coordinates)) {
+    return geometry;
+  }
+  if (geometry?.type === 'MultiPolygon'
+    && Array.isArray(geometry.coordinates)
+    && geometry.coordinates.length > 0
+    && geometry.coordinates.every(isPolygon)) {
+    return geometry;
+  }
+  throw new Error("Farm boundary must be a GeoJSON Polygon or MultiPolygon with closed rings");
+};
+
+// Spherical excess of a ring (Chamberlain & Duquette), in square metres.
+// src/lib/geo.ts previews boundary areas with a copy; keep the two in sync.
+const ringArea = (ring: Position[]) => {
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const lower = ring[i];
+    const middle = ring[i + 1];
+    const upper = ring[(i + 2) % (ring.length - 1)];
+    total += (toRadians(upper[0]) - toRadians(lower[0])) * Math.sin(toRadians(middle[1]));
+  }
+  return Math.abs((total * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2);
+};
+
+// Outer ring minus holes
+const polygonArea = (rings: Position[][]) =>
+  rings.reduce((area, ring, i) => (i === 0 ? area + ringArea(ring) : area - ringArea(ring)), 0);
+
+const polygonsOf = (geometry: BoundaryGeometry) =>
+  geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+export const boundaryAreaHectares = (geometry: BoundaryGeometry) => {
+  const squareMetres = polygonsOf(geometry).reduce((sum, rings) => sum + polygonArea(rings), 0);
+  return Math.round((squareMetres / SQUARE_METRES_PER_HECTARE) * 100) / 100;
+};
+
+// Vertex average of the outer rings; close enough to place a field for
+// weather and region lookups
+export const boundaryCentroid = (geometry: BoundaryGeometry): Coordinates => {
+  const vertices = polygonsOf(geometry).flatMap((rings) => rings[0].slice(0, -1));
+  return {
+    latitude: vertices.reduce((sum, [, lat]) => sum + lat, 0) / vertices.length,
+    longitude: vertices.reduce((sum, [lon]) => sum + lon, 0) / vertices.length,
+  };
+};
+
+// Relative difference between the typed area and the boundary area, or null
+// when they agree within the threshold
+export const areaMismatch = (typedHectares: number | null | undefined, boundaryHectares: number) => {
+  if (!typedHectares || !boundaryHectares) return null;
+  const difference = Math.abs(typedHectares - boundaryHectares) / boundaryHectares;
+  return difference > AREA_MISMATCH_THRESHOLD ? difference : null;
+};
@@ -0,0 +1,71 @@
+import { kenyaPlaces, type Place } from "./kenya-gazetteer.ts";
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ResolvedLocation extends Coordinates {
+  // Gazetteer place the coordinates came from, or the nearest one
+  place: string;
+  admin_region: string;
+}
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/\bcounty\b/g, '').replace(/[^a-z]/g, '');
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance between two points (km)
+export const distanceKm = (a: Coordinates, b: Coordinates) => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+const toResolved = (place: Place): ResolvedLocation => ({
+  latitude: place.latitude,
+  longitude: place.longitude,
+  place: place.name,
+  admin_region: place.county,
+});
+
+// Town names win over county names; the first comma-separated part that
+// matches is used, so "Eldoret, Nakuru" resolves to Eldoret
+export const geocodeLocation = (text: string): ResolvedLocation | null => {
+  const parts = text.split(',').map(normalize).filter(Boolean);
+
+  for (const part of parts) {
+    const town = kenyaPlaces.find((place) => normalize(place.name) === part);
+    if (town) return toResolved(town);
+
+    const seat = kenyaPlaces.find((place) => place.seat && normalize(place.county) === part);
+    if (seat) return toResolved(seat);
+  }
+  return null;
+};
+
+export const nearestPlace = (point: Coordinates) =>
+  kenyaPlaces.reduce((nearest, place) =>
+    distanceKm(point, place) < distanceKm(point, nearest) ? place : nearest
+  );
+
+// Explicit coordinates (e.g. from the device) take precedence over the text;
+// the region then comes from the nearest gazetteer place
+export const resolveLocation = (text: string, coordinates?: Partial<Coordinates> | null): ResolvedLocation => {
+  if (coordinates?.latitude != null && coordinates?.longitude != null) {
+    const point = { latitude: coordinates.latitude, longitude: coordinates.longitude };
+    const place = nearestPlace(point);
+    return { ...point, place: place.name, admin_region: place.county };
+  }
+
+  const resolved = geocodeLocation(text);
+  if (!resolved) {
+    throw new Error(`Could not find location "${text}". Enter a Kenyan town or county, e.g. Eldoret or Nakuru.`);
+  }
+  return resolved;
+};
@@ -0,0 +1,75 @@
+// Offline gazetteer of Kenyan towns used to resolve free-text farm locations.
+// `seat` marks the county headquarters, which stands in for the county
+// itself when a location names only the county.
+export interface Place {
+  name: string;
+  county: string;
+  latitude: number;
+  longitude: number;
+  seat?: boolean;
+}
+
+export const kenyaPlaces: Place[] = [
+  { name: "Nairobi", county: "Nairobi", latitude: -1.2864, longitude: 36.8172, seat: true },
+  { name: "Mombasa", county: "Mombasa", latitude: -4.0435, longitude: 39.6682, seat: true },
+  { name: "Kisumu", county: "Kisumu", latitude: -0.0917, longitude: 34.768, seat: true },
+  { name: "Ahero", county: "Kisumu", latitude: -0.1744, longitude: 34.9181 },
+  { name: "Nakuru", county: "Nakuru", latitude: -0.3031, longitude: 36.08, seat: true },
+  { name: "Naivasha", county: "Nakuru", latitude: -0.7167, longitude: 36.4333 },
+  { name: "Molo", county: "Nakuru", latitude: -0.2487, longitude: 35.7322 },
+  { name: "Njoro", county: "Nakuru", latitude: -0.3333, longitude: 35.9333 },
+  { name: "Eldoret", county: "Uasin Gishu", latitude: 0.5143, longitude: 35.2698, seat: true },
+  { name: "Moi's Bridge", county: "Uasin Gishu", latitude: 0.8767, longitude: 35.1219 },
+  { name: "Kitale", county: "Trans Nzoia", latitude: 1.0157, longitude: 35.0062, seat: true },
+  { name: "Kiambu", county: "Kiambu", latitude: -1.1714, longitude: 36.8356, seat: true },
+  { name: "Thika", county: "Kiambu", latitude: -1.0333, longitude: 37.0693 },
+  { name: "Machakos", county: "Machakos", latitude: -1.5177, longitude: 37.2634, seat: true },
+  { name: "Meru", county: "Meru", latitude: 0.047, longitude: 37.6498, seat: true },
+  { name: "Timau", county: "Meru", latitude: 0.0833, longitude: 37.25 },
+  { name: "Nyeri", county: "Nyeri", latitude: -0.4201, longitude: 36.9476, seat: true },
+  { name: "Embu", county: "Embu", latitude: -0.531, longitude: 37.4506, seat: true },
+  { name: "Kericho", county: "Kericho", latitude: -0.3677, longitude: 35.2831, seat: true },
+  { name: "Londiani", county: "Kericho", latitude: -0.1667, longitude: 35.6 },
+  { name: "Kakamega", county: "Kakamega", latitude: 0.2827, longitude: 34.7519, seat: true },
+  { name: "Mumias", county: "Kakamega", latitude: 0.3356, longitude: 34.4886 },
+  { name: "Bungoma", county: "Bungoma", latitude: 0.5635, longitude: 34.5606, seat: true },
+  { name: "Webuye", county: "Bungoma", latitude: 0.6077, longitude: 34.7707 },
+  { name: "Busia", county: "Busia", latitude: 0.4608, longitude: 34.1115, seat: true },
+  { name: "Kisii", county: "Kisii", latitude: -0.6817, longitude: 34.7667, seat: true },
+  { name: "Nyamira", county: "Nyamira", latitude: -0.5633, longitude: 34.9358, seat: true },
+  { name: "Migori", county: "Migori", latitude: -1.0634, longitude: 34.4731, seat: true },
+  { name: "Homa Bay", county: "Homa Bay", latitude: -0.5273, longitude: 34.4571, seat: true },
+  { name: "Siaya", county: "Siaya", latitude: 0.0607, longitude: 34.2881, seat: true },
+  { name: "Mbale", county: "Vihiga", latitude: 0.076, longitude: 34.7229, seat: true },
+  { name: "Bomet", county: "Bomet", latitude: -0.7813, longitude: 35.3416, seat: true },
+  { name: "Narok", county: "Narok", latitude: -1.0783, longitude: 35.8601, seat: true },
+  { name: "Kajiado", county: "Kajiado", latitude: -1.8524, longitude: 36.7768, seat: true },
+  { name: "Rumuruti", county: "Laikipia", latitude: 0.2726, longitude: 36.5381, seat: true },
+  { name: "Nanyuki", county: "Laikipia", latitude: 0.0167, longitude: 37.0667 },
+  { name: "Nyahururu", county: "Laikipia", latitude: 0.0333, longitude: 36.3667 },
+  { name: "Murang'a", county: "Murang'a", latitude: -0.721, longitude: 37.1526, seat: true },
+  { name: "Kerugoya", county: "Kirinyaga", latitude: -0.4989, longitude: 37.2803, seat: true },
+  { name: "Wanguru", county: "Kirinyaga", latitude: -0.6797, longitude: 37.3606 },
+  { name: "Ol Kalou", county: "Nyandarua", latitude: -0.27, longitude: 36.38, seat: true },
+  { name: "Kapsabet", county: "Nandi", latitude: 0.2039, longitude: 35.105, seat: true },
+  { name: "Iten", county: "Elgeyo-Marakwet", latitude: 0.6703, longitude: 35.5081, seat: true },
+  { name: "Kabarnet", county: "Baringo", latitude: 0.4919, longitude: 35.743, seat: true },
+  { name: "Kitui", county: "Kitui", latitude: -1.367, longitude: 38.0106, seat: true },
+  { name: "Wote", county: "Makueni", latitude: -1.7833, longitude: 37.6333, seat: true },
+  { name: "Voi", county: "Taita-Taveta", latitude: -3.3961, longitude: 38.5561 },
+  { name: "Mwatate", county: "Taita-Taveta", latitude: -3.5047, longitude: 38.3778, seat: true },
+  { name: "Kilifi", county: "Kilifi", latitude: -3.6305, longitude: 39.8499, seat: true },
+  { name: "Malindi", county: "Kilifi", latitude: -3.2192, longitude: 40.1169 },
+  { name: "Kwale", county: "Kwale", latitude: -4.1737, longitude: 39.4521, seat: true },
+  { name: "Lamu", county: "Lamu", latitude: -2.2717, longitude: 40.902, seat: true },
+  { name: "Hola", county: "Tana River", latitude: -1.5, longitude: 40.03, seat: true },
+  { name: "Garissa", county: "Garissa", latitude: -0.4532, longitude: 39.6461, seat: true },
+  { name: "Wajir", county: "Wajir", latitude: 1.7471, longitude: 40.0573, seat: true },
+  { name: "Mandera", county: "Mandera", latitude: 3.9366, longitude: 41.867, seat: true },
+  { name: "Chuka", county: "Tharaka-Nithi", latitude: -0.3333, longitude: 37.65, seat: true },
+  { name: "Isiolo", county: "Isiolo", latitude: 0.3546, longitude: 37.5822, seat: true },
+  { name: "Marsabit", county: "Marsabit", latitude: 2.3284, longitude: 37.9899, seat: true },
+  { name: "Lodwar", county: "Turkana", latitude: 3.1191, longitude: 35.5973, seat: true },
+  { name: "Kapenguria", county: "West Pokot", latitude: 1.2389, longitude: 35.1119, seat: true },
+  { name: "Maralal", county: "Samburu", latitude: 1.0968, longitude: 36.698, seat: true },
+];
@@ -0,0 +1,116 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { CropProfile } from "./crops.ts";
+import { farmLocation, type Farm } from "./farms.ts";
+import { CROP_STAGES, type CropStage } from "./irrigation.ts";
+import type { Season } from "./seasons.ts";
+import { getSeasonWeather, type DailyWeather } from "./weather/index.ts";
+import { addDays, today } from "./weather/dates.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weather is read this far past the expected harvest so a season running
+// behind still finds its maturity date
+const MATURITY_SLACK_DAYS = 60;
+
+export type GrowthStageName = CropStage | 'not_planted' | 'mature';
+
+// Where a crop is in its development, from growing degree days since planting
+export interface GrowthStage {
+  stage: GrowthStageName;
+  days_after_planting: number;
+  // Degree days (°C·days) accumulated up to yesterday and needed to mature
+  gdd: number;
+  gdd_to_maturity: number;
+  // Share of the degree days to maturity accumulated
+  progress: number;
+  next_stage: Exclude<GrowthStageName, 'not_planted'> | null;
+  // Projected with the forecast, then climatology, for days still ahead;
+  // null when maturity falls beyond the weather read
+  next_stage_date: string | null;
+  maturity_date: string | null;
+}
+
+// A day's development: mean temperature above the base, capped at the
+// temperature beyond which development no longer speeds up
+export const degreeDays = (crop: CropProfile, temperature: number) =>
+  Math.max(0, Math.min(temperature, Number(crop.max_temperature)) - Number(crop.base_temperature));
+
+// Degree days at which each stage ends, splitting the degree days to
+// maturity in the proportions of the stage lengths
+export const stageThresholds = (crop: CropProfile) => {
+  const total = crop.stage_days.reduce((sum, days) => sum + days, 0);
+  let elapsed = 0;
+  return crop.stage_days.map((days) => {
+    elapsed += days;
+    return (Number(crop.gdd_to_maturity) * elapsed) / total;
+  });
+};
+
+// Stage on a date from daily weather covering the season. Days before asOf
+// count as grown; later days only project when the next stages begin.
+export const growthStage = (
+  crop: CropProfile,
+  plantingDate: string,
+  days: DailyWeather[],
+  asOf: string
+): GrowthStage => {
+  const thresholds = stageThresholds(crop);
+  const gddToMaturity = Number(crop.gdd_to_maturity);
+  const reachedOn: (string | null)[] = thresholds.map(() => null);
+
+  let gdd = 0;
+  let cumulative = 0;
+  for (const day of days) {
+    if (day.date < plantingDate) continue;
+    cumulative += degreeDays(crop, day.temperature_c);
+    if (day.date < asOf) gdd = cumulative;
+    thresholds.forEach((threshold, i) => {
+      if (!reachedOn[i] && cumulative >= threshold) reachedOn[i] = day.date;
+    });
+  }
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  const base = {
+    days_after_planting: Math.max(0, Math.round((Date.parse(asOf) - Date.parse(plantingDate)) / DAY_MS)),
+    gdd: round(gdd),
+    gdd_to_maturity: gddToMaturity,
+    progress: Math.round(Math.min(1, gdd / gddToMaturity) * 1000) / 1000,
+    maturity_date: reachedOn[reachedOn.length - 1],
+  };
+
+  if (asOf < plantingDate) {
+    return { ...base, stage: 'not_planted', next_stage: 'initial', next_stage_date: plantingDate };
+  }
+  const index = thresholds.findIndex((threshold) => gdd < threshold);
+  if (index === -1) {
+    return { ...base, stage: 'mature', next_stage: null, next_stage_date: null };
+  }
+  return {
+    ...base,
+    stage: CROP_STAGES[index],
+    next_stage: index + 1 < CROP_STAGES.length ? CROP_STAGES[index + 1] : 'mature',
+    next_stage_date: reachedOn[index],
+  };
+};
+
+// A season's growth stage today, from the farm's observed weather since
+// planting and the forecast and climatology after it. The crop should have
+// the season's variety applied.
+export const seasonGrowthStage = async (
+  client: SupabaseClient,
+  farm: Farm,
+  crop: CropProfile,
+  season: Pick<Season, 'planting_date' | 'expected_harvest_date'>
+) => {
+  const coordinates = farmLocation(farm);
+  const weather = await getSeasonWeather(
+    client,
+    { location: farm.location, latitude: coordinates.latitude, longitude: coordinates.longitude },
+    season.planting_date,
+    addDays(season.expected_harvest_date, MATURITY_SLACK_DAYS)
+  );
+
+  const known = new Map([...weather.observed, ...weather.forecast].map((day) => [day.date, day]));
+  const days = weather.climatology.map((normal) => known.get(normal.date) ?? normal);
+  return growthStage(crop, season.planting_date, days, today());
+};
@@ -0,0 +1,253 @@
+import type { CropProfile } from "./crops.ts";
+import type { SoilTexture } from "./texture.ts";
+import { addDays } from "./weather/dates.ts";
+import type { DailyWeather } from "./weather/types.ts";
+
+export const CROP_STAGES = ['initial', 'development', 'mid', 'late'] as const;
+
+export type CropStage = typeof CROP_STAGES[number];
+
+// Application efficiency: share of pumped water that reaches the root zone
+export const IRRIGATION_METHODS = {
+  drip: { label: 'Drip', efficiency: 0.9 },
+  sprinkler: { label: 'Sprinkler', efficiency: 0.75 },
+  furrow: { label: 'Furrow', efficiency: 0.6 },
+} as const;
+
+export type IrrigationMethod = keyof typeof IRRIGATION_METHODS;
+
+export const isIrrigationMethod = (value: unknown): value is IrrigationMethod =>
+  typeof value === 'string' && value in IRRIGATION_METHODS;
+
+export const isCropStage = (value: unknown): value is CropStage =>
+  CROP_STAGES.includes(value as CropStage);
+
+// Volumetric water content (fraction) at field capacity and wilting point,
+// mid-range values from FAO-56 table 19
+const SOIL_WATER: Record<SoilTexture, { field_capacity: number; wilting_point: number }> = {
+  'sand': { field_capacity: 0.12, wilting_point: 0.04 },
+  'loamy sand': { field_capacity: 0.14, wilting_point: 0.06 },
+  'sandy loam': { field_capacity: 0.23, wilting_point: 0.10 },
+  'loam': { field_capacity: 0.25, wilting_point: 0.12 },
+  'silt loam': { field_capacity: 0.29, wilting_point: 0.15 },
+  'silt': { field_capacity: 0.32, wilting_point: 0.15 },
+  'sandy clay loam': { field_capacity: 0.27, wilting_point: 0.17 },
+  'clay loam': { field_capacity: 0.32, wilting_point: 0.20 },
+  'silty clay loam': { field_capacity: 0.34, wilting_point: 0.21 },
+  'sandy clay': { field_capacity: 0.30, wilting_point: 0.19 },
+  'silty clay': { field_capacity: 0.36, wilting_point: 0.23 },
+  'clay': { field_capacity: 0.36, wilting_point: 0.22 },
+};
+
+// Texture assumed when a farm's soil tests don't record one
+const DEFAULT_TEXTURE: SoilTexture = 'loam';
+
+// Reference evapotranspiration (mm/day) by the Romanenko formula, which
+// needs only mean temperature and humidity, the fields the weather cache
+// holds. It is a monthly formula, so the result is spread over 30 days.
+export const referenceEt = (day: Pick<DailyWeather, 'temperature_c' | 'humidity_pct'>) =>
+  (0.0018 * (25 + day.temperature_c) ** 2 * (100 - Math.min(100, day.humidity_pct))) / 30;
+
+// Light showers are lost to canopy interception and a fifth of the rest
+// runs off
+export const effectiveRainfall = (rainfall: number) => Math.max(0, rainfall - 2) * 0.8;
+
+// Growth stage and FAO-56 crop coefficient a given number of days after
+// planting. Kc holds through the initial and mid stages and moves linearly
+// between them; after the late stage the crop is harvested.
+export const cropCoefficient = (crop: CropProfile, daysAfterPlanting: number) => {
+  const [initial, development, mid, late] = crop.stage_days;
+  const kcInitial = Number(crop.kc_initial);
+  const kcMid = Number(crop.kc_mid);
+  const kcEnd = Number(crop.kc_end);
+
+  if (daysAfterPlanting < 0) return { stage: null, kc: 0 };
+  let day = daysAfterPlanting;
+  if (day < initial) return { stage: 'initial' as const, kc: kcInitial };
+  day -= initial;
+  if (day < development) {
+    return { stage: 'development' as const, kc: kcInitial + ((kcMid - kcInitial) * day) / development };
+  }
+  day -= development;
+  if (day < mid) return { stage: 'mid' as const, kc: kcMid };
+  day -= mid;
+  if (day < late) return { stage: 'late' as const, kc: kcMid + ((kcEnd - kcMid) * day) / late };
+  return { stage: null, kc: 0 };
+};
+
+// Days after planting at which a stage begins, for plans made from a stage
+// rather than a planting date
+export const stageStartDay = (crop: CropProfile, stage: CropStage) =>
+  crop.stage_days.slice(0, CROP_STAGES.indexOf(stage)).reduce((sum, days) => sum + days, 0);
+
+export interface IrrigationDay {
+  date: string;
+  stage: CropStage | null;
+  kind: DailyWeather['kind'] | 'estimated';
+  et0_mm: number;
+  etc_mm: number;
+  rainfall_mm: number;
+  effective_rainfall_mm: number;
+  // Root-zone depletion below field capacity at the end of the day
+  depletion_mm: number;
+  // Net depth applied to refill the root zone
+  irrigation_mm: number;
+}
+
+export interface IrrigationWeek {
+  week_start: string;
+  week_end: string;
+  etc_mm: number;
+  effective_rainfall_mm: number;
+  net_irrigation_mm: number;
+  gross_irrigation_mm: number;
+  // Gross water to pump for the whole farm
+  volume_m3: number;
+  irrigation_dates: string[];
+}
+
+export interface IrrigationPlan {
+  start: string;
+  method: IrrigationMethod;
+  efficiency: number;
+  texture: SoilTexture;
+  root_depth_m: number;
+  // Total and readily available water in the root zone (mm)
+  total_available_water_mm: number;
+  readily_available_water_mm: number;
+  initial_depletion_mm: number;
+  weeks: IrrigationWeek[];
+  days: IrrigationDay[];
+  total_volume_m3: number;
+  notes: string[];
+}
+
+export interface IrrigationInput {
+  crop: CropProfile;
+  areaHa: number;
+  // Volumetric soil moisture (%) measured at the start of the plan
+  soilMoisture: number;
+  texture: SoilTexture | null;
+  // Days after planting on the first day of the plan
+  daysAfterPlanting: number;
+  method: IrrigationMethod;
+  // Forecast days first; the plan runs past them on the mean of the
+  // observed days
+  observed: DailyWeather[];
+  forecast: DailyWeather[];
+  weeks: number;
+}
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+const total = (values: number[]) => values.reduce((sum, value) => sum + value, 0);
+
+// Daily root-zone water balance (FAO-56 chapter 8): depletion grows with crop
+// ET and shrinks with effective rain, and the field is refilled to capacity
+// whenever depletion passes the crop's readily available water.
+export const planIrrigation = ({
+  crop,
+  areaHa,
+  soilMoisture,
+  texture,
+  daysAfterPlanting,
+  method,
+  observed,
+  forecast,
+  weeks,
+}: IrrigationInput): IrrigationPlan => {
+  if (forecast.length === 0) {
+    throw new Error("No weather forecast available for irrigation planning");
+  }
+  const notes: string[] = [];
+
+  const soilTexture = texture ?? DEFAULT_TEXTURE;
+  if (!texture) {
+    notes.push(`No soil texture recorded; water holding capacity assumes a ${DEFAULT_TEXTURE}.`);
+  }
+  const { field_capacity, wilting_point } = SOIL_WATER[soilTexture];
+  const rootDepth = Number(crop.root_depth_m);
+  const taw = 1000 * (field_capacity - wilting_point) * rootDepth;
+  const raw = Number(crop.depletion_fraction) * taw;
+  const initialDepletion = Math.min(taw, Math.max(0, 1000 * (field_capacity - soilMoisture / 100) * rootDepth));
+  const { efficiency } = IRRIGATION_METHODS[method];
+
+  // Days past the forecast assume the recent average
+  const recent = observed.length > 0 ? observed : forecast;
+  const averageDay = {
+    temperature_c: total(recent.map((day) => day.temperature_c)) / recent.length,
+    humidity_pct: total(recent.map((day) => day.humidity_pct)) / recent.length,
+    rainfall_mm: total(recent.map((day) => day.rainfall_mm)) / recent.length,
+  };
+  const start = forecast[0].date;
+  const horizon = weeks * 7;
+  if (horizon > forecast.length) {
+    notes.push(`Days after the ${forecast.length}-day forecast assume the average of the last ${recent.length} days.`);
+  }
+
+  const days: IrrigationDay[] = [];
+  let depletion = initialDepletion;
+  for (let i = 0; i < horizon; i++) {
+    const weather = forecast[i] ?? { ...averageDay, date: addDays(start, i), kind: 'estimated' as const };
+    const { stage, kc } = cropCoefficient(crop, daysAfterPlanting + i);
+    const et0 = referenceEt(weather);
+    const etc = kc * et0;
+    const effective = effectiveRainfall(weather.rainfall_mm);
+
+    // Rain beyond field capacity drains below the root zone
+    depletion = Math.min(taw, Math.max(0, depletion - effective + etc));
+    let irrigation = 0;
+    if (stage && depletion > raw) {
+      irrigation = depletion;
+      depletion = 0;
+    }
+
+    days.push({
+      date: weather.date,
+      stage,
+      kind: weather.kind,
+      et0_mm: round(et0),
+      etc_mm: round(etc),
+      rainfall_mm: round(weather.rainfall_mm),
+      effective_rainfall_mm: round(effective),
+      depletion_mm: round(depletion),
+      irrigation_mm: round(irrigation),
+    });
+  }
+
+  const schedule: IrrigationWeek[] = [];
+  for (let i = 0; i < days.length; i += 7) {
+    const week = days.slice(i, i + 7);
+    const net = total(week.map((day) => day.irrigation_mm));
+    const gross = net / efficiency;
+    schedule.push({
+      week_start: week[0].date,
+      week_end: week[week.length - 1].date,
+      etc_mm: round(total(week.map((day) => day.etc_mm))),
+      effective_rainfall_mm: round(total(week.map((day) => day.effective_rainfall_mm))),
+      net_irrigation_mm: round(net),
+      gross_irrigation_mm: round(gross),
+      // 1 mm over a hectare is 10 m³
+      volume_m3: Math.round(gross * 10 * areaHa),
+      irrigation_dates: week.filter((day) => day.irrigation_mm > 0).map((day) => day.date),
+    });
+  }
+
+  if (days.every((day) => day.stage === null)) {
+    notes.push("The crop is not in the field during this period, so no irrigation is planned.");
+  }
+
+  return {
+    start,
+    method,
+    efficiency,
+    texture: soilTexture,
+    root_depth_m: rootDepth,
+    total_available_water_mm: round(taw),
+    readily_available_water_mm: round(raw),
+    initial_depletion_mm: round(initialDepletion),
+    weeks: schedule,
+    days,
+    total_volume_m3: total(schedule.map((week) => week.volume_m3)),
+    notes,
+  };
+};
@@ -0,0 +1,68 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { CropProfile } from "./crops.ts";
+import { addDays, today } from "./weather/dates.ts";
+
+// A row of public.market_prices
+export interface MarketPrice {
+  id: string;
+  user_id: string | null;
+  crop_id: string;
+  market: string;
+  price_date: string;
+  price: number;
+  unit: string;
+  unit_kg: number;
+  currency: 'KES';
+}
+
+export interface CropPrice {
+  price_per_tonne: number;
+  // 'market' when taken from an imported price, else the catalogue's
+  // reference price
+  source: 'market' | 'reference';
+  market: string | null;
+  price_date: string | null;
+}
+
+// Prices older than this are stale and fall back to the catalogue
+const MAX_PRICE_AGE_DAYS = 180;
+
+export const pricePerTonne = (price: Pick<MarketPrice, 'price' | 'unit_kg'>) =>
+  Math.round((Number(price.price) * 1000) / Number(price.unit_kg));
+
+// Most recent price per crop visible to the caller: their own imports and
+// the shared reference prices
+export const latestMarketPrices = async (client: SupabaseClient, cropIds: string[]) => {
+  const { data, error } = await client
+    .from('market_prices')
+    .select('*')
+    .in('crop_id', cropIds)
+    .gte('price_date', addDays(today(), -MAX_PRICE_AGE_DAYS))
+    .order('price_date', { ascending: false });
+
+  if (error) throw error;
+  const latest = new Map<string, MarketPrice>();
+  for (const price of (data ?? []) as MarketPrice[]) {
+    // A user's own price beats a shared one from the same day
+    const current = latest.get(price.crop_id);
+    if (!current || (current.price_date === price.price_date && !current.user_id && price.user_id)) {
+      latest.set(price.crop_id, price);
+    }
+  }
+  return latest;
+};
+
+export const cropPrice = (crop: CropProfile, marketPrice: MarketPrice | undefined): CropPrice =>
+  marketPrice
+    ? {
+        price_per_tonne: pricePerTonne(marketPrice),
+        source: 'market',
+        market: marketPrice.market,
+        price_date: marketPrice.price_date,
+      }
+    : {
+        price_per_tonne: Number(crop.reference_price_per_tonne),
+        source: 'reference',
+        market: null,
+        price_date: null,
+      };
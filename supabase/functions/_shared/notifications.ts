@@ -0,0 +1,42 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export type NotificationType = 'sms' | 'email';
+
+export interface Notification {
+  type: NotificationType;
+  recipient: string;
+  message: string;
+  status: 'sent';
+  timestamp: string;
+}
+
+// Mock notification sending (in production, integrate with SMS/Email
+// services like Africa's Talking and Resend)
+export const deliverNotification = (type: NotificationType, recipient: string, message: string): Notification => ({
+  type,
+  recipient,
+  message,
+  status: 'sent',
+  timestamp: new Date().toISOString()
+});
+
+// Sends a message to a user from a scheduled job: by email, and by SMS too
+// for premium subscribers with a phone number. Needs a service role client
+// to look up the user's email.
+export const notifyUser = async (client: SupabaseClient, userId: string, message: string) => {
+  const [{ data: profile, error: profileError }, { data: userData, error: userError }] = await Promise.all([
+    client.from('profiles').select('phone, subscription_tier').eq('user_id', userId).maybeSingle(),
+    client.auth.admin.getUserById(userId),
+  ]);
+  if (profileError) throw profileError;
+  if (userError) throw userError;
+
+  const notifications: Notification[] = [];
+  if (userData.user?.email) {
+    notifications.push(deliverNotification('email', userData.user.email, message));
+  }
+  if (profile?.subscription_tier === 'premium' && profile.phone) {
+    notifications.push(deliverNotification('sms', profile.phone, message));
+  }
+  return notifications;
+};
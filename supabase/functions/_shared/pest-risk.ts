@@ -0,0 +1,266 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { fetchCrop } from "./crops.ts";
+import { farmLocation, type Farm } from "./farms.ts";
+import { seasonGrowthStage, type GrowthStageName } from "./growth-stage.ts";
+import type { CropStage } from "./irrigation.ts";
+import { fetchSeasonCrop, type Season } from "./seasons.ts";
+import { getPredictionWeather, type DailyWeather } from "./weather/index.ts";
+import { addDays, today } from "./weather/dates.ts";
+
+export type PestRiskLevel = 'low' | 'medium' | 'high';
+
+// A row of public.pest_risk_rules. Limits are on a day's mean temperature
+// (°C), mean humidity (%) and rainfall (mm); null limits don't apply.
+export interface PestRiskRule {
+  id: string;
+  crop_id: string;
+  name: string;
+  kind: 'pest' | 'disease';
+  weather_trigger: string;
+  advice: string;
+  stages: CropStage[] | null;
+  window_days: number;
+  streak_days: number;
+  min_temperature: number | null;
+  max_temperature: number | null;
+  min_humidity: number | null;
+  max_humidity: number | null;
+  min_rainfall_mm: number | null;
+  max_rainfall_mm: number | null;
+}
+
+// A row of public.pest_alerts
+export interface PestAlert {
+  id: string;
+  farm_id: string;
+  user_id: string;
+  season_id: string | null;
+  rule_id: string;
+  risk_level: Exclude<PestRiskLevel, 'low'>;
+  streak_start: string;
+  streak_days: number;
+  message: string;
+  evaluated_on: string;
+  cleared_on: string | null;
+  dismissed_at: string | null;
+  notified_at: string | null;
+}
+
+export interface PestRisk {
+  rule_id: string;
+  name: string;
+  kind: PestRiskRule['kind'];
+  crop_id: string;
+  season_id: string | null;
+  // Growth stage of the season's crop; null for farms without a season in
+  // the field, which are taken to be susceptible
+  stage: GrowthStageName | null;
+  level: PestRiskLevel;
+  // Longest run of favourable days in the rule's window and the forecast
+  streak_days: number;
+  streak_start: string | null;
+  // Whether the run reaches into the forecast
+  forecast: boolean;
+  advice: string;
+  message: string;
+}
+
+// Seasons this long past their expected harvest and still not harvested
+// are taken to be out of the field
+const HARVEST_GRACE_DAYS = 30;
+
+const within = (value: number, min: number | null, max: number | null) =>
+  (min == null || value >= Number(min)) && (max == null || value <= Number(max));
+
+export const favourableDay = (rule: PestRiskRule, day: DailyWeather) =>
+  within(day.temperature_c, rule.min_temperature, rule.max_temperature) &&
+  within(day.humidity_pct, rule.min_humidity, rule.max_humidity) &&
+  within(day.rainfall_mm, rule.min_rainfall_mm, rule.max_rainfall_mm);
+
+// Longest run of consecutive favourable days, in date order. A missing day
+// breaks the run.
+export const longestStreak = (rule: PestRiskRule, days: DailyWeather[]) => {
+  let best: { days: number; start: string | null; end: string | null } = { days: 0, start: null, end: null };
+  let run = 0;
+  let start: string | null = null;
+  let previous: string | null = null;
+  for (const day of days) {
+    if (previous != null && day.date !== addDays(previous, 1)) run = 0;
+    previous = day.date;
+    if (!favourableDay(rule, day)) {
+      run = 0;
+      continue;
+    }
+    if (run === 0) start = day.date;
+    run += 1;
+    if (run > best.days) best = { days: run, start, end: day.date };
+  }
+  return best;
+};
+
+const susceptible = (rule: PestRiskRule, stage: GrowthStageName | null) => {
+  if (stage == null) return true;
+  if (stage === 'not_planted' || stage === 'mature') return false;
+  return !rule.stages || rule.stages.includes(stage);
+};
+
+// Risk from the days since the rule's window opened and the forecast:
+// high once favourable days run the rule's streak, medium from half of it
+export const evaluateRule = (
+  rule: PestRiskRule,
+  days: DailyWeather[],
+  stage: GrowthStageName | null,
+  asOf = today()
+) => {
+  const windowStart = addDays(asOf, -rule.window_days);
+  const streak = longestStreak(rule, days.filter((day) => day.date >= windowStart));
+  const level: PestRiskLevel = !susceptible(rule, stage)
+    ? 'low'
+    : streak.days >= rule.streak_days
+      ? 'high'
+      : streak.days >= Math.ceil(rule.streak_days / 2) ? 'medium' : 'low';
+
+  return {
+    level,
+    streak_days: streak.days,
+    streak_start: streak.start,
+    forecast: streak.end != null && streak.end >= asOf,
+  };
+};
+
+export const fetchPestRules = async (client: SupabaseClient, cropIds: string[]) => {
+  const { data, error } = await client
+    .from('pest_risk_rules')
+    .select('*')
+    .in('crop_id', cropIds);
+
+  if (error) throw error;
+  return (data ?? []) as PestRiskRule[];
+};
+
+const describeRisk = (farm: Farm, rule: PestRiskRule, risk: ReturnType<typeof evaluateRule>) => {
+  const run = `${risk.streak_days} day${risk.streak_days === 1 ? '' : 's'} of ${rule.weather_trigger}`;
+  return `${rule.name} risk is ${risk.level} at ${farm.name}: ${run} ${risk.forecast ? 'forecast' : 'recorded'} from ${risk.streak_start}.`;
+};
+
+// Every rule for the crops in a farm's fields against its recent and
+// forecast weather. Farms without a season in the field are checked for
+// their main crop.
+export const assessFarmPestRisk = async (client: SupabaseClient, farm: Farm) => {
+  const now = today();
+  const [{ data: seasons, error: seasonsError }, { data: harvests, error: harvestsError }] = await Promise.all([
+    client
+      .from('seasons')
+      .select('*')
+      .eq('farm_id', farm.id)
+      .lte('planting_date', now)
+      .gte('expected_harvest_date', addDays(now, -HARVEST_GRACE_DAYS)),
+    client.from('harvests').select('season_id').eq('farm_id', farm.id),
+  ]);
+  if (seasonsError) throw seasonsError;
+  if (harvestsError) throw harvestsError;
+
+  const harvested = new Set((harvests ?? []).map((harvest: { season_id: string }) => harvest.season_id));
+  const inField = ((seasons ?? []) as Season[]).filter((season) => !harvested.has(season.id));
+
+  const plantings = inField.length > 0
+    ? await Promise.all(inField.map(async (season) => {
+      const crop = await fetchSeasonCrop(client, season);
+      const growth = await seasonGrowthStage(client, farm, crop, season);
+      return { crop_id: crop.id, season_id: season.id as string | null, stage: growth.stage as GrowthStageName | null };
+    }))
+    : [{ crop_id: (await fetchCrop(client, farm.crop_type)).id, season_id: null, stage: null }];
+
+  const rules = await fetchPestRules(client, [...new Set(plantings.map((planting) => planting.crop_id))]);
+  if (rules.length === 0) return [];
+
+  const coordinates = farmLocation(farm);
+  const { days } = await getPredictionWeather(client, {
+    location: farm.location,
+    latitude: coordinates.latitude,
+    longitude: coordinates.longitude
+  });
+
+  return plantings.flatMap((planting) =>
+    rules
+      .filter((rule) => rule.crop_id === planting.crop_id)
+      .map((rule): PestRisk => {
+        const risk = evaluateRule(rule, days, planting.stage, now);
+        return {
+          rule_id: rule.id,
+          name: rule.name,
+          kind: rule.kind,
+          crop_id: planting.crop_id,
+          season_id: planting.season_id,
+          stage: planting.stage,
+          ...risk,
+          advice: rule.advice,
+          message: risk.level === 'low' ? '' : describeRisk(farm, rule, risk),
+        };
+      })
+  );
+};
+
+// Opens or updates an alert for each medium or high risk and clears the
+// farm's open alerts whose risk has passed. New alerts, and ones that rose
+// to high, are marked notified at notifiedAt; pass null to leave them for
+// the notifier.
+export const recordPestAlerts = async (
+  client: SupabaseClient,
+  farm: Farm,
+  risks: PestRisk[],
+  notifiedAt: string | null
+) => {
+  const now = today();
+  const { data: open, error: openError } = await client
+    .from('pest_alerts')
+    .select('*')
+    .eq('farm_id', farm.id)
+    .is('cleared_on', null);
+  if (openError) throw openError;
+
+  const alerts: PestAlert[] = [];
+  // A rule can apply to two plantings of the same crop; the higher risk wins
+  const raised = new Map<string, PestRisk>();
+  for (const risk of risks) {
+    if (risk.level === 'low') continue;
+    const current = raised.get(risk.rule_id);
+    if (!current || (current.level === 'medium' && risk.level === 'high')) raised.set(risk.rule_id, risk);
+  }
+
+  for (const risk of raised.values()) {
+    const fields = {
+      season_id: risk.season_id,
+      risk_level: risk.level,
+      streak_start: risk.streak_start,
+      streak_days: risk.streak_days,
+      message: risk.message,
+      evaluated_on: now,
+    };
+    const existing = (open as PestAlert[]).find((alert) => alert.rule_id === risk.rule_id);
+    // An escalated alert is shown and sent again even if it was dismissed
+    const escalated = existing?.risk_level === 'medium' && risk.level === 'high';
+    const { data: saved, error } = existing
+      ? await client
+        .from('pest_alerts')
+        .update({ ...fields, ...(escalated && { dismissed_at: null, notified_at: notifiedAt }) })
+        .eq('id', existing.id)
+        .select()
+        .single()
+      : await client
+        .from('pest_alerts')
+        .insert({ ...fields, farm_id: farm.id, user_id: farm.user_id, rule_id: risk.rule_id, notified_at: notifiedAt })
+        .select()
+        .single();
+    if (error) throw error;
+    alerts.push(saved as PestAlert);
+  }
+
+  const passed = (open as PestAlert[]).filter((alert) => !raised.has(alert.rule_id)).map((alert) => alert.id);
+  if (passed.length > 0) {
+    const { error } = await client.from('pest_alerts').update({ cleared_on: now }).in('id', passed);
+    if (error) throw error;
+  }
+
+  return alerts;
+};
@@ -0,0 +1,191 @@
+import type { CropProfile } from "./crops.ts";
+import type { SoilFractions } from "./texture.ts";
+import type { WeatherSummary } from "./weather/index.ts";
+
+export type SoilFactor = 'ph' | 'moisture' | 'organic_matter';
+// Optional lab measurements; 'texture' is scored from the clay and sand fractions
+export type NutrientFactor = 'nitrogen' | 'phosphorus' | 'potassium' | 'cec' | 'ec' | 'texture';
+export type WeatherFactor = 'temperature' | 'rainfall';
+
+// [soil value, relative yield] points, sorted by soil value
+export type ResponseCurve = [number, number][];
+
+export type ResponseCurves = Partial<Record<SoilFactor | Exclude<NutrientFactor, 'texture'> | WeatherFactor, ResponseCurve>>;
+
+export interface SoilValues {
+  ph: number;
+  moisture: number;
+  organic_matter: number;
+}
+
+// Units as stored on soil_tests: nitrogen is total N in %, phosphorus and
+// potassium in mg/kg, ec in dS/m (saturated paste) and cec in cmol(+)/kg
+export interface SoilNutrients {
+  nitrogen?: number | null;
+  phosphorus?: number | null;
+  potassium?: number | null;
+  cec?: number | null;
+  ec?: number | null;
+  fractions?: SoilFractions | null;
+}
+
+export interface SoilResponse {
+  // Relative yield (0-1) each factor allows on its own
+  factors: Record<SoilFactor, number>;
+  // Only the measurements that were supplied
+  nutrient_factors: Partial<Record<NutrientFactor, number>>;
+  missing_inputs: NutrientFactor[];
+  limiting_factor: SoilFactor | NutrientFactor;
+}
+
+export interface WeatherResponse {
+  factors: Record<WeatherFactor, number>;
+}
+
+export const SOIL_FACTORS: SoilFactor[] = ['ph', 'moisture', 'organic_matter'];
+export const NUTRIENT_FACTORS: NutrientFactor[] = ['nitrogen', 'phosphorus', 'potassium', 'cec', 'ec', 'texture'];
+
+// Generic sufficiency curves for crops without their own, following the
+// low/medium/high bands used by Kenyan soil labs
+const DEFAULT_NUTRIENT_CURVES: Record<Exclude<NutrientFactor, 'texture'>, ResponseCurve> = {
+  nitrogen: [[0.05, 0.55], [0.1, 0.75], [0.2, 0.95], [0.3, 1]],
+  phosphorus: [[5, 0.6], [15, 0.85], [30, 1]],
+  potassium: [[40, 0.7], [120, 0.9], [200, 1]],
+  cec: [[3, 0.8], [10, 0.95], [20, 1]],
+  // Maas-Hanson salinity response for a moderately sensitive crop
+  ec: [[2, 1], [8, 0.3]],
+};
+
+// Very sandy soils hold little water or nutrients; heavy clays drain and
+// work poorly
+const CLAY_CURVE: ResponseCurve = [[3, 0.8], [15, 1], [40, 1], [65, 0.8]];
+const SAND_CURVE: ResponseCurve = [[70, 1], [90, 0.75]];
+
+// Fallback for crops without a temperature curve (mean daily °C)
+const DEFAULT_TEMPERATURE_CURVE: ResponseCurve = [[8, 0.3], [16, 1], [28, 1], [35, 0.4]];
+
+// Rainfall as a share of typical crop water use. Soil storage buffers
+// short dry spells, so even a dry period keeps most of the yield.
+const RAINFALL_ADEQUACY_CURVE: ResponseCurve = [[0, 0.6], [0.5, 0.85], [1, 1], [2.5, 1], [4, 0.85]];
+const CROP_WATER_USE_MM_PER_DAY = 4;
+
+// Linear interpolation between points, flat beyond the ends
+export const evaluateCurve = (curve: ResponseCurve, value: number) => {
+  if (value <= curve[0][0]) return curve[0][1];
+  const last = curve[curve.length - 1];
+  if (value >= last[0]) return last[1];
+
+  for (let i = 1; i < curve.length; i++) {
+    const [x1, y1] = curve[i];
+    if (value <= x1) {
+      const [x0, y0] = curve[i - 1];
+      return y0 + ((value - x0) / (x1 - x0)) * (y1 - y0);
+    }
+  }
+  return last[1];
+};
+
+// Trapezoid over the catalogue's optimal range for crops without curves:
+// relative yield falls to half one range-width either side of the optimum
+const trapezoid = (min: number, max: number): ResponseCurve => {
+  const shoulder = Math.max(max - min, 0.5);
+  return [[min - shoulder, 0.5], [min, 1], [max, 1], [max + shoulder, 0.5]];
+};
+
+export const curvesFor = (crop: CropProfile): Record<SoilFactor, ResponseCurve> => {
+  const curves = crop.response_curves ?? {};
+  return {
+    ph: curves.ph ?? trapezoid(crop.optimal_ph_min, crop.optimal_ph_max),
+    moisture: curves.moisture ?? trapezoid(crop.optimal_moisture_min, crop.optimal_moisture_max),
+    organic_matter: curves.organic_matter ?? trapezoid(crop.optimal_organic_min, crop.optimal_organic_max),
+  };
+};
+
+// Middle of the range where a curve allows its highest yield
+export const curveOptimum = (curve: ResponseCurve) => {
+  const best = Math.max(...curve.map(([, y]) => y));
+  const peak = curve.filter(([, y]) => y === best).map(([x]) => x);
+  return (peak[0] + peak[peak.length - 1]) / 2;
+};
+
+// Soil values at which each of the crop's soil curves peaks
+export const optimalSoil = (crop: CropProfile): SoilValues => {
+  const curves = curvesFor(crop);
+  return {
+    ph: curveOptimum(curves.ph),
+    moisture: curveOptimum(curves.moisture),
+    organic_matter: curveOptimum(curves.organic_matter),
+  };
+};
+
+// Mean daily temperature (°C) and rainfall (mm/day) the crop responds best to
+export const optimalWeather = (crop: CropProfile) => ({
+  temperature: curveOptimum(crop.response_curves?.temperature ?? DEFAULT_TEMPERATURE_CURVE),
+  rainfall: curveOptimum(RAINFALL_ADEQUACY_CURVE) * CROP_WATER_USE_MM_PER_DAY,
+});
+
+// Rainfall over a weather window as a share of typical crop water use
+export const rainfallAdequacy = (weather: WeatherSummary) => {
+  const days = Math.max(1, weather.observed_days + weather.forecast_days);
+  return weather.rainfall / (days * CROP_WATER_USE_MM_PER_DAY);
+};
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+const evaluateNutrients = (crop: CropProfile, nutrients: SoilNutrients) => {
+  const curves = crop.response_curves ?? {};
+  const factors: Partial<Record<NutrientFactor, number>> = {};
+  for (const factor of NUTRIENT_FACTORS) {
+    if (factor === 'texture') {
+      if (nutrients.fractions) {
+        const { sand, clay } = nutrients.fractions;
+        factors.texture = round3(Math.min(evaluateCurve(CLAY_CURVE, clay), evaluateCurve(SAND_CURVE, sand)));
+      }
+      continue;
+    }
+    const value = nutrients[factor];
+    if (value != null) {
+      factors[factor] = round3(evaluateCurve(curves[factor] ?? DEFAULT_NUTRIENT_CURVES[factor], value));
+    }
+  }
+  return factors;
+};
+
+export const evaluateSoilResponse = (
+  crop: CropProfile,
+  soil: SoilValues,
+  nutrients: SoilNutrients = {}
+): SoilResponse => {
+  const curves = curvesFor(crop);
+  const factors = {} as Record<SoilFactor, number>;
+  for (const factor of SOIL_FACTORS) {
+    factors[factor] = round3(evaluateCurve(curves[factor], soil[factor]));
+  }
+  const nutrient_factors = evaluateNutrients(crop, nutrients);
+  const missing_inputs = NUTRIENT_FACTORS.filter(factor => nutrient_factors[factor] == null);
+
+  const all: [SoilFactor | NutrientFactor, number][] = [
+    ...Object.entries(factors) as [SoilFactor, number][],
+    ...Object.entries(nutrient_factors) as [NutrientFactor, number][],
+  ];
+  const [limiting_factor] = all.reduce((lowest, entry) => entry[1] < lowest[1] ? entry : lowest);
+
+  return { factors, nutrient_factors, missing_inputs, limiting_factor };
+};
+
+// The most limiting supplied nutrient caps yield on its own (Liebig's law of
+// the minimum) rather than compounding with the others; 1 when none were measured
+export const nutrientLimit = (response: SoilResponse) =>
+  Math.min(1, ...Object.values(response.nutrient_factors));
+
+export const evaluateWeatherResponse = (crop: CropProfile, weather: WeatherSummary): WeatherResponse => {
+  const temperatureCurve = crop.response_curves?.temperature ?? DEFAULT_TEMPERATURE_CURVE;
+  const adequacy = rainfallAdequacy(weather);
+
+  return {
+    factors: {
+      temperature: round3(evaluateCurve(temperatureCurve, weather.temperature)),
+      rainfall: round3(evaluateCurve(RAINFALL_ADEQUACY_CURVE, adequacy)),
+    },
+  };
+};
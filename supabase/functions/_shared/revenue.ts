@@ -0,0 +1,81 @@
+import type { ActivitySummary } from "./activities.ts";
+import type { CropProfile } from "./crops.ts";
+import { BAG_KG, FERTILIZER_PRODUCTS, LIME_PRICE_PER_TONNE, type FertilizerRecommendation } from "./fertilizer.ts";
+import type { CropPrice } from "./market-prices.ts";
+import type { YieldInterval } from "./yield-models/registry.ts";
+
+interface RevenueFigures {
+  gross_revenue: number;
+  input_costs: number;
+  margin: number;
+}
+
+// Money figures in KES
+export interface RevenueProjection {
+  currency: 'KES';
+  price: CropPrice;
+  // Input costs per hectare by source: the catalogue's estimate for
+  // operations not yet paid for, fertilizer and lime still to buy, and
+  // spending recorded in the season's activity log
+  input_costs: { base: number; fertilizer: number; lime: number; recorded: number };
+  per_ha: RevenueFigures;
+  per_farm: RevenueFigures;
+  // Whole-farm margin at the yield's P10 and P90
+  margin_range: { p10: number; p90: number };
+}
+
+export interface RevenueInput {
+  crop: CropProfile;
+  areaHa: number;
+  interval: YieldInterval;
+  price: CropPrice;
+  fertilizer: FertilizerRecommendation;
+  // Spending recorded for the season so far
+  recordedCosts?: ActivitySummary['costs'];
+}
+
+// Gross revenue from the median yield at the crop's price, less input costs.
+// Recorded spending replaces the estimates it covers: the fertilizer to buy
+// is already net of what was applied, and other recorded costs draw down the
+// crop's base input costs.
+export const projectRevenue = ({
+  crop,
+  areaHa,
+  interval,
+  price,
+  fertilizer,
+  recordedCosts = { fertilizer: 0, other: 0 },
+}: RevenueInput): RevenueProjection => {
+  const fertilizerCost = fertilizer.products.reduce((sum, product) =>
+    sum + (product.kg_per_ha / BAG_KG) * (FERTILIZER_PRODUCTS[product.product]?.price_per_bag ?? 0), 0);
+  const recordedOtherPerHa = recordedCosts.other / areaHa;
+  const inputCosts = {
+    base: Math.round(Math.max(0, Number(crop.base_input_cost_per_ha) - recordedOtherPerHa)),
+    fertilizer: Math.round(fertilizerCost),
+    lime: Math.round(fertilizer.lime_t_per_ha * LIME_PRICE_PER_TONNE),
+    recorded: Math.round((recordedCosts.fertilizer + recordedCosts.other) / areaHa),
+  };
+  const costPerHa = inputCosts.base + inputCosts.fertilizer + inputCosts.lime + inputCosts.recorded;
+  const revenuePerHa = (yieldPerHa: number) => Math.round(yieldPerHa * price.price_per_tonne);
+  const grossPerHa = revenuePerHa(interval.p50);
+
+  return {
+    currency: 'KES',
+    price,
+    input_costs: inputCosts,
+    per_ha: {
+      gross_revenue: grossPerHa,
+      input_costs: costPerHa,
+      margin: grossPerHa - costPerHa,
+    },
+    per_farm: {
+      gross_revenue: Math.round(grossPerHa * areaHa),
+      input_costs: Math.round(costPerHa * areaHa),
+      margin: Math.round((grossPerHa - costPerHa) * areaHa),
+    },
+    margin_range: {
+      p10: Math.round((revenuePerHa(interval.p10) - costPerHa) * areaHa),
+      p90: Math.round((revenuePerHa(interval.p90) - costPerHa) * areaHa),
+    },
+  };
+};
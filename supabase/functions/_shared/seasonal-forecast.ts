@@ -0,0 +1,186 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { CropProfile } from "./crops.ts";
+import { farmArea, farmLocation, fetchFarm } from "./farms.ts";
+import { fetchSeason, fetchSeasonCrop } from "./seasons.ts";
+import { latestSoilTest, soilNutrients, type SoilTest } from "./soil-tests.ts";
+import { fetchActiveCalibrations, selectCalibratedModel } from "./yield-models/calibration.ts";
+import type { YieldModel } from "./yield-models/registry.ts";
+import { weatherError, yieldInterval } from "./yield-models/uncertainty.ts";
+import { getSeasonWeather, summarizeWeather, type DailyWeather, type WeatherQuery } from "./weather/index.ts";
+import { addDays, today } from "./weather/dates.ts";
+
+// A row of public.seasonal_forecasts
+export interface SeasonalForecast {
+  id: string;
+  season_id: string;
+  farm_id: string;
+  user_id: string;
+  crop_id: string;
+  planting_date: string;
+  harvest_date: string;
+  model_version: string | null;
+  status: 'active' | 'complete';
+  last_computed_at: string | null;
+}
+
+// One month of a season: the final yield projected with the weather known by
+// the end of that month as the median, and the 10th and 90th percentiles of
+// where it could still end up
+export interface ForecastPoint {
+  month: string;
+  yield_per_hectare: number;
+  yield_p10: number;
+  yield_p90: number;
+  observed_days: number;
+  forecast_days: number;
+  climatology_days: number;
+}
+
+// Relative error a season's weather adds when none of it is known yet
+const CLIMATE_ERROR = 0.3;
+
+// Months are identified by their first day (YYYY-MM-01)
+const nextMonth = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return m === 12 ? `${year + 1}-01-01` : `${year}-${String(m + 1).padStart(2, '0')}-01`;
+};
+
+const monthEnd = (month: string) => addDays(nextMonth(month), -1);
+
+// Every calendar month the season touches
+export const seasonMonths = (start: string, end: string) => {
+  const months: string[] = [];
+  for (let month = `${start.slice(0, 7)}-01`; month <= end; month = nextMonth(month)) {
+    months.push(month);
+  }
+  return months;
+};
+
+interface ProjectionInput {
+  crop: CropProfile;
+  model: YieldModel;
+  soilTest: SoilTest;
+  areaHa: number;
+  query: Omit<WeatherQuery, 'start' | 'end'>;
+  provider: string;
+  plantingDate: string;
+  harvestDate: string;
+  observed: DailyWeather[];
+  forecast: DailyWeather[];
+  // One day for every day of the season
+  climatology: DailyWeather[];
+}
+
+// Projects the season's yield once per month. Each month's projection takes
+// the observed and forecast weather up to the end of that month and
+// climatology for the rest of the season. Months still ahead share the
+// current outlook, with the range narrowing to what is left of the season by
+// the end of each month.
+export const projectSeason = (input: ProjectionInput): ForecastPoint[] => {
+  const { crop, model, soilTest, areaHa, query, provider, plantingDate } = input;
+  const known = new Map([...input.observed, ...input.forecast].map((day) => [day.date, day]));
+
+  return seasonMonths(plantingDate, input.harvestDate).map((month) => {
+    const cutoff = monthEnd(month);
+    const days = input.climatology.map((normal) =>
+      (normal.date <= cutoff && known.get(normal.date)) || normal
+    );
+    const knownDays = days.filter((day) => known.get(day.date) === day);
+
+    const weather = summarizeWeather(days, query, provider);
+    const result = model.predict({
+      crop,
+      areaHa,
+      soilPh: Number(soilTest.ph),
+      soilMoisture: Number(soilTest.moisture),
+      organicMatter: Number(soilTest.organic_matter),
+      nutrients: soilNutrients(soilTest),
+      weather,
+      dailyWeather: days,
+    });
+
+    // The model's spread with its generic weather term swapped for the
+    // weather still to come after this month
+    const unknownShare = days.filter((day) => day.date > cutoff).length / days.length;
+    const modelError = Math.sqrt(Math.max(0, result.interval.relative_error ** 2 - weatherError(weather) ** 2));
+    const interval = yieldInterval(result.yield_per_hectare, [modelError, CLIMATE_ERROR * unknownShare]);
+    const observedDays = knownDays.filter((day) => day.kind === 'observed').length;
+
+    return {
+      month,
+      yield_per_hectare: result.yield_per_hectare,
+      yield_p10: interval.p10,
+      yield_p90: interval.p90,
+      observed_days: observedDays,
+      forecast_days: knownDays.length - observedDays,
+      climatology_days: days.length - knownDays.length,
+    };
+  });
+};
+
+// Recomputes a forecast's monthly points from the farm's latest soil test and
+// the weather known today, and marks it complete once harvest has passed
+export const computeSeasonalForecast = async (client: SupabaseClient, forecast: SeasonalForecast) => {
+  const farm = await fetchFarm(client, forecast.farm_id);
+  const crop = await fetchSeasonCrop(client, await fetchSeason(client, forecast.season_id));
+  const model = selectCalibratedModel(crop.id, await fetchActiveCalibrations(client, [crop.id]));
+
+  const soilTest = await latestSoilTest(client, farm.id);
+  if (soilTest?.ph == null || soilTest.moisture == null || soilTest.organic_matter == null) {
+    throw new Error("The farm needs a soil test with pH, moisture and organic matter");
+  }
+
+  const coordinates = farmLocation(farm);
+  const query = {
+    location: farm.location,
+    latitude: coordinates.latitude,
+    longitude: coordinates.longitude
+  };
+  const weather = await getSeasonWeather(client, query, forecast.planting_date, forecast.harvest_date);
+
+  const points = projectSeason({
+    crop,
+    model,
+    soilTest,
+    areaHa: farmArea(farm),
+    query,
+    provider: weather.provider,
+    plantingDate: forecast.planting_date,
+    harvestDate: forecast.harvest_date,
+    observed: weather.observed,
+    forecast: weather.forecast,
+    climatology: weather.climatology,
+  });
+
+  // A rescheduled or shortened season leaves points for months it no longer covers
+  const months = seasonMonths(forecast.planting_date, forecast.harvest_date);
+  const { error: staleError } = await client
+    .from('seasonal_forecast_points')
+    .delete()
+    .eq('forecast_id', forecast.id)
+    .or(`month.lt.${months[0]},month.gt.${months[months.length - 1]}`);
+  if (staleError) throw staleError;
+
+  const computedAt = new Date().toISOString();
+  const { error: pointsError } = await client
+    .from('seasonal_forecast_points')
+    .upsert(
+      points.map((point) => ({ ...point, forecast_id: forecast.id, computed_at: computedAt })),
+      { onConflict: 'forecast_id,month' }
+    );
+  if (pointsError) throw pointsError;
+
+  const { data, error } = await client
+    .from('seasonal_forecasts')
+    .update({
+      model_version: model.version,
+      last_computed_at: computedAt,
+      status: forecast.harvest_date < today() ? 'complete' : 'active',
+    })
+    .eq('id', forecast.id)
+    .select()
+    .single();
+  if (error) throw error;
+
+  return { forecast: data as SeasonalForecast, points };
+};
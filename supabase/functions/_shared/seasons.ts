@@ -0,0 +1,38 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { fetchCrop } from "./crops.ts";
+import { applyVariety, fetchVariety } from "./varieties.ts";
+
+// A row of public.seasons: one planting of a crop on a farm
+export interface Season {
+  id: string;
+  farm_id: string;
+  user_id: string;
+  crop_id: string;
+  variety_id: string | null;
+  // Name of a variety the catalogue doesn't list
+  variety: string | null;
+  planting_date: string;
+  expected_harvest_date: string;
+  rains: 'long_rains' | 'short_rains' | null;
+  notes: string | null;
+}
+
+export const fetchSeason = async (client: SupabaseClient, id: string) => {
+  const { data, error } = await client
+    .from('seasons')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new Error(`Season not found: ${id}`);
+  }
+  return data as Season;
+};
+
+// The season's crop, with its catalogue variety applied when it has one
+export const fetchSeasonCrop = async (client: SupabaseClient, season: Season) => {
+  const crop = await fetchCrop(client, season.crop_id);
+  return applyVariety(crop, season.variety_id ? await fetchVariety(client, season.variety_id) : null);
+};
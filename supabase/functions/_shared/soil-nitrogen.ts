@@ -0,0 +1,16 @@
+import type { SoilNutrients } from "./response-curves.ts";
+
+// Organic matter is about 5.8% nitrogen
+const ORGANIC_MATTER_N = 0.058;
+// Soil N mineralised over a season, as a share of total N in the top 20 cm
+// (about 2600 t of soil per hectare)
+const N_MINERALISATION = 0.02;
+const SOIL_MASS_KG_PER_HA = 2_600_000;
+
+// Total soil N (%): the lab result, or an estimate from organic matter
+const totalSoilNitrogen = (nutrients: SoilNutrients, organicMatter: number) =>
+  nutrients.nitrogen ?? organicMatter * ORGANIC_MATTER_N;
+
+// Nitrogen the soil makes available to the crop over a season (kg/ha)
+export const soilNitrogenSupply = (nutrients: SoilNutrients, organicMatter: number) =>
+  (totalSoilNitrogen(nutrients, organicMatter) / 100) * SOIL_MASS_KG_PER_HA * N_MINERALISATION;
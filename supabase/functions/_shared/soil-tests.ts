@@ -0,0 +1,146 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { SoilNutrients } from "./response-curves.ts";
+import {
+  classFractions,
+  isSoilTexture,
+  normalizeFractions,
+  textureClass,
+  type SoilTexture
+} from "./texture.ts";
+
+// A row of public.soil_tests. Nitrogen is total N in %, phosphorus and
+// potassium in mg/kg, ec in dS/m, cec in cmol(+)/kg and the sand, silt and
+// clay fractions in %.
+export interface SoilTest {
+  id: string;
+  farm_id: string;
+  user_id: string;
+  tested_on: string;
+  sampling_depth_cm: number | null;
+  lab: string | null;
+  method: string | null;
+  ph: number | null;
+  moisture: number | null;
+  organic_matter: number | null;
+  nitrogen: number | null;
+  phosphorus: number | null;
+  potassium: number | null;
+  ec: number | null;
+  cec: number | null;
+  texture: SoilTexture | null;
+  sand: number | null;
+  silt: number | null;
+  clay: number | null;
+}
+
+export type SoilTestInput = Partial<Omit<SoilTest, 'id' | 'farm_id' | 'user_id'>>;
+
+// Fills in the texture class from measured fractions and checks that the
+// fractions and class are usable before a test is stored
+export const completeSoilTest = (input: SoilTestInput): SoilTestInput => {
+  if (input.texture != null && !isSoilTexture(input.texture)) {
+    throw new Error(`Unknown soil texture: ${input.texture}`);
+  }
+  const { sand, silt, clay } = input;
+  const measured = [sand, silt, clay].filter(value => value != null).length;
+  if (measured === 0) return input;
+  if (measured < 3) {
+    throw new Error("Sand, silt and clay must be given together");
+  }
+  const fractions = normalizeFractions({ sand: sand!, silt: silt!, clay: clay! });
+  return { ...input, texture: input.texture ?? textureClass(fractions) };
+};
+
+// Optional measurements in the form the yield models take
+const optionalNumber = (value: number | null) => (value == null ? null : Number(value));
+
+export const soilNutrients = (test: SoilTest): SoilNutrients => ({
+  nitrogen: optionalNumber(test.nitrogen),
+  phosphorus: optionalNumber(test.phosphorus),
+  potassium: optionalNumber(test.potassium),
+  cec: optionalNumber(test.cec),
+  ec: optionalNumber(test.ec),
+  fractions: test.sand != null && test.silt != null && test.clay != null
+    ? normalizeFractions({ sand: Number(test.sand), silt: Number(test.silt), clay: Number(test.clay) })
+    : test.texture ? classFractions(test.texture) : null,
+});
+
+export const fetchSoilTest = async (client: SupabaseClient, id: string) => {
+  const { data, error } = await client
+    .from('soil_tests')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new Error(`Soil test not found: ${id}`);
+  }
+  return data as SoilTest;
+};
+
+// Most recent test for a farm, or null when none has been recorded
+export const latestSoilTest = async (client: SupabaseClient, farmId: string) => {
+  const { data, error } = await client
+    .from('soil_tests')
+    .select('*')
+    .eq('farm_id', farmId)
+    .order('tested_on', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as SoilTest | null;
+};
+
+export const recordSoilTest = async (
+  client: SupabaseClient,
+  farm: { id: string; user_id: string },
+  input: SoilTestInput
+) => {
+  const { data, error } = await client
+    .from('soil_tests')
+    .insert({ ...completeSoilTest(input), farm_id: farm.id, user_id: farm.user_id })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as SoilTest;
+};
+
+// Submitted values laid over a stored test (or a blank one) without saving
+// anything, for dry-run predictions. A submitted texture replaces the stored
+// class and fractions together.
+export const applySoilTestInput = (
+  test: SoilTest | null,
+  farm: { id: string; user_id: string },
+  input: SoilTestInput
+): SoilTest => {
+  const submitted = Object.fromEntries(
+    Object.entries(completeSoilTest(input)).filter(([, value]) => value != null)
+  ) as SoilTestInput;
+  const base: SoilTest = test ?? {
+    id: '',
+    farm_id: farm.id,
+    user_id: farm.user_id,
+    tested_on: new Date().toISOString().slice(0, 10),
+    sampling_depth_cm: null,
+    lab: null,
+    method: null,
+    ph: null,
+    moisture: null,
+    organic_matter: null,
+    nitrogen: null,
+    phosphorus: null,
+    potassium: null,
+    ec: null,
+    cec: null,
+    texture: null,
+    sand: null,
+    silt: null,
+    clay: null,
+  };
+  const texture = submitted.texture != null ? { texture: null, sand: null, silt: null, clay: null } : {};
+  return { ...base, ...texture, ...submitted };
+};
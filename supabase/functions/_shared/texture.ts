@@ -0,0 +1,76 @@
+export const SOIL_TEXTURES = [
+  'sand',
+  'loamy sand',
+  'sandy loam',
+  'loam',
+  'silt loam',
+  'silt',
+  'sandy clay loam',
+  'clay loam',
+  'silty clay loam',
+  'sandy clay',
+  'silty clay',
+  'clay',
+] as const;
+
+export type SoilTexture = typeof SOIL_TEXTURES[number];
+
+// Sand, silt and clay as percentages of the mineral fraction
+export interface SoilFractions {
+  sand: number;
+  silt: number;
+  clay: number;
+}
+
+// Typical fractions near the middle of each USDA class, used when a report
+// gives only the class name
+const CLASS_FRACTIONS: Record<SoilTexture, SoilFractions> = {
+  'sand': { sand: 92, silt: 5, clay: 3 },
+  'loamy sand': { sand: 82, silt: 12, clay: 6 },
+  'sandy loam': { sand: 65, silt: 25, clay: 10 },
+  'loam': { sand: 40, silt: 40, clay: 20 },
+  'silt loam': { sand: 20, silt: 65, clay: 15 },
+  'silt': { sand: 7, silt: 87, clay: 6 },
+  'sandy clay loam': { sand: 60, silt: 13, clay: 27 },
+  'clay loam': { sand: 32, silt: 34, clay: 34 },
+  'silty clay loam': { sand: 10, silt: 56, clay: 34 },
+  'sandy clay': { sand: 52, silt: 6, clay: 42 },
+  'silty clay': { sand: 7, silt: 47, clay: 46 },
+  'clay': { sand: 22, silt: 20, clay: 58 },
+};
+
+export const isSoilTexture = (value: unknown): value is SoilTexture =>
+  SOIL_TEXTURES.includes(value as SoilTexture);
+
+// Scales the three fractions to sum to 100; lab reports often round them
+export const normalizeFractions = ({ sand, silt, clay }: SoilFractions): SoilFractions => {
+  if ([sand, silt, clay].some(value => value < 0 || value > 100)) {
+    throw new Error("Sand, silt and clay must each be between 0 and 100%");
+  }
+  const total = sand + silt + clay;
+  if (total <= 0) {
+    throw new Error("Sand, silt and clay fractions are all zero");
+  }
+  const scale = 100 / total;
+  return { sand: sand * scale, silt: silt * scale, clay: clay * scale };
+};
+
+// USDA soil texture triangle
+export const textureClass = (fractions: SoilFractions): SoilTexture => {
+  const { sand, silt, clay } = normalizeFractions(fractions);
+
+  if (silt + 1.5 * clay < 15) return 'sand';
+  if (silt + 2 * clay < 30) return 'loamy sand';
+  if ((clay >= 7 && clay < 20 && sand > 52) || (clay < 7 && silt < 50)) return 'sandy loam';
+  if (clay >= 7 && clay < 27 && silt >= 28 && silt < 50 && sand <= 52) return 'loam';
+  if (silt >= 80 && clay < 12) return 'silt';
+  if ((silt >= 50 && clay >= 12 && clay < 27) || (silt >= 50 && clay < 12)) return 'silt loam';
+  if (clay >= 20 && clay < 35 && silt < 28 && sand > 45) return 'sandy clay loam';
+  if (clay >= 35 && sand > 45) return 'sandy clay';
+  if (clay >= 27 && clay < 40 && sand > 20) return 'clay loam';
+  if (clay >= 27 && clay < 40) return 'silty clay loam';
+  if (clay >= 40 && silt >= 40) return 'silty clay';
+  return 'clay';
+};
+
+export const classFractions = (texture: SoilTexture): SoilFractions => CLASS_FRACTIONS[texture];
@@ -0,0 +1,65 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { CropProfile } from "./crops.ts";
+
+// A row of public.crop_varieties
+export interface CropVariety {
+  id: string;
+  crop_id: string;
+  name: string;
+  maturity_days: number;
+  gdd_to_maturity: number;
+  yield_potential: number;
+  description: string | null;
+}
+
+export const fetchVariety = async (client: SupabaseClient, id: string) => {
+  const { data, error } = await client
+    .from('crop_varieties')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) {
+    throw new Error(`Unknown variety: ${id}`);
+  }
+  return data as CropVariety;
+};
+
+export const fetchVarieties = async (client: SupabaseClient, ids: string[]) => {
+  const varieties = new Map<string, CropVariety>();
+  if (ids.length === 0) return varieties;
+
+  const { data, error } = await client.from('crop_varieties').select('*').in('id', ids);
+  if (error) throw error;
+  (data as CropVariety[]).forEach((variety) => varieties.set(variety.id, variety));
+  return varieties;
+};
+
+// The crop as grown from a variety: its yield potential becomes the base
+// yield and the growth stages keep their proportions but end at its maturity
+export const applyVariety = (crop: CropProfile, variety?: CropVariety | null): CropProfile => {
+  if (!variety) return crop;
+  if (variety.crop_id !== crop.id) {
+    throw new Error(`${variety.name} is not a variety of ${crop.display_name}`);
+  }
+
+  const scale = variety.maturity_days / crop.stage_days.reduce((sum, days) => sum + days, 0);
+  // Stage ends are rounded so the stages still add up to the maturity
+  let elapsed = 0;
+  let previousEnd = 0;
+  const stageDays = crop.stage_days.map((days) => {
+    elapsed += days;
+    const end = Math.round(elapsed * scale);
+    const length = end - previousEnd;
+    previousEnd = end;
+    return length;
+  }) as CropProfile['stage_days'];
+
+  return {
+    ...crop,
+    base_yield: Number(variety.yield_potential),
+    stage_days: stageDays,
+    gdd_to_maturity: Number(variety.gdd_to_maturity),
+  };
+};
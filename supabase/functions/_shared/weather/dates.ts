@@ -0,0 +1,16 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+export const addDays = (isoDate: string, days: number) =>
+  toIsoDate(new Date(new Date(`${isoDate}T00:00:00Z`).getTime() + days * DAY_MS));
+
+export const eachDay = (start: string, end: string) => {
+  const days: string[] = [];
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+export const today = () => toIsoDate(new Date());
@@ -0,0 +1,57 @@
+import { climatology, defaultClimate } from "./fixtures/climatology.ts";
+import { distanceKm } from "../geo/geocode.ts";
+import { kenyaPlaces } from "../geo/kenya-gazetteer.ts";
+import { eachDay } from "./dates.ts";
+import type { DailyWeather, WeatherProvider, WeatherQuery } from "./types.ts";
+
+const daysInMonth = (isoDate: string) => {
+  const [year, month] = isoDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+// Fixture stations further than this from the farm fall back to the
+// national average
+const MAX_STATION_DISTANCE_KM = 150;
+
+const stations = kenyaPlaces.filter((place) => climatology[place.name.toLowerCase()]);
+
+const climateFor = (query: WeatherQuery) => {
+  let nearest = null;
+  let nearestDistance = Infinity;
+  for (const station of stations) {
+    const distance = distanceKm(query, station);
+    if (distance < nearestDistance) {
+      nearest = station;
+      nearestDistance = distance;
+    }
+  }
+  return nearest && nearestDistance <= MAX_STATION_DISTANCE_KM
+    ? climatology[nearest.name.toLowerCase()]
+    : defaultClimate;
+};
+
+// Deterministic daily series from monthly climatology, so predictions are
+// reproducible without network access
+const seriesFor = (query: WeatherQuery, kind: DailyWeather['kind']): DailyWeather[] => {
+  const climate = climateFor(query);
+  return eachDay(query.start, query.end).map((date) => {
+    const month = Number(date.slice(5, 7)) - 1;
+    return {
+      date,
+      rainfall_mm: Math.round((climate.rainfall[month] / daysInMonth(date)) * 10) / 10,
+      temperature_c: climate.temperature[month],
+      humidity_pct: climate.humidity[month],
+      kind,
+    };
+  });
+};
+
+// Monthly normals for the farm, used to fill the part of a season that has
+// neither observations nor a forecast yet
+export const climatologySeries = (query: WeatherQuery) => seriesFor(query, 'forecast');
+
+export const fixtureWeatherProvider: WeatherProvider = {
+  id: 'fixture',
+  getHistorical: async (query) => seriesFor(query, 'observed'),
+  getForecast: async (query) => seriesFor(query, 'forecast'),
+};
@@ -0,0 +1,83 @@
+// Long-term monthly means for Kenyan towns, used by the fixture weather
+// provider. Rainfall is the monthly total (mm), temperature the mean daily
+// temperature (°C) and humidity the mean relative humidity (%), January first.
+export interface MonthlyClimate {
+  rainfall: number[];
+  temperature: number[];
+  humidity: number[];
+}
+
+export const climatology: Record<string, MonthlyClimate> = {
+  nairobi: {
+    rainfall: [45, 50, 90, 180, 130, 30, 15, 20, 25, 55, 150, 90],
+    temperature: [19.5, 20.3, 20.6, 19.9, 18.6, 17.2, 16.3, 16.8, 18.3, 19.6, 19.3, 19.1],
+    humidity: [62, 58, 64, 74, 76, 73, 71, 70, 64, 62, 72, 70],
+  },
+  eldoret: {
+    rainfall: [25, 35, 70, 145, 160, 110, 165, 180, 100, 65, 50, 30],
+    temperature: [17.5, 18.2, 18.4, 17.6, 16.9, 16.2, 15.6, 15.8, 16.5, 16.8, 16.6, 17.0],
+    humidity: [52, 50, 58, 70, 76, 76, 78, 79, 72, 68, 66, 58],
+  },
+  nakuru: {
+    rainfall: [30, 35, 65, 130, 120, 75, 90, 100, 70, 50, 55, 40],
+    temperature: [19.8, 20.4, 20.6, 19.8, 18.9, 18.1, 17.6, 17.9, 18.7, 19.3, 19.0, 19.2],
+    humidity: [55, 52, 58, 68, 72, 70, 70, 71, 65, 62, 66, 60],
+  },
+  kisumu: {
+    rainfall: [75, 95, 155, 200, 160, 85, 70, 85, 80, 90, 120, 100],
+    temperature: [23.8, 24.1, 23.8, 23.0, 22.6, 22.3, 22.0, 22.5, 23.2, 23.6, 23.2, 23.3],
+    humidity: [64, 62, 67, 74, 76, 73, 71, 71, 68, 68, 72, 70],
+  },
+  mombasa: {
+    rainfall: [30, 15, 55, 190, 240, 90, 70, 65, 65, 90, 100, 70],
+    temperature: [27.8, 28.3, 28.5, 27.6, 26.1, 25.0, 24.2, 24.3, 25.2, 26.3, 27.2, 27.6],
+    humidity: [72, 71, 73, 78, 81, 80, 79, 78, 76, 76, 76, 74],
+  },
+  kitale: {
+    rainfall: [30, 40, 80, 160, 175, 125, 170, 180, 110, 80, 60, 35],
+    temperature: [19.2, 19.8, 19.6, 18.8, 18.1, 17.4, 16.9, 17.1, 17.8, 18.3, 18.2, 18.6],
+    humidity: [50, 48, 56, 68, 75, 75, 77, 78, 72, 68, 66, 56],
+  },
+  meru: {
+    rainfall: [40, 30, 110, 320, 150, 20, 20, 20, 20, 120, 300, 110],
+    temperature: [19.0, 19.8, 20.0, 19.3, 18.4, 17.0, 16.3, 16.6, 18.0, 19.1, 18.6, 18.5],
+    humidity: [60, 55, 62, 76, 78, 74, 74, 72, 64, 64, 78, 72],
+  },
+  nyeri: {
+    rainfall: [40, 40, 95, 230, 155, 40, 35, 40, 30, 100, 140, 70],
+    temperature: [18.0, 18.8, 19.2, 18.6, 17.6, 16.0, 15.2, 15.6, 17.0, 18.3, 17.8, 17.6],
+    humidity: [64, 60, 66, 77, 80, 78, 77, 76, 68, 66, 76, 72],
+  },
+  machakos: {
+    rainfall: [45, 30, 85, 170, 60, 10, 5, 5, 10, 60, 190, 110],
+    temperature: [20.5, 21.3, 21.6, 20.9, 19.7, 18.2, 17.4, 17.9, 19.4, 20.8, 20.3, 20.0],
+    humidity: [60, 55, 60, 70, 70, 66, 65, 63, 57, 57, 68, 66],
+  },
+  garissa: {
+    rainfall: [10, 5, 35, 90, 40, 5, 5, 5, 5, 55, 110, 40],
+    temperature: [29.2, 30.1, 30.5, 29.6, 28.8, 28.0, 27.5, 27.8, 28.8, 29.4, 28.6, 28.6],
+    humidity: [55, 52, 55, 63, 62, 60, 60, 58, 55, 57, 65, 62],
+  },
+  kakamega: {
+    rainfall: [65, 90, 160, 250, 230, 160, 150, 180, 150, 150, 120, 85],
+    temperature: [21.3, 21.7, 21.4, 20.6, 20.2, 19.8, 19.4, 19.7, 20.4, 20.8, 20.6, 20.8],
+    humidity: [62, 60, 67, 76, 78, 77, 77, 77, 73, 72, 72, 67],
+  },
+  kericho: {
+    rainfall: [90, 110, 170, 240, 230, 170, 160, 190, 160, 140, 130, 110],
+    temperature: [17.8, 18.2, 18.0, 17.3, 16.8, 16.2, 15.8, 16.0, 16.7, 17.1, 17.0, 17.4],
+    humidity: [65, 63, 70, 79, 81, 80, 80, 80, 76, 75, 75, 70],
+  },
+  embu: {
+    rainfall: [35, 30, 100, 330, 180, 25, 25, 25, 25, 140, 250, 90],
+    temperature: [19.8, 20.6, 20.8, 20.0, 19.1, 17.8, 17.0, 17.4, 18.8, 19.9, 19.4, 19.3],
+    humidity: [60, 55, 62, 76, 78, 74, 73, 72, 64, 64, 76, 72],
+  },
+};
+
+// National average used when a location is not in the fixture set
+export const defaultClimate: MonthlyClimate = {
+  rainfall: [40, 45, 90, 180, 140, 65, 70, 80, 60, 85, 140, 75],
+  temperature: [21.0, 21.6, 21.8, 21.0, 20.1, 19.1, 18.5, 18.8, 19.9, 20.8, 20.4, 20.6],
+  humidity: [60, 57, 63, 73, 75, 73, 72, 72, 67, 66, 71, 67],
+};
@@ -0,0 +1,196 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { climatologySeries, fixtureWeatherProvider } from "./fixture-provider.ts";
+import { openMeteoWeatherProvider } from "./open-meteo-provider.ts";
+import { addDays, eachDay, today } from "./dates.ts";
+import type { DailyWeather, WeatherProvider, WeatherQuery, WeatherSummary } from "./types.ts";
+
+export { climatologySeries } from "./fixture-provider.ts";
+export type { DailyWeather, WeatherProvider, WeatherQuery, WeatherSummary } from "./types.ts";
+
+// Window of weather a prediction is based on
+const HISTORY_DAYS = 30;
+const FORECAST_DAYS = 14;
+// Forecasts are re-fetched once cached values are older than this
+const FORECAST_TTL_MS = 6 * 60 * 60 * 1000;
+// The archive runs a few days behind, so cached observations count as
+// complete with the days since this many ago still missing
+const ARCHIVE_LAG_DAYS = 7;
+
+const providers: Record<string, WeatherProvider> = {
+  [openMeteoWeatherProvider.id]: openMeteoWeatherProvider,
+  [fixtureWeatherProvider.id]: fixtureWeatherProvider,
+};
+
+// WEATHER_PROVIDER=fixture serves climatology fixtures for offline testing
+export const getWeatherProvider = (id = Deno.env.get("WEATHER_PROVIDER")) => {
+  const provider = providers[id || openMeteoWeatherProvider.id];
+  if (!provider) {
+    throw new Error(`Unknown weather provider: ${id}`);
+  }
+  return provider;
+};
+
+// Cache cells are 0.1° (about 11 km) so nearby farms share observations
+export const locationKey = (query: Pick<WeatherQuery, 'latitude' | 'longitude'>) =>
+  `${query.latitude.toFixed(1)},${query.longitude.toFixed(1)}`;
+
+interface WeatherObservationRow {
+  observed_on: string;
+  kind: DailyWeather['kind'];
+  rainfall_mm: number | string;
+  temperature_c: number | string;
+  humidity_pct: number | string;
+  fetched_at: string;
+}
+
+const fromRow = (row: WeatherObservationRow): DailyWeather => ({
+  date: row.observed_on,
+  rainfall_mm: Number(row.rainfall_mm),
+  temperature_c: Number(row.temperature_c),
+  humidity_pct: Number(row.humidity_pct),
+  kind: row.kind,
+});
+
+// Reads a range from weather_observations, falling back to the provider when
+// the cache is incomplete or the cached forecast is stale. Observations the
+// archive doesn't have yet don't count as missing.
+export const getDailyWeather = async (
+  client: SupabaseClient,
+  provider: WeatherProvider,
+  query: WeatherQuery,
+  kind: DailyWeather['kind']
+): Promise<DailyWeather[]> => {
+  const key = locationKey(query);
+
+  const { data: cached, error: cacheError } = await client
+    .from('weather_observations')
+    .select('*')
+    .eq('location_key', key)
+    .eq('provider', provider.id)
+    .eq('kind', kind)
+    .gte('observed_on', query.start)
+    .lte('observed_on', query.end)
+    .order('observed_on');
+
+  if (cacheError) {
+    console.error("Weather cache read error:", cacheError);
+  }
+
+  const fresh = ((cached ?? []) as WeatherObservationRow[]).filter((row) =>
+    kind === 'observed' || Date.now() - Date.parse(row.fetched_at) < FORECAST_TTL_MS
+  );
+  const settled = addDays(today(), -ARCHIVE_LAG_DAYS);
+  const required = eachDay(query.start, query.end).filter((day) => kind === 'forecast' || day < settled);
+  const cachedDays = new Set(fresh.map((row) => row.observed_on));
+  if (fresh.length > 0 && required.every((day) => cachedDays.has(day))) {
+    return fresh.map(fromRow);
+  }
+
+  const days = kind === 'observed'
+    ? await provider.getHistorical(query)
+    : await provider.getForecast(query);
+
+  const { error: upsertError } = await client
+    .from('weather_observations')
+    .upsert(days.map((day) => ({
+      location_key: key,
+      provider: provider.id,
+      observed_on: day.date,
+      kind: day.kind,
+      rainfall_mm: day.rainfall_mm,
+      temperature_c: day.temperature_c,
+      humidity_pct: day.humidity_pct,
+      latitude: query.latitude,
+      longitude: query.longitude,
+      fetched_at: new Date().toISOString(),
+    })), { onConflict: 'location_key,provider,observed_on' });
+
+  // A failed cache write shouldn't fail the prediction
+  if (upsertError) {
+    console.error("Weather cache write error:", upsertError);
+  }
+
+  return days;
+};
+
+export const summarizeWeather = (
+  days: DailyWeather[],
+  query: Pick<WeatherQuery, 'location' | 'latitude' | 'longitude'>,
+  provider: string
+): WeatherSummary => {
+  if (days.length === 0) {
+    throw new Error(`No weather data available for location: ${query.location}`);
+  }
+
+  const round = (value: number) => Math.round(value * 10) / 10;
+  const total = (values: number[]) => values.reduce((sum, value) => sum + value, 0);
+
+  return {
+    temperature: round(total(days.map((day) => day.temperature_c)) / days.length),
+    rainfall: round(total(days.map((day) => day.rainfall_mm))),
+    humidity: round(total(days.map((day) => day.humidity_pct)) / days.length),
+    location: query.location,
+    latitude: query.latitude,
+    longitude: query.longitude,
+    provider,
+    period_start: days[0].date,
+    period_end: days[days.length - 1].date,
+    observed_days: days.filter((day) => day.kind === 'observed').length,
+    forecast_days: days.filter((day) => day.kind === 'forecast').length,
+  };
+};
+
+// Recent observations plus the short-range forecast around today
+export const getPredictionWeather = async (
+  client: SupabaseClient,
+  query: Omit<WeatherQuery, 'start' | 'end'>
+) => {
+  const provider = getWeatherProvider();
+  const now = today();
+
+  const [observed, forecast] = await Promise.all([
+    getDailyWeather(client, provider, { ...query, start: addDays(now, -HISTORY_DAYS), end: addDays(now, -1) }, 'observed'),
+    getDailyWeather(client, provider, { ...query, start: now, end: addDays(now, FORECAST_DAYS - 1) }, 'forecast'),
+  ]);
+
+  const days = [...observed, ...forecast];
+  return {
+    days,
+    summary: summarizeWeather(days, query, provider.id),
+  };
+};
+
+// Weather for a season: observations up to yesterday, the short-range
+// forecast, and climatology for every day of the season so projections can
+// fill whatever is not known yet
+export const getSeasonWeather = async (
+  client: SupabaseClient,
+  query: Omit<WeatherQuery, 'start' | 'end'>,
+  start: string,
+  end: string
+) => {
+  const provider = getWeatherProvider();
+  const now = today();
+  const yesterday = addDays(now, -1);
+  const forecastEnd = addDays(now, FORECAST_DAYS - 1);
+
+  const [observed, forecast] = await Promise.all([
+    start <= yesterday
+      ? getDailyWeather(client, provider, { ...query, start, end: end < yesterday ? end : yesterday }, 'observed')
+      : [],
+    end >= now && start <= forecastEnd
+      ? getDailyWeather(client, provider, {
+        ...query,
+        start: start > now ? start : now,
+        end: end < forecastEnd ? end : forecastEnd,
+      }, 'forecast')
+      : [],
+  ]);
+
+  return {
+    observed,
+    forecast,
+    climatology: climatologySeries({ ...query, start, end }),
+    provider: provider.id,
+  };
+};
@@ -0,0 +1,41 @@
+import type { DailyWeather, WeatherProvider, WeatherQuery } from "./types.ts";
+
+const ARCHIVE_URL = "https://archive-api.open-meteo.com/v1/archive";
+const FORECAST_URL = "https://api.open-meteo.com/v1/forecast";
+
+const DAILY_FIELDS = "precipitation_sum,temperature_2m_mean,relative_humidity_2m_mean";
+
+const fetchDaily = async (
+  baseUrl: string,
+  query: WeatherQuery,
+  kind: DailyWeather['kind']
+): Promise<DailyWeather[]> => {
+  const params = new URLSearchParams({
+    latitude: String(query.latitude),
+    longitude: String(query.longitude),
+    start_date: query.start,
+    end_date: query.end,
+    daily: DAILY_FIELDS,
+    timezone: "Africa/Nairobi",
+  });
+
+  const response = await fetch(`${baseUrl}?${params}`);
+  if (!response.ok) {
+    throw new Error(`Weather request failed: ${response.status}`);
+  }
+  const { daily } = await response.json();
+
+  return (daily?.time ?? []).map((date: string, i: number) => ({
+    date,
+    rainfall_mm: daily.precipitation_sum[i] ?? 0,
+    temperature_c: daily.temperature_2m_mean[i],
+    humidity_pct: daily.relative_humidity_2m_mean[i],
+    kind,
+  })).filter((day: DailyWeather) => day.temperature_c != null);
+};
+
+export const openMeteoWeatherProvider: WeatherProvider = {
+  id: 'open-meteo',
+  getHistorical: (query) => fetchDaily(ARCHIVE_URL, query, 'observed'),
+  getForecast: (query) => fetchDaily(FORECAST_URL, query, 'forecast'),
+};
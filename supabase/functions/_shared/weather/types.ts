@@ -0,0 +1,41 @@
+export interface WeatherQuery {
+  // Free-text farm location, kept for display only
+  location: string;
+  latitude: number;
+  longitude: number;
+  // Inclusive ISO dates (YYYY-MM-DD)
+  start: string;
+  end: string;
+}
+
+export interface DailyWeather {
+  date: string;
+  rainfall_mm: number;
+  temperature_c: number;
+  humidity_pct: number;
+  kind: 'observed' | 'forecast';
+}
+
+export interface WeatherProvider {
+  id: string;
+  getHistorical: (query: WeatherQuery) => Promise<DailyWeather[]>;
+  getForecast: (query: WeatherQuery) => Promise<DailyWeather[]>;
+}
+
+// Aggregate persisted in predictions.weather_summary and fed to the models
+export interface WeatherSummary {
+  // Mean daily temperature (°C)
+  temperature: number;
+  // Total rainfall over the period (mm)
+  rainfall: number;
+  // Mean relative humidity (%)
+  humidity: number;
+  location: string;
+  latitude: number;
+  longitude: number;
+  provider: string;
+  period_start: string;
+  period_end: string;
+  observed_days: number;
+  forecast_days: number;
+}
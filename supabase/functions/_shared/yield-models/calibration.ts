@@ -0,0 +1,365 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { CropProfile } from "../crops.ts";
+import { soilNutrients, type SoilTest } from "../soil-tests.ts";
+import { applyVariety, fetchVarieties } from "../varieties.ts";
+import type { SoilNutrients } from "../response-curves.ts";
+import { addDays } from "../weather/dates.ts";
+import type { DailyWeather, WeatherSummary } from "../weather/index.ts";
+import { selectYieldModel } from "./registry.ts";
+import type { YieldModel, YieldModelInput } from "./types.ts";
+
+export type CalibrationStatus = 'active' | 'retired' | 'rolled_back' | 'rejected';
+
+// Error of a set of predictions against harvests (t/ha). A positive bias
+// over-predicts; MAPE (%) leaves out failed harvests.
+export interface ErrorMetrics {
+  mae: number;
+  bias: number;
+  rmse: number;
+  mape: number | null;
+}
+
+// A row of public.model_calibrations
+export interface ModelCalibration {
+  id: string;
+  model_id: string;
+  crop_id: string;
+  version: number;
+  base_yield: number;
+  catalogue_base_yield: number;
+  sample_size: number;
+  before_metrics: ErrorMetrics;
+  after_metrics: ErrorMetrics;
+  status: CalibrationStatus;
+  previous_id: string | null;
+  fitted_at: string;
+  activated_at: string | null;
+}
+
+// A season's harvest with the inputs of the last prediction made for it
+export interface CalibrationSample {
+  season_id: string;
+  prediction_id: string;
+  input: YieldModelInput;
+  actual: number;
+}
+
+export interface CalibrationFit {
+  model_id: string;
+  crop_id: string;
+  base_yield: number;
+  catalogue_base_yield: number;
+  sample_size: number;
+  // With the coefficients being replaced, and with the new ones
+  before: ErrorMetrics;
+  after: ErrorMetrics;
+  improves: boolean;
+}
+
+// Harvests a crop needs before it is refitted
+export const MIN_SAMPLES = 5;
+// Weight of the catalogue base yield, in harvests, so a handful of
+// harvests only moves it part of the way
+const PRIOR_SAMPLES = 5;
+// Furthest one calibration may move the base yield from the catalogue
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 1.5;
+
+const NO_NUTRIENTS: SoilNutrients = {
+  nitrogen: null,
+  phosphorus: null,
+  potassium: null,
+  cec: null,
+  ec: null,
+  fractions: null,
+};
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+export const calibrationKey = (modelId: string, cropId: string) => `${modelId}:${cropId}`;
+
+// Active calibrations for the given crops, keyed by calibrationKey
+export const fetchActiveCalibrations = async (client: SupabaseClient, cropIds: string[]) => {
+  const { data, error } = await client
+    .from('model_calibrations')
+    .select('*')
+    .eq('status', 'active')
+    .in('crop_id', cropIds);
+
+  if (error) throw error;
+  return new Map((data as ModelCalibration[]).map((calibration) =>
+    [calibrationKey(calibration.model_id, calibration.crop_id), calibration]
+  ));
+};
+
+// The model run with the base yield scaled as calibrated, under a version
+// that tells its predictions apart from the uncalibrated model's. Varieties
+// keep their yield potential relative to the catalogue's.
+export const calibrateModel = (
+  model: YieldModel,
+  calibration?: Pick<ModelCalibration, 'version' | 'base_yield' | 'catalogue_base_yield'>
+): YieldModel => calibration
+  ? {
+      ...model,
+      version: `${model.version}+cal.${calibration.version}`,
+      predict: (input) => model.predict({
+        ...input,
+        crop: {
+          ...input.crop,
+          base_yield: Number(input.crop.base_yield) * Number(calibration.base_yield) /
+            Number(calibration.catalogue_base_yield),
+        },
+      }),
+    }
+  : model;
+
+// selectYieldModel with the crop's active calibration applied
+export const selectCalibratedModel = (
+  cropId: string,
+  calibrations: Map<string, ModelCalibration>,
+  requested?: string | null
+) => {
+  const model = selectYieldModel(cropId, requested);
+  return calibrateModel(model, calibrations.get(calibrationKey(model.id, cropId)));
+};
+
+export const errorMetrics = (pairs: { predicted: number; actual: number }[]): ErrorMetrics => {
+  const errors = pairs.map(({ predicted, actual }) => predicted - actual);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const percentages = pairs
+    .filter(({ actual }) => actual > 0)
+    .map(({ predicted, actual }) => Math.abs(predicted - actual) / actual * 100);
+
+  return {
+    mae: round(mean(errors.map(Math.abs))),
+    bias: round(mean(errors)),
+    rmse: round(Math.sqrt(mean(errors.map((error) => error * error)))),
+    mape: percentages.length > 0 ? round(mean(percentages), 1) : null,
+  };
+};
+
+// Every model scales linearly with the crop's base yield, so the refit is
+// the least-squares scale on uncalibrated predictions, shrunk towards the
+// catalogue value
+const fitScale = (pairs: { predicted: number; actual: number }[]) => {
+  const sumSquares = pairs.reduce((sum, { predicted }) => sum + predicted * predicted, 0);
+  if (sumSquares === 0) return 1;
+  const scale = pairs.reduce((sum, { predicted, actual }) => sum + predicted * actual, 0) / sumSquares;
+  const weight = pairs.length / (pairs.length + PRIOR_SAMPLES);
+  return clamp(1 + weight * (scale - 1), MIN_SCALE, MAX_SCALE);
+};
+
+// Refits the crop's base yield for a model from its harvests. The new
+// coefficients are scored holding each harvest out of its own fit, so they
+// only improve on the current ones if they generalise.
+export const fitCalibration = (
+  model: YieldModel,
+  crop: CropProfile,
+  samples: CalibrationSample[],
+  current?: ModelCalibration
+): CalibrationFit => {
+  const catalogue = Number(crop.base_yield);
+  const pairs = samples.map((sample) => ({
+    predicted: model.predict(sample.input).yield_per_hectare,
+    actual: sample.actual,
+  }));
+  const currentScale = current ? Number(current.base_yield) / catalogue : 1;
+
+  const before = errorMetrics(pairs.map(({ predicted, actual }) => ({ predicted: predicted * currentScale, actual })));
+  const after = errorMetrics(pairs.map(({ predicted, actual }, i) => ({
+    predicted: predicted * fitScale(pairs.filter((_, j) => j !== i)),
+    actual,
+  })));
+
+  return {
+    model_id: model.id,
+    crop_id: crop.id,
+    base_yield: round(catalogue * fitScale(pairs), 2),
+    catalogue_base_yield: catalogue,
+    sample_size: samples.length,
+    before,
+    after,
+    improves: after.mae < before.mae,
+  };
+};
+
+// Predictions keep only the weather summary; models that step through days
+// see its mean rainfall and temperature on every day
+const summaryDays = (summary: WeatherSummary): DailyWeather[] => {
+  const days = Math.max(1, summary.observed_days + summary.forecast_days);
+  return Array.from({ length: days }, (_, i) => ({
+    date: addDays(summary.period_start, i),
+    rainfall_mm: summary.rainfall / days,
+    temperature_c: summary.temperature,
+    humidity_pct: summary.humidity,
+    kind: i < summary.observed_days ? 'observed' : 'forecast',
+  }));
+};
+
+interface StoredPrediction {
+  id: string;
+  soil_test_id: string | null;
+  soil_ph: number | null;
+  soil_moisture: number | null;
+  organic_matter: number | null;
+  weather_summary: WeatherSummary | null;
+  variety_id: string | null;
+}
+
+// Every recorded harvest of a crop with the inputs of the last prediction
+// made for it, grown from the variety it was made for. Reads all users'
+// harvests, so it needs the service role.
+export const loadCalibrationSamples = async (
+  client: SupabaseClient,
+  crop: CropProfile
+): Promise<CalibrationSample[]> => {
+  const { data: scored, error: scoredError } = await client
+    .from('prediction_accuracy')
+    .select('prediction_id, season_id, actual_yield')
+    .eq('crop_id', crop.id)
+    .order('predicted_at', { ascending: false });
+  if (scoredError) throw scoredError;
+
+  const latest = new Map<string, { prediction_id: string; actual_yield: number }>();
+  for (const row of scored) {
+    if (!latest.has(row.season_id)) latest.set(row.season_id, row);
+  }
+  if (latest.size === 0) return [];
+
+  const { data: predictions, error: predictionsError } = await client
+    .from('predictions')
+    .select('id, soil_test_id, soil_ph, soil_moisture, organic_matter, weather_summary, variety_id')
+    .in('id', [...latest.values()].map((row) => row.prediction_id));
+  if (predictionsError) throw predictionsError;
+
+  const soilTestIds = (predictions as StoredPrediction[])
+    .map((prediction) => prediction.soil_test_id)
+    .filter((id): id is string => id != null);
+  const soilTests = new Map<string, SoilTest>();
+  if (soilTestIds.length > 0) {
+    const { data, error } = await client.from('soil_tests').select('*').in('id', soilTestIds);
+    if (error) throw error;
+    (data as SoilTest[]).forEach((test) => soilTests.set(test.id, test));
+  }
+  const varieties = await fetchVarieties(client, [...new Set((predictions as StoredPrediction[])
+    .map((prediction) => prediction.variety_id)
+    .filter((id): id is string => id != null))]);
+
+  const byId = new Map((predictions as StoredPrediction[]).map((prediction) => [prediction.id, prediction]));
+  const samples: CalibrationSample[] = [];
+  for (const [seasonId, { prediction_id, actual_yield }] of latest) {
+    const prediction = byId.get(prediction_id);
+    // Predictions from before soil readings and weather were stored can't be re-run
+    if (!prediction?.weather_summary || prediction.soil_ph == null ||
+        prediction.soil_moisture == null || prediction.organic_matter == null) {
+      continue;
+    }
+    const soilTest = prediction.soil_test_id ? soilTests.get(prediction.soil_test_id) : undefined;
+
+    samples.push({
+      season_id: seasonId,
+      prediction_id,
+      actual: Number(actual_yield),
+      input: {
+        crop: applyVariety(crop, prediction.variety_id ? varieties.get(prediction.variety_id) : null),
+        areaHa: 1,
+        soilPh: Number(prediction.soil_ph),
+        soilMoisture: Number(prediction.soil_moisture),
+        organicMatter: Number(prediction.organic_matter),
+        nutrients: soilTest ? soilNutrients(soilTest) : NO_NUTRIENTS,
+        weather: prediction.weather_summary,
+        dailyWeather: summaryDays(prediction.weather_summary),
+      },
+    });
+  }
+  return samples;
+};
+
+// Records a fit. One that improves on the current coefficients becomes the
+// active calibration and retires them; the rest are kept as rejected.
+export const publishCalibration = async (
+  client: SupabaseClient,
+  fit: CalibrationFit,
+  current?: ModelCalibration
+): Promise<ModelCalibration> => {
+  const { data: last, error: lastError } = await client
+    .from('model_calibrations')
+    .select('version')
+    .eq('model_id', fit.model_id)
+    .eq('crop_id', fit.crop_id)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (lastError) throw lastError;
+
+  const setStatus = async (id: string, status: CalibrationStatus) => {
+    const { error } = await client.from('model_calibrations').update({ status }).eq('id', id);
+    if (error) throw error;
+  };
+
+  // Only one calibration per model and crop can be active
+  if (fit.improves && current) await setStatus(current.id, 'retired');
+
+  const { data, error } = await client
+    .from('model_calibrations')
+    .insert({
+      model_id: fit.model_id,
+      crop_id: fit.crop_id,
+      version: (last?.version ?? 0) + 1,
+      base_yield: fit.base_yield,
+      catalogue_base_yield: fit.catalogue_base_yield,
+      sample_size: fit.sample_size,
+      before_metrics: fit.before,
+      after_metrics: fit.after,
+      status: fit.improves ? 'active' : 'rejected',
+      previous_id: fit.improves ? current?.id ?? null : null,
+      activated_at: fit.improves ? new Date().toISOString() : null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    if (fit.improves && current) await setStatus(current.id, 'active');
+    throw error;
+  }
+  return data as ModelCalibration;
+};
+
+// Rolls back the active calibration for a model and crop, reinstating the
+// one it replaced, or the catalogue base yield if it was the first
+export const rollbackCalibration = async (client: SupabaseClient, modelId: string, cropId: string) => {
+  const { data: active, error: activeError } = await client
+    .from('model_calibrations')
+    .select('*')
+    .eq('model_id', modelId)
+    .eq('crop_id', cropId)
+    .eq('status', 'active')
+    .maybeSingle();
+  if (activeError) throw activeError;
+  if (!active) {
+    throw new Error(`No active calibration of ${modelId} for ${cropId}`);
+  }
+
+  const { error: rollbackError } = await client
+    .from('model_calibrations')
+    .update({ status: 'rolled_back' })
+    .eq('id', active.id);
+  if (rollbackError) throw rollbackError;
+
+  let restored: ModelCalibration | null = null;
+  if (active.previous_id) {
+    const { data, error } = await client
+      .from('model_calibrations')
+      .update({ status: 'active', activated_at: new Date().toISOString() })
+      .eq('id', active.previous_id)
+      .select()
+      .single();
+    if (error) throw error;
+    restored = data as ModelCalibration;
+  }
+
+  return { rolled_back: active as ModelCalibration, restored };
+};
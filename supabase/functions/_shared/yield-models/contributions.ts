@@ -0,0 +1,203 @@
+import {
+  NUTRIENT_FACTORS,
+  optimalSoil,
+  optimalWeather,
+  rainfallAdequacy,
+  type NutrientFactor,
+} from "../response-curves.ts";
+import type { YieldModel, YieldModelInput, YieldModelResult } from "./types.ts";
+
+// Inputs a prediction's yield is attributed to. 'crop' is the gap between
+// the catalogue's base yield and what the model gives under ideal conditions.
+export type ContributionFactor = 'crop' | 'ph' | 'moisture' | 'organic_matter' | 'nutrients' | 'weather';
+
+export interface FactorContribution {
+  factor: ContributionFactor;
+  // Change in yield (t/ha) the factor accounts for
+  contribution: number;
+  // Plain-language advice when the factor holds the yield back
+  advice: string | null;
+}
+
+// Waterfall from the crop's base yield to the prediction: the contributions
+// sum to yield_per_hectare - baseline
+export interface YieldExplanation {
+  baseline: number;
+  contributions: FactorContribution[];
+  yield_per_hectare: number;
+}
+
+type InputFactor = Exclude<ContributionFactor, 'crop'>;
+
+const INPUT_FACTORS: InputFactor[] = ['ph', 'moisture', 'organic_matter', 'nutrients', 'weather'];
+
+// Losses smaller than this share of the baseline get no advice
+const ADVICE_THRESHOLD = 0.02;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const factorial = (n: number): number => (n <= 1 ? 1 : n * factorial(n - 1));
+
+// The prediction's input with every factor outside `actual` set to its ideal
+const counterfactual = (
+  input: YieldModelInput,
+  ideal: YieldModelInput,
+  actual: Set<InputFactor>
+): YieldModelInput => ({
+  ...input,
+  soilPh: actual.has('ph') ? input.soilPh : ideal.soilPh,
+  soilMoisture: actual.has('moisture') ? input.soilMoisture : ideal.soilMoisture,
+  organicMatter: actual.has('organic_matter') ? input.organicMatter : ideal.organicMatter,
+  nutrients: actual.has('nutrients') ? input.nutrients : ideal.nutrients,
+  weather: actual.has('weather') ? input.weather : ideal.weather,
+  dailyWeather: actual.has('weather') ? input.dailyWeather : ideal.dailyWeather,
+});
+
+// Ideal soil from the peaks of the crop's response curves, no limiting lab
+// measurements, and the window's days at the crop's preferred temperature
+// and rainfall
+const idealInput = (input: YieldModelInput): YieldModelInput => {
+  const soil = optimalSoil(input.crop);
+  const weather = optimalWeather(input.crop);
+  const days = Math.max(1, input.weather.observed_days + input.weather.forecast_days);
+  return {
+    ...input,
+    soilPh: soil.ph,
+    soilMoisture: soil.moisture,
+    organicMatter: soil.organic_matter,
+    nutrients: {},
+    weather: { ...input.weather, temperature: weather.temperature, rainfall: weather.rainfall * days },
+    dailyWeather: input.dailyWeather.map((day) => ({
+      ...day,
+      temperature_c: weather.temperature,
+      rainfall_mm: weather.rainfall,
+    })),
+  };
+};
+
+const NUTRIENT_ADVICE: Record<NutrientFactor, string> = {
+  nitrogen: "Soil nitrogen is low; a top-dress of CAN or urea when the crop is knee-high replaces it.",
+  phosphorus: "Soil phosphorus is low; DAP or TSP placed in the planting hole makes it available to young roots.",
+  potassium: "Soil potassium is low; muriate of potash at planting builds it up.",
+  cec: "The soil holds few nutrients; adding organic matter raises its capacity, and splitting fertilizer into smaller doses cuts losses.",
+  ec: "Salts in the soil are stressing the crop; flush them below the root zone with good-quality water and avoid saline irrigation sources.",
+  texture: "The soil's texture limits water and nutrient holding; compost and manure improve both sandy and heavy clay soils.",
+};
+
+// Where a soil value sits against the crop's optimal range; models that peak
+// mid-range lose a little towards either end of it
+const position = (value: number, min: number, max: number) => {
+  if (value < min) return 'below';
+  if (value > max) return 'above';
+  return value < (min + max) / 2 ? 'at the low end of' : 'at the high end of';
+};
+
+const low = (value: number, min: number, max: number) => value < (min + max) / 2;
+
+const adviceFor = (factor: ContributionFactor, input: YieldModelInput, result: YieldModelResult) => {
+  const { crop, soilPh, soilMoisture, organicMatter, weather } = input;
+  const name = crop.display_name.toLowerCase();
+
+  switch (factor) {
+    case 'ph': {
+      const { optimal_ph_min: min, optimal_ph_max: max } = crop;
+      return `Soil pH ${soilPh} is ${position(soilPh, min, max)} the ${min}–${max} ${name} prefers. `
+        + (low(soilPh, min, max)
+          ? "Agricultural lime raises it and frees up phosphorus."
+          : "Sulphate of ammonia as the nitrogen source brings it down gradually.");
+    }
+    case 'moisture': {
+      const { optimal_moisture_min: min, optimal_moisture_max: max } = crop;
+      return `Soil moisture of ${soilMoisture}% is ${position(soilMoisture, min, max)} the ${min}–${max}% ${name} needs. `
+        + (low(soilMoisture, min, max)
+          ? "Irrigation or mulching keeps more water in the root zone."
+          : "Drainage channels or raised beds keep the roots from waterlogging.");
+    }
+    case 'organic_matter': {
+      const { optimal_organic_min: min, optimal_organic_max: max } = crop;
+      return `Organic matter of ${organicMatter}% is ${position(organicMatter, min, max)} the ${min}–${max}% ${name} does best in. `
+        + (low(organicMatter, min, max)
+          ? "Compost, manure and returning crop residues build it up over a few seasons."
+          : "Very organic soils are often wet, so check drainage.");
+    }
+    case 'nutrients': {
+      const measured = NUTRIENT_FACTORS.filter((nutrient) => result.soil_response.nutrient_factors[nutrient] != null);
+      if (measured.length === 0) return null;
+      const lowest = measured.reduce((worst, nutrient) =>
+        result.soil_response.nutrient_factors[nutrient]! < result.soil_response.nutrient_factors[worst]! ? nutrient : worst
+      );
+      return `${NUTRIENT_ADVICE[lowest]} The fertilizer recommendation gives rates for your target yield.`;
+    }
+    case 'weather': {
+      const { temperature, rainfall } = result.weather_response.factors;
+      if (rainfall <= temperature) {
+        return rainfallAdequacy(weather) < 1
+          ? `Rain over this period falls short of what ${name} uses. Irrigating, or mulching to hold the rain that does fall, protects the yield.`
+          : "Heavy rain is expected. Clear drainage, and split nitrogen top-dressing so less is washed out.";
+      }
+      return weather.temperature < optimalWeather(crop).temperature
+        ? `Temperatures are cooler than ${name} prefers and slow its growth. A faster-maturing variety or an earlier planting date helps next season.`
+        : `Temperatures are hotter than ${name} prefers. Keeping the soil moist and planting so flowering avoids the hottest weeks helps next season.`;
+    }
+    default:
+      return null;
+  }
+};
+
+// Attributes a prediction to its inputs. Each factor's contribution is its
+// Shapley value: the average change in yield from swapping it from its ideal
+// to its actual value, over every combination of the other factors. Unlike
+// swapping factors in one order, this gives each factor the same share
+// whatever the order, and the shares still add up to the prediction.
+export const explainPrediction = (
+  model: YieldModel,
+  input: YieldModelInput,
+  result: YieldModelResult
+): YieldExplanation => {
+  const ideal = idealInput(input);
+  const n = INPUT_FACTORS.length;
+
+  // Yield for every subset of factors at their actual values, by bitmask
+  const yields: number[] = [];
+  for (let mask = 0; mask < 1 << n; mask++) {
+    const actual = new Set(INPUT_FACTORS.filter((_, i) => mask & (1 << i)));
+    yields[mask] = mask === (1 << n) - 1
+      ? result.yield_per_hectare
+      : model.predict(counterfactual(input, ideal, actual)).yield_per_hectare;
+  }
+
+  const shapley = INPUT_FACTORS.map((_, i) => {
+    let value = 0;
+    for (let mask = 0; mask < 1 << n; mask++) {
+      if (mask & (1 << i)) continue;
+      let size = 0;
+      for (let bits = mask; bits; bits &= bits - 1) size++;
+      const weight = (factorial(size) * factorial(n - size - 1)) / factorial(n);
+      value += weight * (yields[mask | (1 << i)] - yields[mask]);
+    }
+    return value;
+  });
+
+  const baseline = Number(input.crop.base_yield);
+  const values: [ContributionFactor, number][] = [
+    ['crop', yields[0] - baseline],
+    ...INPUT_FACTORS.map((factor, i) => [factor, shapley[i]] as [ContributionFactor, number]),
+  ];
+
+  // Rounding leftovers go to the largest contribution so the waterfall
+  // still lands on the prediction
+  const rounded = values.map(([, value]) => round(value));
+  const residual = round(result.yield_per_hectare - baseline - rounded.reduce((sum, value) => sum + value, 0));
+  const largest = values.reduce((best, [, value], i) => Math.abs(value) > Math.abs(values[best][1]) ? i : best, 0);
+  rounded[largest] = round(rounded[largest] + residual);
+
+  return {
+    baseline,
+    contributions: values.map(([factor], i) => ({
+      factor,
+      contribution: rounded[i],
+      advice: rounded[i] < -ADVICE_THRESHOLD * baseline ? adviceFor(factor, input, result) : null,
+    })),
+    yield_per_hectare: result.yield_per_hectare,
+  };
+};
@@ -0,0 +1,90 @@
+import { evaluateSoilResponse, evaluateWeatherResponse } from "../response-curves.ts";
+import { soilNitrogenSupply } from "../soil-nitrogen.ts";
+import { missingInputError, weatherError, yieldInterval } from "./uncertainty.ts";
+import type { YieldModel } from "./types.ts";
+
+// Typical season length used to step the simulation (days)
+const SEASON_DAYS = 120;
+// Available water capacity of the root zone (% volumetric moisture)
+const FIELD_CAPACITY = 40;
+const WILTING_POINT = 12;
+// Daily crop water use as a share of available water at full canopy, at 20°C
+const DAILY_DEPLETION = 0.012;
+// Root zone depth used to convert rainfall (mm) into volumetric moisture (%)
+const ROOT_ZONE_MM = 300;
+// Error of the simulation under unstressed conditions, as a share of yield;
+// the stress responses are cruder and add to it the more they bind
+const MODEL_ERROR = 0.15;
+const STRESS_ERROR = 0.2;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+// Simple daily-step crop simulation. The weather window's mean daily
+// rainfall and temperature drive a root-zone water balance; potential yield
+// is reduced by the resulting water stress, by the crop's temperature
+// response, and by nutrient supply from organic matter mineralisation, with
+// the crop's pH response limiting nutrient availability. A measured total
+// nitrogen replaces the estimate from organic matter, and the most limiting
+// of the other measured nutrients, salinity and texture caps the result.
+export const cropSimulationModel: YieldModel = {
+  id: 'crop-simulation',
+  version: 'crop-simulation-v1.4',
+  name: 'Water-balance crop simulation',
+  predict: ({ crop, soilPh, soilMoisture, organicMatter, nutrients, weather, dailyWeather }) => {
+    const potentialYield = crop.base_yield;
+    const days = Math.max(1, dailyWeather.length);
+    const dailyRain = dailyWeather.reduce((sum, day) => sum + day.rainfall_mm, 0) / days;
+    const evaporativeDemand = clamp(1 + 0.03 * (weather.temperature - 20), 0.5, 1.6);
+
+    let moisture = clamp(soilMoisture, WILTING_POINT, FIELD_CAPACITY + 20);
+    let stressDays = 0;
+    let waterloggedDays = 0;
+
+    for (let day = 0; day < SEASON_DAYS; day++) {
+      // Canopy develops over the first third of the season
+      const canopy = Math.min(1, (day + 1) / (SEASON_DAYS / 3));
+      const available = (moisture - WILTING_POINT) / (FIELD_CAPACITY - WILTING_POINT);
+      if (available < 0.5) stressDays += canopy * (1 - available / 0.5);
+      if (available > 1) waterloggedDays += canopy;
+      moisture += (dailyRain / ROOT_ZONE_MM) * 100;
+      moisture -= DAILY_DEPLETION * evaporativeDemand * canopy * (FIELD_CAPACITY - WILTING_POINT);
+      // Water above saturation drains away
+      moisture = clamp(moisture, WILTING_POINT, FIELD_CAPACITY + 20);
+    }
+
+    const waterFactor = 1 - 0.6 * (stressDays / SEASON_DAYS) - 0.3 * (waterloggedDays / SEASON_DAYS);
+    // Every 20 kg/ha of N the soil supplies over the season lifts yield by a
+    // tenth, from 60% on N-starved soil
+    const nitrogenSupply = soilNitrogenSupply(nutrients, organicMatter);
+    const nutrientFactor = clamp(0.6 + nitrogenSupply / 200, 0.6, 1.05);
+    const soil_response = evaluateSoilResponse(crop, {
+      ph: soilPh,
+      moisture: soilMoisture,
+      organic_matter: organicMatter,
+    }, nutrients);
+    // Nitrogen is already simulated above; the most limiting of the other
+    // measurements caps the result
+    const otherNutrients = Math.min(1, ...Object.entries(soil_response.nutrient_factors)
+      .filter(([factor]) => factor !== 'nitrogen')
+      .map(([, factor]) => factor));
+    // Nutrient availability follows the crop's pH response curve
+    const phAvailability = soil_response.factors.ph;
+    const weather_response = evaluateWeatherResponse(crop, weather);
+
+    const yield_per_hectare = Math.round(potentialYield * clamp(waterFactor, 0, 1) * nutrientFactor
+      * phAvailability * weather_response.factors.temperature * otherNutrients * 100) / 100;
+    const stress = 1 - clamp(Math.min(waterFactor, nutrientFactor, phAvailability), 0, 1);
+
+    return {
+      yield_per_hectare,
+      interval: yieldInterval(yield_per_hectare, [
+        MODEL_ERROR + STRESS_ERROR * stress,
+        missingInputError(soil_response),
+        weatherError(weather),
+      ]),
+      soil_response,
+      weather_response
+    };
+  }
+};
@@ -0,0 +1,41 @@
+import { evaluateSoilResponse, evaluateWeatherResponse, nutrientLimit } from "../response-curves.ts";
+import { missingInputError, weatherError, yieldInterval } from "./uncertainty.ts";
+import type { YieldModel } from "./types.ts";
+
+// Typical error of the rule of thumb against recorded harvests, as a share
+// of yield. Each factor far from its optimum adds to it.
+const MODEL_ERROR = 0.22;
+const OFF_OPTIMUM_ERROR = 0.1;
+
+// Rule-of-thumb model: the crop's base yield scaled by its soil and weather
+// response curves
+export const heuristicModel: YieldModel = {
+  id: 'heuristic',
+  version: 'heuristic-v2.2',
+  name: 'Soil heuristic',
+  predict: ({ crop, soilPh, soilMoisture, organicMatter, nutrients, weather }) => {
+    const soil_response = evaluateSoilResponse(crop, {
+      ph: soilPh,
+      moisture: soilMoisture,
+      organic_matter: organicMatter,
+    }, nutrients);
+    const weather_response = evaluateWeatherResponse(crop, weather);
+    const { ph, moisture, organic_matter } = soil_response.factors;
+    const { temperature, rainfall } = weather_response.factors;
+
+    const yield_per_hectare = Math.round(crop.base_yield * ph * moisture * organic_matter * temperature
+      * rainfall * nutrientLimit(soil_response) * 100) / 100;
+    const offOptimum = (3 - ph - moisture - organic_matter) * OFF_OPTIMUM_ERROR;
+
+    return {
+      yield_per_hectare,
+      interval: yieldInterval(yield_per_hectare, [
+        MODEL_ERROR + offOptimum,
+        missingInputError(soil_response),
+        weatherError(weather),
+      ]),
+      soil_response,
+      weather_response
+    };
+  }
+};
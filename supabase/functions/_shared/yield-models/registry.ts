@@ -0,0 +1,37 @@
+import { heuristicModel } from "./heuristic.ts";
+import { regressionModel } from "./regression.ts";
+import { cropSimulationModel } from "./crop-simulation.ts";
+import type { YieldModel } from "./types.ts";
+
+export type { YieldModel, YieldModelInput, YieldModelResult } from "./types.ts";
+export type { YieldInterval } from "./uncertainty.ts";
+
+const models: Record<string, YieldModel> = {
+  [heuristicModel.id]: heuristicModel,
+  [regressionModel.id]: regressionModel,
+  [cropSimulationModel.id]: cropSimulationModel,
+};
+
+export const DEFAULT_MODEL_ID = heuristicModel.id;
+
+// Crops that are served by a model other than the default unless the
+// request asks for a specific one
+const modelByCrop: Record<string, string> = {
+  'rice': cropSimulationModel.id,
+};
+
+export const listYieldModels = () =>
+  Object.values(models).map(({ id, version, name }) => ({ id, version, name }));
+
+export const getYieldModel = (id: string) => {
+  const model = models[id];
+  if (!model) {
+    throw new Error(`Unknown yield model: ${id}`);
+  }
+  return model;
+};
+
+// An explicitly requested model wins, then the crop's default, then the
+// global default
+export const selectYieldModel = (cropId: string, requested?: string | null) =>
+  getYieldModel(requested || modelByCrop[cropId] || DEFAULT_MODEL_ID);
@@ -0,0 +1,76 @@
+import { evaluateSoilResponse, evaluateWeatherResponse, nutrientLimit } from "../response-curves.ts";
+import { missingInputError, weatherError, yieldInterval } from "./uncertainty.ts";
+import type { YieldModel } from "./types.ts";
+
+// Quadratic response surface fitted around the soil optimum. Each term is
+// expressed as a deviation from the optimum so the intercept is the
+// relative yield under ideal conditions.
+const coefficients = {
+  intercept: 1.0,
+  ph: -0.02,
+  ph2: -0.06,
+  moisture: 0.004,
+  moisture2: -0.0006,
+  organic: 0.05,
+  organic2: -0.015,
+  // Rainfall as a share of 4 mm/day crop water use, centred on 1
+  rainfall: 0.08,
+  rainfall2: -0.04,
+  temperature2: -0.003,
+};
+
+// Residual standard error of the fit, as a share of predicted yield
+const relativeError = 0.18;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+export const regressionModel: YieldModel = {
+  id: 'regression',
+  version: 'regression-v1.3',
+  name: 'Soil regression',
+  predict: ({ crop, soilPh, soilMoisture, organicMatter, nutrients, weather }) => {
+    const ph = soilPh - (crop.optimal_ph_min + crop.optimal_ph_max) / 2;
+    const moisture = soilMoisture - (crop.optimal_moisture_min + crop.optimal_moisture_max) / 2;
+    const organic = organicMatter - (crop.optimal_organic_min + crop.optimal_organic_max) / 2;
+    const days = Math.max(1, weather.observed_days + weather.forecast_days);
+    const rainfall = clamp(weather.rainfall / (days * 4), 0, 3) - 1;
+    const temperature = weather.temperature - 22;
+
+    const relativeYield = coefficients.intercept
+      + coefficients.ph * ph
+      + coefficients.ph2 * ph * ph
+      + coefficients.moisture * moisture
+      + coefficients.moisture2 * moisture * moisture
+      + coefficients.organic * organic
+      + coefficients.organic2 * organic * organic
+      + coefficients.rainfall * rainfall
+      + coefficients.rainfall2 * rainfall * rainfall
+      + coefficients.temperature2 * temperature * temperature;
+
+    const soil_response = evaluateSoilResponse(crop, {
+      ph: soilPh,
+      moisture: soilMoisture,
+      organic_matter: organicMatter,
+    }, nutrients);
+
+    // The surface was fitted on pH, moisture and organic matter only, so
+    // the most limiting measured nutrient caps its result
+    const yield_per_hectare = Math.round(
+      crop.base_yield * clamp(relativeYield, 0.1, 1.2) * nutrientLimit(soil_response) * 100
+    ) / 100;
+    // Extrapolating far outside the fitted soil ranges widens the error
+    const distance = Math.abs(ph) / 1.5 + Math.abs(moisture) / 20 + Math.abs(organic) / 3;
+
+    return {
+      yield_per_hectare,
+      interval: yieldInterval(yield_per_hectare, [
+        relativeError * (1 + distance * 0.25),
+        missingInputError(soil_response),
+        weatherError(weather),
+      ]),
+      soil_response,
+      weather_response: evaluateWeatherResponse(crop, weather)
+    };
+  }
+};
@@ -0,0 +1,35 @@
+import type { CropProfile } from "../crops.ts";
+import type { SoilNutrients, SoilResponse, WeatherResponse } from "../response-curves.ts";
+import type { DailyWeather, WeatherSummary } from "../weather/index.ts";
+import type { YieldInterval } from "./uncertainty.ts";
+
+// Inputs every yield model receives for a single farm prediction
+export interface YieldModelInput {
+  crop: CropProfile;
+  areaHa: number;
+  soilPh: number;
+  soilMoisture: number;
+  organicMatter: number;
+  // Optional lab measurements; models use whichever are present
+  nutrients: SoilNutrients;
+  weather: WeatherSummary;
+  dailyWeather: DailyWeather[];
+}
+
+export interface YieldModelResult {
+  yield_per_hectare: number;
+  // Spread from model error, missing inputs and weather still to come
+  interval: YieldInterval;
+  // Per-factor relative yields from the crop's response curves
+  soil_response: SoilResponse;
+  weather_response: WeatherResponse;
+}
+
+export interface YieldModel {
+  // Stable identifier used to select the model in requests
+  id: string;
+  // Written to predictions.model_version so results can be compared per model
+  version: string;
+  name: string;
+  predict: (input: YieldModelInput) => YieldModelResult;
+}
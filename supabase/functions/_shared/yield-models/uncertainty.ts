@@ -0,0 +1,57 @@
+import type { SoilResponse } from "../response-curves.ts";
+import type { WeatherSummary } from "../weather/index.ts";
+
+// Yield distribution a prediction reports: the model's estimate as the
+// median, with the 10th and 90th percentiles around it
+export interface YieldInterval {
+  p10: number;
+  p50: number;
+  p90: number;
+  // Combined coefficient of variation the percentiles were drawn from
+  relative_error: number;
+}
+
+// Standard normal quantile for the 90th percentile
+const Z90 = 1.2816;
+
+// Added spread, as a share of yield, for each optional lab measurement that
+// was not supplied
+const MISSING_INPUT_ERROR = 0.04;
+// Season weather beyond the window a prediction sees, plus the extra error
+// of forecast days over observed ones
+const WEATHER_ERROR = 0.1;
+const FORECAST_ERROR = 0.05;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Independent relative errors combine in quadrature
+const combine = (errors: number[]) => Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0));
+
+export const missingInputError = (response: SoilResponse) =>
+  MISSING_INPUT_ERROR * Math.sqrt(response.missing_inputs.length);
+
+export const weatherError = (weather: WeatherSummary) => {
+  const days = Math.max(1, weather.observed_days + weather.forecast_days);
+  return WEATHER_ERROR + FORECAST_ERROR * (weather.forecast_days / days);
+};
+
+// Yields are skewed (they can't fall below zero), so the distribution is
+// lognormal around the median
+export const yieldInterval = (median: number, errors: number[]): YieldInterval => {
+  const relativeError = combine(errors);
+  const sigma = Math.sqrt(Math.log(1 + relativeError * relativeError));
+  return {
+    p10: round(median * Math.exp(-Z90 * sigma)),
+    p50: round(median),
+    p90: round(median * Math.exp(Z90 * sigma)),
+    relative_error: Math.round(relativeError * 1000) / 1000,
+  };
+};
+
+// A prediction's interval once part of the season has grown: the weather
+// term shrinks to the share of the crop's development still ahead
+export const seasonInterval = (interval: YieldInterval, weather: WeatherSummary, progress: number) => {
+  const weatherTerm = weatherError(weather);
+  const modelError = Math.sqrt(Math.max(0, interval.relative_error ** 2 - weatherTerm ** 2));
+  return yieldInterval(interval.p50, [modelError, weatherTerm * (1 - Math.min(1, Math.max(0, progress)))]);
+};
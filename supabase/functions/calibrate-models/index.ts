@@ -0,0 +1,120 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { fetchCrop, fetchCrops } from "../_shared/crops.ts";
+import { getYieldModel, selectYieldModel } from "../_shared/yield-models/registry.ts";
+import {
+  MIN_SAMPLES,
+  calibrationKey,
+  fetchActiveCalibrations,
+  fitCalibration,
+  loadCalibrationSamples,
+  publishCalibration,
+  rollbackCalibration
+} from "../_shared/yield-models/calibration.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Offline calibration job for model maintainers, called with the service
+// role key. "calibrate" refits each crop's base yield for the model serving
+// it (or the requested model) from all recorded harvests and publishes the
+// fits that beat the current coefficients; dry runs only report them.
+// "rollback" reinstates the coefficients a crop's active calibration
+// replaced.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+
+    if (!serviceRoleKey || token !== serviceRoleKey) {
+      throw new Error("Only model maintainers can calibrate models");
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey
+    );
+
+    const {
+      action = 'calibrate',
+      crop_id,
+      model_id,
+      dry_run = false
+    } = await req.json();
+
+    if (action === 'rollback') {
+      if (!crop_id) {
+        throw new Error("crop_id is required to roll back a calibration");
+      }
+      const model = model_id ? getYieldModel(model_id) : selectYieldModel(crop_id);
+      const result = await rollbackCalibration(supabaseClient, model.id, crop_id);
+      console.log(`Rolled back ${model.id} calibration ${result.rolled_back.version} for ${crop_id}`);
+
+      return new Response(JSON.stringify({ success: true, ...result }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+    if (action !== 'calibrate') {
+      throw new Error(`Unknown action: ${action}`);
+    }
+
+    const crops = crop_id ? [await fetchCrop(supabaseClient, crop_id)] : await fetchCrops(supabaseClient);
+    const calibrations = await fetchActiveCalibrations(supabaseClient, crops.map((crop) => crop.id));
+
+    const results = [];
+    for (const crop of crops) {
+      const model = model_id ? getYieldModel(model_id) : selectYieldModel(crop.id);
+      const current = calibrations.get(calibrationKey(model.id, crop.id));
+      const samples = await loadCalibrationSamples(supabaseClient, crop);
+
+      if (samples.length < MIN_SAMPLES) {
+        results.push({
+          crop_id: crop.id,
+          model_id: model.id,
+          status: 'skipped',
+          sample_size: samples.length,
+          reason: `Needs at least ${MIN_SAMPLES} harvests`
+        });
+        continue;
+      }
+
+      const fit = fitCalibration(model, crop, samples, current);
+      console.log(`${model.id} on ${crop.id}: base yield ${fit.catalogue_base_yield} -> ${fit.base_yield},`
+        + ` MAE ${fit.before.mae} -> ${fit.after.mae} over ${fit.sample_size} harvests`);
+
+      const calibration = dry_run ? null : await publishCalibration(supabaseClient, fit, current);
+      results.push({
+        ...fit,
+        status: calibration?.status ?? (fit.improves ? 'would_activate' : 'would_reject'),
+        version: calibration ? `${model.version}+cal.${calibration.version}` : null,
+        previous_version: current ? `${model.version}+cal.${current.version}` : model.version
+      });
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      dry_run: Boolean(dry_run),
+      results
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    console.error("Error in calibrate-models function:", error);
+    return new Response(JSON.stringify({
+      error: error.message || "Internal server error"
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
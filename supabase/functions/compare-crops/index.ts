@@ -0,0 +1,114 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { fetchCrops } from "../_shared/crops.ts";
+import { farmArea, farmLocation, fetchFarm } from "../_shared/farms.ts";
+import { fetchSoilTest, latestSoilTest, soilNutrients } from "../_shared/soil-tests.ts";
+import { getPredictionWeather } from "../_shared/weather/index.ts";
+import { compareCrops } from "../_shared/crop-comparison.ts";
+import { latestMarketPrices } from "../_shared/market-prices.ts";
+import { fetchActiveCalibrations } from "../_shared/yield-models/calibration.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Ranks every catalogue crop for one farm's soil test and weather by
+// expected yield, margin and risk. Comparisons are computed on request and
+// not stored.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization")!;
+    const token = authHeader.replace("Bearer ", "");
+
+    // Create Supabase client with the user's auth token so RLS applies
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      }
+    );
+
+    const { data } = await supabaseClient.auth.getUser(token);
+    const user = data.user;
+
+    if (!user) {
+      throw new Error("User not authenticated");
+    }
+
+    const { farm_id, soil_test_id } = await req.json();
+
+    if (!farm_id) {
+      throw new Error("farm_id is required");
+    }
+
+    console.log("Comparing crops for user:", user.id);
+
+    const farm = await fetchFarm(supabaseClient, farm_id);
+    const soilTest = soil_test_id
+      ? await fetchSoilTest(supabaseClient, soil_test_id)
+      : await latestSoilTest(supabaseClient, farm.id);
+    if (soilTest && soilTest.farm_id !== farm.id) {
+      throw new Error("Soil test belongs to a different farm");
+    }
+    if (soilTest?.ph == null || soilTest.moisture == null || soilTest.organic_matter == null) {
+      throw new Error("The farm needs a soil test with pH, moisture and organic matter");
+    }
+
+    const coordinates = farmLocation(farm);
+    const weather = await getPredictionWeather(supabaseClient, {
+      location: farm.location,
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude
+    });
+
+    const crops = await fetchCrops(supabaseClient);
+    const options = compareCrops({
+      crops,
+      prices: await latestMarketPrices(supabaseClient, crops.map((crop) => crop.id)),
+      calibrations: await fetchActiveCalibrations(supabaseClient, crops.map((crop) => crop.id)),
+      areaHa: farmArea(farm),
+      soilPh: Number(soilTest.ph),
+      soilMoisture: Number(soilTest.moisture),
+      organicMatter: Number(soilTest.organic_matter),
+      nutrients: soilNutrients(soilTest),
+      weather: weather.summary,
+      dailyWeather: weather.days
+    });
+
+    return new Response(JSON.stringify({
+      success: true,
+      comparison: {
+        farm_id: farm.id,
+        current_crop: farm.crop_type,
+        area_hectares: farmArea(farm),
+        soil_test_id: soilTest.id,
+        tested_on: soilTest.tested_on,
+        weather_summary: weather.summary,
+        options
+      }
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    console.error("Error in compare-crops function:", error);
+    return new Response(JSON.stringify({
+      error: error.message || "Internal server error"
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
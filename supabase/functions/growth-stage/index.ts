@@ -0,0 +1,77 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { fetchFarm } from "../_shared/farms.ts";
+import { seasonGrowthStage } from "../_shared/growth-stage.ts";
+import { fetchSeason, fetchSeasonCrop } from "../_shared/seasons.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Reports the growth stage a season's crop has reached from the growing
+// degree days since planting, and when the next stages and maturity are due
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization")!;
+    const token = authHeader.replace("Bearer ", "");
+
+    // Create Supabase client with the user's auth token so RLS applies
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      }
+    );
+
+    const { data } = await supabaseClient.auth.getUser(token);
+    const user = data.user;
+
+    if (!user) {
+      throw new Error("User not authenticated");
+    }
+
+    const { season_id } = await req.json();
+
+    if (!season_id) {
+      throw new Error("season_id is required");
+    }
+
+    const season = await fetchSeason(supabaseClient, season_id);
+    const farm = await fetchFarm(supabaseClient, season.farm_id);
+    const crop = await fetchSeasonCrop(supabaseClient, season);
+    const growth = await seasonGrowthStage(supabaseClient, farm, crop, season);
+
+    return new Response(JSON.stringify({
+      success: true,
+      growth: {
+        ...growth,
+        season_id: season.id,
+        crop: crop.display_name,
+        variety_id: season.variety_id,
+      }
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    console.error("Error in growth-stage function:", error);
+    return new Response(JSON.stringify({
+      error: error.message || "Internal server error"
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -0,0 +1,86 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { fetchFarm, type Farm } from "../_shared/farms.ts";
+import { assessFarmPestRisk, recordPestAlerts } from "../_shared/pest-risk.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Checks a farm, or all the user's active farms, for pest and disease risk
+// now and updates their alerts. New alerts are left unsent for the scheduled
+// refresh to deliver.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization")!;
+    const token = authHeader.replace("Bearer ", "");
+
+    // Create Supabase client with the user's auth token so RLS applies
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      }
+    );
+
+    const { data } = await supabaseClient.auth.getUser(token);
+    const user = data.user;
+
+    if (!user) {
+      throw new Error("User not authenticated");
+    }
+
+    const { farm_id } = await req.json();
+
+    let farms: Farm[];
+    if (farm_id) {
+      farms = [await fetchFarm(supabaseClient, farm_id)];
+    } else {
+      const { data: activeFarms, error: farmsError } = await supabaseClient
+        .from('farms')
+        .select('*')
+        .eq('user_id', user.id)
+        .is('archived_at', null);
+      if (farmsError) throw farmsError;
+      farms = activeFarms as Farm[];
+    }
+
+    const results = [];
+    for (const farm of farms) {
+      if (farm.archived_at) {
+        throw new Error("Cannot check pest risk for an archived farm");
+      }
+      const risks = await assessFarmPestRisk(supabaseClient, farm);
+      const alerts = await recordPestAlerts(supabaseClient, farm, risks, null);
+      results.push({ farm_id: farm.id, risks, alerts });
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      farms: results
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    console.error("Error in pest-risk function:", error);
+    return new Response(JSON.stringify({
+      error: error.message || "Internal server error"
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
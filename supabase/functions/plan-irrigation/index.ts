@@ -0,0 +1,138 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { fetchCrop } from "../_shared/crops.ts";
+import { farmArea, farmLocation, fetchFarm } from "../_shared/farms.ts";
+import { latestSoilTest } from "../_shared/soil-tests.ts";
+import { getPredictionWeather } from "../_shared/weather/index.ts";
+import { today } from "../_shared/weather/dates.ts";
+import {
+  isCropStage,
+  isIrrigationMethod,
+  planIrrigation,
+  stageStartDay
+} from "../_shared/irrigation.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WEEKS = 4;
+const MAX_WEEKS = 8;
+
+// Weekly irrigation schedule for a farm from its latest soil moisture and
+// texture, the crop's growth stage and the rainfall forecast. Plans are
+// computed on request and not stored.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization")!;
+    const token = authHeader.replace("Bearer ", "");
+
+    // Create Supabase client with the user's auth token so RLS applies
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      }
+    );
+
+    const { data } = await supabaseClient.auth.getUser(token);
+    const user = data.user;
+
+    if (!user) {
+      throw new Error("User not authenticated");
+    }
+
+    const {
+      farm_id,
+      // Either the planting date or the stage the crop is entering today
+      planting_date,
+      stage = 'mid',
+      method = 'sprinkler',
+      weeks = DEFAULT_WEEKS
+    } = await req.json();
+
+    if (!farm_id) {
+      throw new Error("farm_id is required");
+    }
+    if (!isIrrigationMethod(method)) {
+      throw new Error(`Unknown irrigation method: ${method}`);
+    }
+    if (!planting_date && !isCropStage(stage)) {
+      throw new Error(`Unknown crop stage: ${stage}`);
+    }
+
+    console.log("Planning irrigation for user:", user.id);
+
+    const farm = await fetchFarm(supabaseClient, farm_id);
+    const crop = await fetchCrop(supabaseClient, farm.crop_type);
+
+    const soilTest = await latestSoilTest(supabaseClient, farm.id);
+    if (soilTest?.moisture == null) {
+      throw new Error("Record a soil test with moisture before planning irrigation");
+    }
+
+    const start = today();
+    const daysAfterPlanting = planting_date
+      ? Math.round((Date.parse(start) - Date.parse(planting_date)) / DAY_MS)
+      : stageStartDay(crop, stage);
+    if (Number.isNaN(daysAfterPlanting)) {
+      throw new Error(`Invalid planting date: ${planting_date}`);
+    }
+
+    const coordinates = farmLocation(farm);
+    const weather = await getPredictionWeather(supabaseClient, {
+      location: farm.location,
+      latitude: coordinates.latitude,
+      longitude: coordinates.longitude
+    });
+
+    const plan = planIrrigation({
+      crop,
+      areaHa: farmArea(farm),
+      soilMoisture: Number(soilTest.moisture),
+      texture: soilTest.texture,
+      daysAfterPlanting,
+      method,
+      observed: weather.days.filter((day) => day.kind === 'observed'),
+      forecast: weather.days.filter((day) => day.kind === 'forecast' && day.date >= start),
+      weeks: Math.min(MAX_WEEKS, Math.max(1, Math.round(Number(weeks)) || DEFAULT_WEEKS))
+    });
+
+    return new Response(JSON.stringify({
+      success: true,
+      plan: {
+        ...plan,
+        farm_id: farm.id,
+        crop: crop.display_name,
+        area_hectares: farmArea(farm),
+        soil_test_id: soilTest.id,
+        soil_moisture: Number(soilTest.moisture),
+        days_after_planting: daysAfterPlanting
+      }
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    console.error("Error in plan-irrigation function:", error);
+    return new Response(JSON.stringify({
+      error: error.message || "Internal server error"
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -1,5 +1,25 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { fetchCrop } from "../_shared/crops.ts";
+import { fetchActiveCalibrations, selectCalibratedModel } from "../_shared/yield-models/calibration.ts";
+import { explainPrediction } from "../_shared/yield-models/contributions.ts";
+import { getPredictionWeather } from "../_shared/weather/index.ts";
+import { farmArea, farmLocation, fetchFarm } from "../_shared/farms.ts";
+import {
+  applySoilTestInput,
+  fetchSoilTest,
+  latestSoilTest,
+  recordSoilTest,
+  soilNutrients
+} from "../_shared/soil-tests.ts";
+import { recommendFertilizer } from "../_shared/fertilizer.ts";
+import { fetchSeasonActivities, summarizeActivities } from "../_shared/activities.ts";
+import { cropPrice, latestMarketPrices } from "../_shared/market-prices.ts";
+import { projectRevenue } from "../_shared/revenue.ts";
+import { seasonGrowthStage } from "../_shared/growth-stage.ts";
+import { fetchSeason, fetchSeasonCrop } from "../_shared/seasons.ts";
+import { seasonInterval } from "../_shared/yield-models/uncertainty.ts";
+import { today } from "../_shared/weather/dates.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -38,119 +58,241 @@ serve(async (req) => {
     }
 
     const {
-      name,
-      phone,
-      location,
-      crop,
-      area_ha,
+      farm_id,
+      // Season the prediction is for; defaults to the farm's season running
+      // now for its crop
+      season_id,
+      soil_test_id,
       soil_ph,
       soil_moisture,
-      organic_matter
+      organic_matter,
+      // Optional lab measurements recorded with the submitted readings
+      nitrogen,
+      phosphorus,
+      potassium,
+      cec,
+      ec,
+      sand,
+      silt,
+      clay,
+      texture,
+      target_yield,
+      model: requestedModel,
+      // What-if scenarios: submitted values are applied over the soil test
+      // and nothing is written; a different crop can be tried too
+      dry_run = false,
+      crop: scenarioCrop
     } = await req.json();
 
+    if (!farm_id) {
+      throw new Error("farm_id is required; create the farm first");
+    }
+    if (scenarioCrop && !dry_run) {
+      throw new Error("A different crop can only be tried in a dry run");
+    }
+
     console.log("Processing yield prediction for user:", user.id);
 
-    // Simple ML model for demonstration
-    // In production, this would call a real ML service
-    const calculateYield = (
-      areaHa: number,
-      soilPh: number,
-      soilMoisture: number,
-      organicMatter: number,
-      crop: string
-    ) => {
-      // Base yield factors by crop type
-      const cropFactors: Record<string, number> = {
-        'Maize': 4.5,
-        'Wheat': 3.2,
-        'Rice': 5.8,
-        'Beans': 2.1,
-        'Potato': 25.0,
-        'Tomato': 45.0
-      };
-
-      const baseFactor = cropFactors[crop] || 3.0;
-      
-      // Soil pH optimization (6.0-7.0 is ideal)
-      const phFactor = 1 - Math.abs(soilPh - 6.5) * 0.1;
-      
-      // Soil moisture factor (20-40% is ideal)
-      const moistureFactor = soilMoisture < 20 ? 0.7 : 
-                            soilMoisture > 40 ? 0.8 : 1.0;
-      
-      // Organic matter factor (2-4% is ideal)
-      const organicFactor = organicMatter < 2 ? 0.8 : 
-                           organicMatter > 4 ? 0.9 : 1.1;
-      
-      const yield_per_hectare = baseFactor * phFactor * moistureFactor * organicFactor;
-      const confidence = Math.min(95, 70 + (phFactor + moistureFactor + organicFactor - 2) * 10);
-      
-      return {
-        yield_per_hectare: Math.round(yield_per_hectare * 100) / 100,
-        confidence: Math.round(confidence)
-      };
+    // Resolve the farm, crop and model up front so unknown ids fail before any writes
+    const farm = await fetchFarm(supabaseClient, farm_id);
+    if (farm.archived_at) {
+      throw new Error("Cannot predict yield for an archived farm");
+    }
+    let seasonId = season_id;
+    if (!seasonId && !scenarioCrop) {
+      const { data: currentSeason, error: seasonError } = await supabaseClient
+        .rpc('season_on', { farm: farm.id, on_date: today(), crop: farm.crop_type });
+      if (seasonError) throw seasonError;
+      seasonId = currentSeason;
+    }
+    const season = seasonId ? await fetchSeason(supabaseClient, seasonId) : null;
+    if (season && season.farm_id !== farm.id) {
+      throw new Error("Season belongs to a different farm");
+    }
+    // A season's crop is grown from its variety; a scenario crop uses the
+    // catalogue's typical variety
+    const cropProfile = season && !scenarioCrop
+      ? await fetchSeasonCrop(supabaseClient, season)
+      : await fetchCrop(supabaseClient, scenarioCrop || farm.crop_type);
+    const varietyId = season && !scenarioCrop ? season.variety_id : null;
+    const calibrations = await fetchActiveCalibrations(supabaseClient, [cropProfile.id]);
+    const model = selectCalibratedModel(cropProfile.id, calibrations, requestedModel);
+    console.log(`Using yield model ${model.version} for crop:`, cropProfile.id);
+
+    const area = farmArea(farm);
+    const farmCoordinates = farmLocation(farm);
+
+    // Predictions run on a soil test: the one requested, a new one recorded
+    // from submitted readings, or the farm's latest
+    const submittedReadings = soil_ph != null || soil_moisture != null || organic_matter != null;
+    let soilTest = soil_test_id
+      ? await fetchSoilTest(supabaseClient, soil_test_id)
+      : submittedReadings && !dry_run ? null : await latestSoilTest(supabaseClient, farm.id);
+    if (soilTest && soilTest.farm_id !== farm.id) {
+      throw new Error("Soil test belongs to a different farm");
+    }
+
+    const submittedTest = {
+      ph: soil_ph,
+      moisture: soil_moisture,
+      organic_matter,
+      nitrogen,
+      phosphorus,
+      potassium,
+      cec,
+      ec,
+      sand,
+      silt,
+      clay,
+      texture
     };
+    if (dry_run) {
+      soilTest = applySoilTestInput(soilTest, farm, submittedTest);
+    }
+
+    const soil = soilTest
+      ? { ph: soilTest.ph, moisture: soilTest.moisture, organic_matter: soilTest.organic_matter }
+      : { ph: soil_ph, moisture: soil_moisture, organic_matter };
+    if (soil.ph == null || soil.moisture == null || soil.organic_matter == null) {
+      throw new Error("Soil pH, moisture and organic matter are required");
+    }
+
+    // Fetch recent and forecast weather for the farm (cached per coordinates)
+    const weather = await getPredictionWeather(supabaseClient, {
+      location: farm.location,
+      latitude: farmCoordinates.latitude,
+      longitude: farmCoordinates.longitude
+    });
+    const weatherSummary = weather.summary;
+
+    // How far the season's crop has developed; the weather still ahead of it
+    // is all that remains uncertain
+    const growth = season && !scenarioCrop
+      ? await seasonGrowthStage(supabaseClient, farm, cropProfile, season)
+      : null;
 
-    // Create farm record
-    const { data: farm, error: farmError } = await supabaseClient
-      .from('farms')
-      .insert({
-        user_id: user.id,
-        name: `${name}'s ${crop} Farm`,
-        location,
-        crop_type: crop,
-        area_hectares: area_ha,
-        soil_ph,
-        soil_moisture,
-        organic_matter
-      })
-      .select()
-      .single();
-
-    if (farmError) {
-      console.error("Farm creation error:", farmError);
-      throw farmError;
+    if (!soilTest) {
+      soilTest = await recordSoilTest(supabaseClient, farm, submittedTest);
     }
 
     // Generate prediction
-    const prediction = calculateYield(area_ha, soil_ph, soil_moisture, organic_matter, crop);
-    
-    // Mock weather data (in production, fetch from weather API)
-    const weatherSummary = {
-      temperature: 22 + Math.random() * 8, // 22-30°C
-      rainfall: 10 + Math.random() * 40,   // 10-50mm
-      humidity: 60 + Math.random() * 30,   // 60-90%
-      location: location
+    const nutrients = soilNutrients(soilTest);
+    const modelInput = {
+      crop: cropProfile,
+      areaHa: area,
+      soilPh: Number(soil.ph),
+      soilMoisture: Number(soil.moisture),
+      organicMatter: Number(soil.organic_matter),
+      nutrients,
+      weather: weatherSummary,
+      dailyWeather: weather.days
     };
+    const prediction = model.predict(modelInput);
+    const interval = growth ? seasonInterval(prediction.interval, weatherSummary, growth.progress) : prediction.interval;
+    // Breakdown of how each input moved the yield from the crop's base yield
+    const explanation = explainPrediction(model, modelInput, prediction);
 
-    // Save prediction
-    const { data: savedPrediction, error: predictionError } = await supabaseClient
-      .from('predictions')
-      .insert({
-        farm_id: farm.id,
-        user_id: user.id,
-        yield_per_hectare: prediction.yield_per_hectare,
-        confidence_score: prediction.confidence,
-        weather_summary: weatherSummary,
-        model_version: 'v1.0'
-      })
-      .select()
-      .single();
-
-    if (predictionError) {
-      console.error("Prediction save error:", predictionError);
-      throw predictionError;
+    // Fertilizer applied and money spent so far this season, from its
+    // activity log
+    const activities = season && !scenarioCrop
+      ? summarizeActivities(await fetchSeasonActivities(supabaseClient, season.id))
+      : null;
+
+    // Fertilize for the requested target, or the crop's attainable yield,
+    // less what was already applied
+    const fertilizer = recommendFertilizer({
+      crop: cropProfile,
+      areaHa: area,
+      targetYield: Number(target_yield) || Number(cropProfile.base_yield),
+      soilPh: Number(soil.ph),
+      organicMatter: Number(soil.organic_matter),
+      nutrients,
+      applied: activities?.applied
+    });
+
+    // Revenue at the latest market price, or the catalogue's reference price
+    const marketPrices = await latestMarketPrices(supabaseClient, [cropProfile.id]);
+    const revenue = projectRevenue({
+      crop: cropProfile,
+      areaHa: area,
+      interval,
+      price: cropPrice(cropProfile, marketPrices.get(cropProfile.id)),
+      fertilizer,
+      recordedCosts: activities?.costs
+    });
+
+    // Save prediction; dry runs only report the result
+    let predictionId: string | null = null;
+    let predictionSeasonId: string | null = season?.id ?? null;
+    if (!dry_run) {
+      const { data: savedPrediction, error: predictionError } = await supabaseClient
+        .from('predictions')
+        .insert({
+          farm_id: farm.id,
+          user_id: user.id,
+          crop_id: cropProfile.id,
+          season_id: season?.id ?? null,
+          variety_id: varietyId,
+          growth_stage: growth,
+          yield_per_hectare: prediction.yield_per_hectare,
+          yield_p10: interval.p10,
+          yield_p50: interval.p50,
+          yield_p90: interval.p90,
+          relative_error: interval.relative_error,
+          weather_summary: weatherSummary,
+          model_version: model.version,
+          limiting_factor: prediction.soil_response.limiting_factor,
+          missing_inputs: prediction.soil_response.missing_inputs,
+          fertilizer_recommendation: fertilizer,
+          factor_contributions: explanation,
+          revenue_projection: revenue,
+          soil_test_id: soilTest.id,
+          soil_ph: soil.ph,
+          soil_moisture: soil.moisture,
+          organic_matter: soil.organic_matter
+        })
+        .select()
+        .single();
+
+      if (predictionError) {
+        console.error("Prediction save error:", predictionError);
+        throw predictionError;
+      }
+      predictionId = savedPrediction.id;
+      predictionSeasonId = savedPrediction.season_id;
     }
 
     return new Response(JSON.stringify({
       success: true,
       prediction: {
-        id: savedPrediction.id,
+        id: predictionId,
+        dry_run: Boolean(dry_run),
         yield_per_hectare: prediction.yield_per_hectare,
-        confidence_score: prediction.confidence,
+        interval,
         weather_summary: weatherSummary,
         farm_id: farm.id,
-        total_yield: Math.round(prediction.yield_per_hectare * area_ha * 100) / 100
+        season_id: predictionSeasonId,
+        variety_id: varietyId,
+        growth_stage: growth,
+        soil_test_id: soilTest.id || null,
+        farm: {
+          name: farm.name,
+          location: farm.location,
+          crop: cropProfile.display_name,
+          area_hectares: area,
+          measured_from_boundary: farm.boundary_area_hectares != null
+        },
+        location: farmCoordinates,
+        model_version: model.version,
+        limiting_factor: prediction.soil_response.limiting_factor,
+        soil_factors: prediction.soil_response.factors,
+        nutrient_factors: prediction.soil_response.nutrient_factors,
+        missing_inputs: prediction.soil_response.missing_inputs,
+        fertilizer_recommendation: fertilizer,
+        factor_contributions: explanation,
+        revenue_projection: revenue,
+        weather_factors: prediction.weather_response.factors,
+        total_yield: Math.round(prediction.yield_per_hectare * area * 100) / 100
       }
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -0,0 +1,97 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import type { Farm } from "../_shared/farms.ts";
+import { notifyUser } from "../_shared/notifications.ts";
+import { assessFarmPestRisk, recordPestAlerts, type PestAlert } from "../_shared/pest-risk.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Checks every active farm for pest and disease risk and notifies farmers of
+// new and escalated alerts. Called daily by the pg_cron job with the service
+// role key, so it runs across all users' farms.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+
+    if (!serviceRoleKey || token !== serviceRoleKey) {
+      throw new Error("Only the scheduler can refresh pest alerts");
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey
+    );
+
+    const { data: farms, error: farmsError } = await supabaseClient
+      .from('farms')
+      .select('*')
+      .is('archived_at', null);
+
+    if (farmsError) throw farmsError;
+
+    console.log(`Checking pest risk for ${farms.length} farms`);
+
+    // One farm's failure shouldn't stop the rest
+    const failed: { id: string; error: string }[] = [];
+    const unsent: PestAlert[] = [];
+    for (const farm of farms as Farm[]) {
+      try {
+        const risks = await assessFarmPestRisk(supabaseClient, farm);
+        const alerts = await recordPestAlerts(supabaseClient, farm, risks, null);
+        unsent.push(...alerts.filter((alert) => !alert.notified_at));
+      } catch (error) {
+        console.error(`Pest risk check for farm ${farm.id} failed:`, error);
+        failed.push({ id: farm.id, error: error.message });
+      }
+    }
+
+    // One message per farmer listing their new alerts, high risks first
+    const byUser = new Map<string, PestAlert[]>();
+    for (const alert of unsent) {
+      byUser.set(alert.user_id, [...(byUser.get(alert.user_id) ?? []), alert]);
+    }
+    let notified = 0;
+    for (const [userId, alerts] of byUser) {
+      const ordered = [...alerts].sort((a, b) => (a.risk_level === b.risk_level ? 0 : a.risk_level === 'high' ? -1 : 1));
+      try {
+        await notifyUser(supabaseClient, userId, ordered.map((alert) => alert.message).join("\n"));
+        const { error } = await supabaseClient
+          .from('pest_alerts')
+          .update({ notified_at: new Date().toISOString() })
+          .in('id', alerts.map((alert) => alert.id));
+        if (error) throw error;
+        notified += alerts.length;
+      } catch (error) {
+        console.error(`Pest alert notification for user ${userId} failed:`, error);
+      }
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      checked: farms.length - failed.length,
+      notified,
+      failed
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    console.error("Error in refresh-pest-alerts function:", error);
+    return new Response(JSON.stringify({
+      error: error.message || "Internal server error"
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
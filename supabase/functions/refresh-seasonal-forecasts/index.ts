@@ -0,0 +1,69 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { computeSeasonalForecast, type SeasonalForecast } from "../_shared/seasonal-forecast.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Recomputes every active seasonal forecast. Called daily by the pg_cron job
+// with the service role key, so it runs across all users' farms.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+
+    if (!serviceRoleKey || token !== serviceRoleKey) {
+      throw new Error("Only the scheduler can refresh forecasts");
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey
+    );
+
+    const { data: forecasts, error: forecastsError } = await supabaseClient
+      .from('seasonal_forecasts')
+      .select('*')
+      .eq('status', 'active');
+
+    if (forecastsError) throw forecastsError;
+
+    console.log(`Refreshing ${forecasts.length} seasonal forecasts`);
+
+    // One farm's failure (e.g. a deleted soil test) shouldn't stop the rest
+    const failed: { id: string; error: string }[] = [];
+    for (const forecast of forecasts as SeasonalForecast[]) {
+      try {
+        await computeSeasonalForecast(supabaseClient, forecast);
+      } catch (error) {
+        console.error(`Seasonal forecast ${forecast.id} failed:`, error);
+        failed.push({ id: forecast.id, error: error.message });
+      }
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      refreshed: forecasts.length - failed.length,
+      failed
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    console.error("Error in refresh-seasonal-forecasts function:", error);
+    return new Response(JSON.stringify({
+      error: error.message || "Internal server error"
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
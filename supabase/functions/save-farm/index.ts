@@ -0,0 +1,76 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { resolveFarmFields } from "../_shared/farms.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Creates a farm, or updates it when farm_id is given. Location and area are
+// resolved here so every farm row carries coordinates and a checked area.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization")!;
+    const token = authHeader.replace("Bearer ", "");
+
+    // Create Supabase client with the user's auth token so RLS applies
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      }
+    );
+
+    const { data } = await supabaseClient.auth.getUser(token);
+    const user = data.user;
+
+    if (!user) {
+      throw new Error("User not authenticated");
+    }
+
+    const { farm_id, ...input } = await req.json();
+    const { fields, area_warning } = await resolveFarmFields(supabaseClient, input);
+
+    console.log(`${farm_id ? "Updating" : "Creating"} farm for user:`, user.id);
+
+    const query = farm_id
+      ? supabaseClient.from('farms').update(fields).eq('id', farm_id)
+      : supabaseClient.from('farms').insert({ ...fields, user_id: user.id });
+
+    const { data: farm, error: farmError } = await query.select().single();
+
+    if (farmError) {
+      console.error("Farm save error:", farmError);
+      throw farmError;
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      farm,
+      area_warning
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    console.error("Error in save-farm function:", error);
+    return new Response(JSON.stringify({
+      error: error.message || "Internal server error"
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -0,0 +1,97 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { fetchFarm } from "../_shared/farms.ts";
+import { computeSeasonalForecast, type SeasonalForecast } from "../_shared/seasonal-forecast.ts";
+import { fetchSeason } from "../_shared/seasons.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Starts a monthly yield forecast for a farm's season, or recomputes the
+// existing one. The daily
+// refresh-seasonal-forecasts job keeps it current afterwards.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization")!;
+    const token = authHeader.replace("Bearer ", "");
+
+    // Create Supabase client with the user's auth token so RLS applies
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: {
+            Authorization: authHeader,
+          },
+        },
+      }
+    );
+
+    const { data } = await supabaseClient.auth.getUser(token);
+    const user = data.user;
+
+    if (!user) {
+      throw new Error("User not authenticated");
+    }
+
+    const { season_id } = await req.json();
+
+    if (!season_id) {
+      throw new Error("season_id is required; add the season first");
+    }
+
+    console.log("Computing seasonal forecast for user:", user.id);
+
+    const season = await fetchSeason(supabaseClient, season_id);
+    const farm = await fetchFarm(supabaseClient, season.farm_id);
+    if (farm.archived_at) {
+      throw new Error("Cannot forecast an archived farm");
+    }
+
+    // The forecast follows the season's crop and dates
+    const { data: saved, error: saveError } = await supabaseClient
+      .from('seasonal_forecasts')
+      .upsert({
+        season_id: season.id,
+        farm_id: farm.id,
+        user_id: user.id,
+        crop_id: season.crop_id,
+        planting_date: season.planting_date,
+        harvest_date: season.expected_harvest_date,
+      }, { onConflict: 'season_id' })
+      .select()
+      .single();
+
+    if (saveError) {
+      console.error("Seasonal forecast save error:", saveError);
+      throw saveError;
+    }
+
+    const { forecast, points } = await computeSeasonalForecast(supabaseClient, saved as SeasonalForecast);
+
+    return new Response(JSON.stringify({
+      success: true,
+      forecast: { ...forecast, points }
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+
+  } catch (error) {
+    console.error("Error in seasonal-forecast function:", error);
+    return new Response(JSON.stringify({
+      error: error.message || "Internal server error"
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { deliverNotification, type Notification } from "../_shared/notifications.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -39,29 +40,14 @@ serve(async (req) => {
       .eq('user_id', user.id)
       .single();
 
-    // Mock notification sending (in production, integrate with SMS/Email services)
-    const notifications = [];
+    const notifications: Notification[] = [];
 
     if (type === 'sms' && (phone || profile?.phone)) {
-      // In production, integrate with SMS service like Twilio or Africa's Talking
-      notifications.push({
-        type: 'sms',
-        recipient: phone || profile.phone,
-        message: message,
-        status: 'sent',
-        timestamp: new Date().toISOString()
-      });
+      notifications.push(deliverNotification('sms', phone || profile.phone, message));
     }
 
     if (type === 'email' && (email || user.email)) {
-      // In production, integrate with email service like Resend or SendGrid
-      notifications.push({
-        type: 'email',
-        recipient: email || user.email,
-        message: message,
-        status: 'sent',
-        timestamp: new Date().toISOString()
-      });
+      notifications.push(deliverNotification('email', email || user.email, message));
     }
 
     // Check subscription tier for premium features
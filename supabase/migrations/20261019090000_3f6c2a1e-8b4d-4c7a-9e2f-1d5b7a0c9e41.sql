@@ -0,0 +1,10 @@
+-- Predictions now record the version id of the yield model that produced them.
+-- Rows written before the model registry came from the soil heuristic.
+UPDATE public.predictions
+SET model_version = 'heuristic-v1.0'
+WHERE model_version IS NULL OR model_version = 'v1.0';
+
+ALTER TABLE public.predictions
+ALTER COLUMN model_version SET DEFAULT 'heuristic-v1.0';
+
+CREATE INDEX idx_predictions_model_version ON public.predictions (model_version);
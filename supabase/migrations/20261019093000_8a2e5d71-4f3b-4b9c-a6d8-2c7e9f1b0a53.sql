@@ -0,0 +1,50 @@
+-- Canonical crop catalogue shared by the prediction form and the yield models
+CREATE TABLE public.crops (
+  id TEXT NOT NULL PRIMARY KEY,
+  display_name TEXT NOT NULL,
+  yield_unit TEXT NOT NULL DEFAULT 't/ha',
+  base_yield DECIMAL NOT NULL,
+  optimal_ph_min DECIMAL NOT NULL,
+  optimal_ph_max DECIMAL NOT NULL,
+  optimal_moisture_min DECIMAL NOT NULL,
+  optimal_moisture_max DECIMAL NOT NULL,
+  optimal_organic_min DECIMAL NOT NULL,
+  optimal_organic_max DECIMAL NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.crops ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Crops are viewable by everyone"
+ON public.crops
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_crops_updated_at
+BEFORE UPDATE ON public.crops
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.crops (
+  id, display_name, yield_unit, base_yield,
+  optimal_ph_min, optimal_ph_max,
+  optimal_moisture_min, optimal_moisture_max,
+  optimal_organic_min, optimal_organic_max
+) VALUES
+  ('maize',    'Maize',    't/ha', 4.5,  5.8, 7.0, 20, 40, 2, 4),
+  ('wheat',    'Wheat',    't/ha', 3.2,  6.0, 7.5, 18, 35, 2, 4),
+  ('beans',    'Beans',    't/ha', 2.1,  6.0, 7.0, 20, 35, 2, 4),
+  ('potatoes', 'Potatoes', 't/ha', 25.0, 5.0, 6.0, 25, 40, 3, 5),
+  ('rice',     'Rice',     't/ha', 5.8,  5.5, 6.5, 35, 60, 2, 5),
+  ('barley',   'Barley',   't/ha', 3.0,  6.0, 7.5, 18, 35, 2, 4),
+  ('tomatoes', 'Tomatoes', 't/ha', 45.0, 6.0, 6.8, 25, 40, 3, 5);
+
+-- Normalise existing farm crops onto catalogue ids before enforcing them
+UPDATE public.farms SET crop_type = lower(crop_type);
+UPDATE public.farms SET crop_type = 'potatoes' WHERE crop_type = 'potato';
+UPDATE public.farms SET crop_type = 'tomatoes' WHERE crop_type = 'tomato';
+
+ALTER TABLE public.farms
+ADD CONSTRAINT farms_crop_type_fkey
+FOREIGN KEY (crop_type) REFERENCES public.crops(id);
@@ -0,0 +1,48 @@
+-- Per-crop soil response curves. Each factor is a piecewise-linear list of
+-- [soil value, relative yield] points; a trapezoid is four points.
+ALTER TABLE public.crops ADD COLUMN response_curves JSONB;
+
+UPDATE public.crops SET response_curves = '{
+  "ph": [[4.5, 0.35], [5.8, 1], [7.0, 1], [8.2, 0.5]],
+  "moisture": [[8, 0.2], [20, 1], [40, 1], [55, 0.55]],
+  "organic_matter": [[0.5, 0.6], [2, 1], [4, 1], [10, 0.9]]
+}' WHERE id = 'maize';
+
+UPDATE public.crops SET response_curves = '{
+  "ph": [[4.8, 0.4], [6.0, 1], [7.5, 1], [8.5, 0.6]],
+  "moisture": [[8, 0.25], [18, 1], [35, 1], [50, 0.5]],
+  "organic_matter": [[0.5, 0.65], [2, 1], [4, 1], [10, 0.9]]
+}' WHERE id = 'wheat';
+
+UPDATE public.crops SET response_curves = '{
+  "ph": [[4.8, 0.3], [6.0, 1], [7.0, 1], [8.0, 0.5]],
+  "moisture": [[10, 0.25], [20, 1], [35, 1], [45, 0.4]],
+  "organic_matter": [[0.5, 0.7], [2, 1], [4, 1], [10, 0.9]]
+}' WHERE id = 'beans';
+
+UPDATE public.crops SET response_curves = '{
+  "ph": [[4.2, 0.5], [5.0, 1], [6.0, 1], [7.5, 0.6]],
+  "moisture": [[12, 0.2], [25, 1], [40, 1], [55, 0.5]],
+  "organic_matter": [[1, 0.6], [3, 1], [5, 1], [12, 0.9]]
+}' WHERE id = 'potatoes';
+
+UPDATE public.crops SET response_curves = '{
+  "ph": [[4.0, 0.4], [5.5, 1], [6.5, 1], [8.0, 0.6]],
+  "moisture": [[15, 0.2], [35, 1], [60, 1], [80, 0.9]],
+  "organic_matter": [[0.5, 0.7], [2, 1], [5, 1], [12, 0.9]]
+}' WHERE id = 'rice';
+
+UPDATE public.crops SET response_curves = '{
+  "ph": [[5.0, 0.45], [6.0, 1], [7.5, 1], [8.5, 0.7]],
+  "moisture": [[8, 0.3], [18, 1], [35, 1], [50, 0.5]],
+  "organic_matter": [[0.5, 0.65], [2, 1], [4, 1], [10, 0.9]]
+}' WHERE id = 'barley';
+
+UPDATE public.crops SET response_curves = '{
+  "ph": [[4.8, 0.4], [6.0, 1], [6.8, 1], [8.0, 0.5]],
+  "moisture": [[10, 0.2], [25, 1], [40, 1], [55, 0.5]],
+  "organic_matter": [[1, 0.6], [3, 1], [5, 1], [12, 0.9]]
+}' WHERE id = 'tomatoes';
+
+-- Soil factor that constrained the prediction the most
+ALTER TABLE public.predictions ADD COLUMN limiting_factor TEXT;
@@ -0,0 +1,49 @@
+-- Daily weather cache shared by all predictions for a location
+CREATE TABLE public.weather_observations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  location_key TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  observed_on DATE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('observed', 'forecast')),
+  rainfall_mm DECIMAL NOT NULL,
+  temperature_c DECIMAL NOT NULL,
+  humidity_pct DECIMAL NOT NULL,
+  latitude DECIMAL,
+  longitude DECIMAL,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (location_key, provider, observed_on)
+);
+
+CREATE INDEX idx_weather_observations_lookup
+ON public.weather_observations (location_key, provider, kind, observed_on);
+
+ALTER TABLE public.weather_observations ENABLE ROW LEVEL SECURITY;
+
+-- Weather is not user data: any signed-in user may read and refresh the cache
+CREATE POLICY "Authenticated users can view weather observations"
+ON public.weather_observations
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can cache weather observations"
+ON public.weather_observations
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can refresh weather observations"
+ON public.weather_observations
+FOR UPDATE
+TO authenticated
+USING (true);
+
+-- Mean daily temperature response per crop, alongside the soil curves
+UPDATE public.crops SET response_curves = response_curves || '{"temperature": [[10, 0.2], [18, 1], [30, 1], [36, 0.4]]}' WHERE id = 'maize';
+UPDATE public.crops SET response_curves = response_curves || '{"temperature": [[5, 0.3], [12, 1], [24, 1], [32, 0.4]]}' WHERE id = 'wheat';
+UPDATE public.crops SET response_curves = response_curves || '{"temperature": [[10, 0.3], [16, 1], [26, 1], [32, 0.4]]}' WHERE id = 'beans';
+UPDATE public.crops SET response_curves = response_curves || '{"temperature": [[7, 0.3], [14, 1], [22, 1], [29, 0.3]]}' WHERE id = 'potatoes';
+UPDATE public.crops SET response_curves = response_curves || '{"temperature": [[14, 0.2], [22, 1], [32, 1], [38, 0.4]]}' WHERE id = 'rice';
+UPDATE public.crops SET response_curves = response_curves || '{"temperature": [[4, 0.3], [12, 1], [22, 1], [30, 0.4]]}' WHERE id = 'barley';
+UPDATE public.crops SET response_curves = response_curves || '{"temperature": [[10, 0.2], [18, 1], [28, 1], [35, 0.3]]}' WHERE id = 'tomatoes';
@@ -0,0 +1,7 @@
+-- Farms are located by coordinates resolved from the typed location
+ALTER TABLE public.farms
+ADD COLUMN latitude DECIMAL CHECK (latitude BETWEEN -90 AND 90),
+ADD COLUMN longitude DECIMAL CHECK (longitude BETWEEN -180 AND 180),
+ADD COLUMN admin_region TEXT;
+
+CREATE INDEX idx_farms_coordinates ON public.farms (latitude, longitude);
@@ -0,0 +1,5 @@
+-- Farm boundaries as GeoJSON Polygon/MultiPolygon geometries, with the
+-- geodesic area computed from them at write time
+ALTER TABLE public.farms
+ADD COLUMN boundary JSONB CHECK (boundary IS NULL OR boundary ->> 'type' IN ('Polygon', 'MultiPolygon')),
+ADD COLUMN boundary_area_hectares DECIMAL CHECK (boundary_area_hectares IS NULL OR boundary_area_hectares > 0);
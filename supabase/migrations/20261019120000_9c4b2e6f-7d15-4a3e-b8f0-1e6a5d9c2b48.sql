@@ -0,0 +1,5 @@
+-- Farms are created explicitly and archived rather than deleted, so their
+-- prediction history is kept
+ALTER TABLE public.farms ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_farms_user_active ON public.farms (user_id) WHERE archived_at IS NULL;
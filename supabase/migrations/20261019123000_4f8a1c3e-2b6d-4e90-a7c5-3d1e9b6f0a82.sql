@@ -0,0 +1,17 @@
+-- Record the soil readings each prediction was made with, so a farm's soil
+-- history can be read back from its predictions
+ALTER TABLE public.predictions
+  ADD COLUMN soil_ph DECIMAL,
+  ADD COLUMN soil_moisture DECIMAL,
+  ADD COLUMN organic_matter DECIMAL;
+
+-- Until farms were separated from predictions every prediction had its own
+-- farm row, so the farm's readings are the ones the prediction used
+UPDATE public.predictions p
+SET soil_ph = f.soil_ph,
+    soil_moisture = f.soil_moisture,
+    organic_matter = f.organic_matter
+FROM public.farms f
+WHERE p.farm_id = f.id;
+
+CREATE INDEX idx_predictions_farm_created ON public.predictions (farm_id, created_at DESC);
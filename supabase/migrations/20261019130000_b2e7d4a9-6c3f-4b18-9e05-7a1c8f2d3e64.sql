@@ -0,0 +1,89 @@
+-- Soil tests are recorded per farm over time instead of living as columns on
+-- the farm. Nutrient units: nitrogen is total N in %, phosphorus and
+-- potassium in mg/kg, ec in dS/m and cec in cmol(+)/kg.
+CREATE TABLE public.soil_tests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  farm_id UUID NOT NULL REFERENCES public.farms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tested_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  sampling_depth_cm DECIMAL,
+  lab TEXT,
+  method TEXT,
+  ph DECIMAL CHECK (ph BETWEEN 0 AND 14),
+  moisture DECIMAL CHECK (moisture BETWEEN 0 AND 100),
+  organic_matter DECIMAL CHECK (organic_matter BETWEEN 0 AND 100),
+  nitrogen DECIMAL CHECK (nitrogen >= 0),
+  phosphorus DECIMAL CHECK (phosphorus >= 0),
+  potassium DECIMAL CHECK (potassium >= 0),
+  ec DECIMAL CHECK (ec >= 0),
+  cec DECIMAL CHECK (cec >= 0),
+  texture TEXT CHECK (texture IN (
+    'sand', 'loamy sand', 'sandy loam', 'loam', 'silt loam', 'silt',
+    'sandy clay loam', 'clay loam', 'silty clay loam', 'sandy clay',
+    'silty clay', 'clay'
+  )),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_soil_tests_farm_tested ON public.soil_tests (farm_id, tested_on DESC);
+
+ALTER TABLE public.soil_tests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own soil tests"
+ON public.soil_tests
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own soil tests"
+ON public.soil_tests
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own soil tests"
+ON public.soil_tests
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own soil tests"
+ON public.soil_tests
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_soil_tests_updated_at
+BEFORE UPDATE ON public.soil_tests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Predictions point at the soil test they used. The soil columns on
+-- predictions stay as a snapshot of the values the model saw.
+ALTER TABLE public.predictions
+  ADD COLUMN soil_test_id UUID REFERENCES public.soil_tests(id) ON DELETE SET NULL;
+
+-- Every existing prediction's readings become a soil test taken that day
+WITH backfill AS (
+  SELECT
+    id AS prediction_id,
+    gen_random_uuid() AS soil_test_id,
+    farm_id,
+    user_id,
+    created_at,
+    soil_ph,
+    soil_moisture,
+    organic_matter
+  FROM public.predictions
+  WHERE soil_ph IS NOT NULL OR soil_moisture IS NOT NULL OR organic_matter IS NOT NULL
+), inserted AS (
+  INSERT INTO public.soil_tests (id, farm_id, user_id, tested_on, ph, moisture, organic_matter, created_at)
+  SELECT soil_test_id, farm_id, user_id, created_at::date, soil_ph, soil_moisture, organic_matter, created_at
+  FROM backfill
+)
+UPDATE public.predictions p
+SET soil_test_id = b.soil_test_id
+FROM backfill b
+WHERE p.id = b.prediction_id;
+
+-- The farm's soil columns are superseded by soil_tests and no longer written
+COMMENT ON COLUMN public.farms.soil_ph IS 'Deprecated: use soil_tests';
+COMMENT ON COLUMN public.farms.soil_moisture IS 'Deprecated: use soil_tests';
+COMMENT ON COLUMN public.farms.organic_matter IS 'Deprecated: use soil_tests';
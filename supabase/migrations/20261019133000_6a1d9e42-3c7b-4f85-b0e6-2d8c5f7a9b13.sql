@@ -0,0 +1,19 @@
+-- Particle size fractions from lab reports (% of the mineral fraction). The
+-- texture class is derived from them when a report omits it.
+ALTER TABLE public.soil_tests
+  ADD COLUMN sand DECIMAL CHECK (sand BETWEEN 0 AND 100),
+  ADD COLUMN silt DECIMAL CHECK (silt BETWEEN 0 AND 100),
+  ADD COLUMN clay DECIMAL CHECK (clay BETWEEN 0 AND 100);
+
+-- Salinity response per crop (ECe in dS/m) from Maas-Hanson thresholds and
+-- slopes, floored at 10% relative yield
+UPDATE public.crops SET response_curves = response_curves || '{"ec": [[1.7, 1], [9.2, 0.1]]}' WHERE id = 'maize';
+UPDATE public.crops SET response_curves = response_curves || '{"ec": [[6.0, 1], [18.7, 0.1]]}' WHERE id = 'wheat';
+UPDATE public.crops SET response_curves = response_curves || '{"ec": [[1.0, 1], [5.7, 0.1]]}' WHERE id = 'beans';
+UPDATE public.crops SET response_curves = response_curves || '{"ec": [[1.7, 1], [9.2, 0.1]]}' WHERE id = 'potatoes';
+UPDATE public.crops SET response_curves = response_curves || '{"ec": [[3.0, 1], [10.5, 0.1]]}' WHERE id = 'rice';
+UPDATE public.crops SET response_curves = response_curves || '{"ec": [[8.0, 1], [26.0, 0.1]]}' WHERE id = 'barley';
+UPDATE public.crops SET response_curves = response_curves || '{"ec": [[2.5, 1], [11.6, 0.1]]}' WHERE id = 'tomatoes';
+
+-- Which optional lab measurements were missing, since they lower confidence
+ALTER TABLE public.predictions ADD COLUMN missing_inputs TEXT[];
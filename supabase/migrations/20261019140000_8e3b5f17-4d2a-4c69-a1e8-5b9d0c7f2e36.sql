@@ -0,0 +1,18 @@
+-- Nutrient uptake per tonne of harvested yield (kg/t), used to budget
+-- fertilizer for a target yield. Beans fix most of their own nitrogen, so
+-- only a starter dose is budgeted.
+ALTER TABLE public.crops
+  ADD COLUMN n_uptake DECIMAL NOT NULL DEFAULT 0,
+  ADD COLUMN p2o5_uptake DECIMAL NOT NULL DEFAULT 0,
+  ADD COLUMN k2o_uptake DECIMAL NOT NULL DEFAULT 0;
+
+UPDATE public.crops SET n_uptake = 25,  p2o5_uptake = 10,  k2o_uptake = 22  WHERE id = 'maize';
+UPDATE public.crops SET n_uptake = 28,  p2o5_uptake = 11,  k2o_uptake = 22  WHERE id = 'wheat';
+UPDATE public.crops SET n_uptake = 10,  p2o5_uptake = 12,  k2o_uptake = 25  WHERE id = 'beans';
+UPDATE public.crops SET n_uptake = 4.5, p2o5_uptake = 1.8, k2o_uptake = 7   WHERE id = 'potatoes';
+UPDATE public.crops SET n_uptake = 20,  p2o5_uptake = 9,   k2o_uptake = 25  WHERE id = 'rice';
+UPDATE public.crops SET n_uptake = 24,  p2o5_uptake = 10,  k2o_uptake = 22  WHERE id = 'barley';
+UPDATE public.crops SET n_uptake = 3,   p2o5_uptake = 1,   k2o_uptake = 4.5 WHERE id = 'tomatoes';
+
+-- Recommendation computed alongside each prediction
+ALTER TABLE public.predictions ADD COLUMN fertilizer_recommendation JSONB;
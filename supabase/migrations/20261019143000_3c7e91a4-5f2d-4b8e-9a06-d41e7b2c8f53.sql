@@ -0,0 +1,22 @@
+-- Crop water use for irrigation planning: FAO-56 crop coefficients for the
+-- initial, mid-season and end stages, the length of each growth stage in
+-- days, effective rooting depth and the share of available water the crop
+-- can use before it is stressed.
+ALTER TABLE public.crops
+  ADD COLUMN kc_initial DECIMAL NOT NULL DEFAULT 0.4,
+  ADD COLUMN kc_mid DECIMAL NOT NULL DEFAULT 1.1,
+  ADD COLUMN kc_end DECIMAL NOT NULL DEFAULT 0.6,
+  ADD COLUMN stage_days INTEGER[] NOT NULL DEFAULT '{25,35,45,25}',
+  ADD COLUMN root_depth_m DECIMAL NOT NULL DEFAULT 1.0,
+  ADD COLUMN depletion_fraction DECIMAL NOT NULL DEFAULT 0.5;
+
+ALTER TABLE public.crops
+  ADD CONSTRAINT crops_stage_days_check CHECK (array_length(stage_days, 1) = 4);
+
+UPDATE public.crops SET kc_initial = 0.3,  kc_mid = 1.2,  kc_end = 0.35, stage_days = '{30,50,60,40}', root_depth_m = 1.2, depletion_fraction = 0.55 WHERE id = 'maize';
+UPDATE public.crops SET kc_initial = 0.3,  kc_mid = 1.15, kc_end = 0.4,  stage_days = '{20,25,60,30}', root_depth_m = 1.2, depletion_fraction = 0.55 WHERE id = 'wheat';
+UPDATE public.crops SET kc_initial = 0.4,  kc_mid = 1.15, kc_end = 0.35, stage_days = '{20,30,40,20}', root_depth_m = 0.7, depletion_fraction = 0.45 WHERE id = 'beans';
+UPDATE public.crops SET kc_initial = 0.5,  kc_mid = 1.15, kc_end = 0.75, stage_days = '{25,30,45,30}', root_depth_m = 0.5, depletion_fraction = 0.35 WHERE id = 'potatoes';
+UPDATE public.crops SET kc_initial = 1.05, kc_mid = 1.2,  kc_end = 0.9,  stage_days = '{30,30,60,30}', root_depth_m = 0.5, depletion_fraction = 0.2  WHERE id = 'rice';
+UPDATE public.crops SET kc_initial = 0.3,  kc_mid = 1.15, kc_end = 0.25, stage_days = '{15,25,50,30}', root_depth_m = 1.0, depletion_fraction = 0.55 WHERE id = 'barley';
+UPDATE public.crops SET kc_initial = 0.6,  kc_mid = 1.15, kc_end = 0.8,  stage_days = '{30,40,40,25}', root_depth_m = 1.0, depletion_fraction = 0.4  WHERE id = 'tomatoes';
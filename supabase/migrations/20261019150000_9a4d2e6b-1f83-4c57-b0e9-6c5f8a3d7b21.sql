@@ -0,0 +1,114 @@
+-- Seasonal yield forecasts: one per farm and planting date, holding a
+-- projection of the season's yield for every month from planting to harvest.
+-- Points are recomputed as observations replace the forecast and
+-- climatology the earlier runs relied on.
+CREATE TABLE public.seasonal_forecasts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  farm_id UUID NOT NULL REFERENCES public.farms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  crop_id TEXT NOT NULL REFERENCES public.crops(id),
+  planting_date DATE NOT NULL,
+  harvest_date DATE NOT NULL,
+  model_version TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'complete')),
+  last_computed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (farm_id, planting_date),
+  CHECK (harvest_date > planting_date)
+);
+
+CREATE INDEX idx_seasonal_forecasts_status ON public.seasonal_forecasts (status);
+
+CREATE TABLE public.seasonal_forecast_points (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  forecast_id UUID NOT NULL REFERENCES public.seasonal_forecasts(id) ON DELETE CASCADE,
+  -- First day of the month the projection is for
+  month DATE NOT NULL,
+  yield_per_hectare DECIMAL NOT NULL,
+  yield_low DECIMAL NOT NULL,
+  yield_high DECIMAL NOT NULL,
+  confidence_score INTEGER,
+  -- Days of the season the projection took from each weather source
+  observed_days INTEGER NOT NULL DEFAULT 0,
+  forecast_days INTEGER NOT NULL DEFAULT 0,
+  climatology_days INTEGER NOT NULL DEFAULT 0,
+  computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (forecast_id, month)
+);
+
+ALTER TABLE public.seasonal_forecasts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.seasonal_forecast_points ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own seasonal forecasts"
+ON public.seasonal_forecasts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own seasonal forecasts"
+ON public.seasonal_forecasts
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own seasonal forecasts"
+ON public.seasonal_forecasts
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own seasonal forecasts"
+ON public.seasonal_forecasts
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Points belong to whoever owns the forecast
+CREATE POLICY "Users can view their own forecast points"
+ON public.seasonal_forecast_points
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.seasonal_forecasts f
+  WHERE f.id = forecast_id AND f.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can create their own forecast points"
+ON public.seasonal_forecast_points
+FOR INSERT
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.seasonal_forecasts f
+  WHERE f.id = forecast_id AND f.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can update their own forecast points"
+ON public.seasonal_forecast_points
+FOR UPDATE
+USING (EXISTS (
+  SELECT 1 FROM public.seasonal_forecasts f
+  WHERE f.id = forecast_id AND f.user_id = auth.uid()
+));
+
+CREATE TRIGGER update_seasonal_forecasts_updated_at
+BEFORE UPDATE ON public.seasonal_forecasts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Refresh active forecasts every morning once the previous day's weather is
+-- in. The job calls the refresh-seasonal-forecasts function with the service
+-- role key; both the project URL and the key are read from Vault secrets
+-- named project_url and service_role_key.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'refresh-seasonal-forecasts',
+  '0 4 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/refresh-seasonal-forecasts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
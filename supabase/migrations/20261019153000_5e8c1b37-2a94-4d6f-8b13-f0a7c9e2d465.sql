@@ -0,0 +1,19 @@
+-- Predictions report a yield distribution instead of a confidence
+-- percentage: the model's estimate as the median (P50) with the 10th and 90th
+-- percentiles, and the combined relative error they were drawn from.
+ALTER TABLE public.predictions
+  ADD COLUMN yield_p10 DECIMAL,
+  ADD COLUMN yield_p50 DECIMAL,
+  ADD COLUMN yield_p90 DECIMAL,
+  ADD COLUMN relative_error DECIMAL;
+
+-- Older predictions only have the point estimate; their spread is unknown
+UPDATE public.predictions SET yield_p50 = yield_per_hectare;
+
+COMMENT ON COLUMN public.predictions.confidence_score IS
+  'Deprecated: heuristic score kept for predictions made before yield intervals; new predictions leave it null.';
+
+-- Seasonal forecast points use the same percentiles
+ALTER TABLE public.seasonal_forecast_points RENAME COLUMN yield_low TO yield_p10;
+ALTER TABLE public.seasonal_forecast_points RENAME COLUMN yield_high TO yield_p90;
+ALTER TABLE public.seasonal_forecast_points DROP COLUMN confidence_score;
@@ -0,0 +1,4 @@
+-- How much each input (crop potential, pH, moisture, organic matter, lab
+-- nutrients, weather) moved the yield from the crop's base yield, with
+-- advice for the factors holding it back
+ALTER TABLE public.predictions ADD COLUMN factor_contributions JSONB;
@@ -0,0 +1,12 @@
+-- Typical farm-gate price per tonne of harvest (KES), used to compare crops
+-- by expected revenue. Rough averages across Kenyan markets; beans and rice
+-- are priced as dry grain and paddy.
+ALTER TABLE public.crops ADD COLUMN reference_price_per_tonne DECIMAL NOT NULL DEFAULT 0;
+
+UPDATE public.crops SET reference_price_per_tonne = 45000  WHERE id = 'maize';
+UPDATE public.crops SET reference_price_per_tonne = 52000  WHERE id = 'wheat';
+UPDATE public.crops SET reference_price_per_tonne = 110000 WHERE id = 'beans';
+UPDATE public.crops SET reference_price_per_tonne = 30000  WHERE id = 'potatoes';
+UPDATE public.crops SET reference_price_per_tonne = 60000  WHERE id = 'rice';
+UPDATE public.crops SET reference_price_per_tonne = 40000  WHERE id = 'barley';
+UPDATE public.crops SET reference_price_per_tonne = 45000  WHERE id = 'tomatoes';
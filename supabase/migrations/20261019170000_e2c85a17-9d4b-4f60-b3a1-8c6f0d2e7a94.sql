@@ -0,0 +1,62 @@
+-- Crop prices observed at markets, imported from price lists. Rows without
+-- a user are shared reference prices; users import their own alongside them.
+-- Prices are quoted per unit of sale (a 90 kg bag of maize, a crate of
+-- tomatoes) with the unit's weight so they can be compared per tonne.
+CREATE TABLE public.market_prices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  crop_id TEXT NOT NULL REFERENCES public.crops(id),
+  market TEXT NOT NULL,
+  price_date DATE NOT NULL,
+  price DECIMAL NOT NULL CHECK (price > 0),
+  unit TEXT NOT NULL,
+  unit_kg DECIMAL NOT NULL CHECK (unit_kg > 0),
+  currency TEXT NOT NULL DEFAULT 'KES' CHECK (currency = 'KES'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_market_prices_crop_date ON public.market_prices (crop_id, price_date DESC);
+
+ALTER TABLE public.market_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view shared and their own market prices"
+ON public.market_prices
+FOR SELECT
+USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own market prices"
+ON public.market_prices
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own market prices"
+ON public.market_prices
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own market prices"
+ON public.market_prices
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_market_prices_updated_at
+BEFORE UPDATE ON public.market_prices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Typical cost per hectare (KES) of seed, land preparation, labour and crop
+-- protection; fertilizer and lime are costed from each prediction's
+-- recommendation on top
+ALTER TABLE public.crops ADD COLUMN base_input_cost_per_ha DECIMAL NOT NULL DEFAULT 0;
+
+UPDATE public.crops SET base_input_cost_per_ha = 45000  WHERE id = 'maize';
+UPDATE public.crops SET base_input_cost_per_ha = 40000  WHERE id = 'wheat';
+UPDATE public.crops SET base_input_cost_per_ha = 35000  WHERE id = 'beans';
+UPDATE public.crops SET base_input_cost_per_ha = 120000 WHERE id = 'potatoes';
+UPDATE public.crops SET base_input_cost_per_ha = 80000  WHERE id = 'rice';
+UPDATE public.crops SET base_input_cost_per_ha = 38000  WHERE id = 'barley';
+UPDATE public.crops SET base_input_cost_per_ha = 250000 WHERE id = 'tomatoes';
+
+-- Gross revenue, input costs and margin computed alongside each prediction
+ALTER TABLE public.predictions ADD COLUMN revenue_projection JSONB;
@@ -0,0 +1,148 @@
+-- Predictions record the crop they were made for, so they can be matched to
+-- its harvest after the farm has moved on to another crop
+ALTER TABLE public.predictions ADD COLUMN crop_id TEXT REFERENCES public.crops(id);
+
+UPDATE public.predictions p
+SET crop_id = f.crop_type
+FROM public.farms f
+WHERE f.id = p.farm_id AND f.crop_type IN (SELECT id FROM public.crops);
+
+-- Moisture content (%) grain yields are quoted at. Harvests weighed wetter or
+-- drier are corrected to it before they are compared with predictions; crops
+-- sold fresh have none.
+ALTER TABLE public.crops ADD COLUMN standard_moisture DECIMAL;
+
+UPDATE public.crops SET standard_moisture = 13.5 WHERE id IN ('maize', 'wheat', 'barley');
+UPDATE public.crops SET standard_moisture = 14   WHERE id IN ('beans', 'rice');
+
+-- What was actually harvested from a farm, optionally for one of its
+-- forecast seasons. The yield per hectare is derived on write from the
+-- quantity, the area harvested and the moisture at weighing.
+CREATE TABLE public.harvests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  farm_id UUID NOT NULL REFERENCES public.farms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  crop_id TEXT NOT NULL REFERENCES public.crops(id),
+  season_id UUID REFERENCES public.seasonal_forecasts(id) ON DELETE SET NULL,
+  planting_date DATE NOT NULL,
+  harvested_on DATE NOT NULL,
+  quantity_tonnes DECIMAL NOT NULL CHECK (quantity_tonnes >= 0),
+  area_hectares DECIMAL NOT NULL CHECK (area_hectares > 0),
+  moisture_percent DECIMAL CHECK (moisture_percent BETWEEN 0 AND 100),
+  quality_grade TEXT CHECK (quality_grade IN ('grade_1', 'grade_2', 'grade_3', 'below_grade')),
+  notes TEXT,
+  yield_per_hectare DECIMAL NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (harvested_on > planting_date)
+);
+
+CREATE INDEX idx_harvests_farm_crop ON public.harvests (farm_id, crop_id, harvested_on);
+
+ALTER TABLE public.harvests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own harvests"
+ON public.harvests
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own harvests"
+ON public.harvests
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own harvests"
+ON public.harvests
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own harvests"
+ON public.harvests
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_harvests_updated_at
+BEFORE UPDATE ON public.harvests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Yield per hectare at the crop's standard moisture, when both are known
+CREATE OR REPLACE FUNCTION public.set_harvest_yield()
+RETURNS TRIGGER AS $$
+DECLARE
+  standard DECIMAL;
+BEGIN
+  SELECT standard_moisture INTO standard FROM public.crops WHERE id = NEW.crop_id;
+  NEW.yield_per_hectare = NEW.quantity_tonnes / NEW.area_hectares *
+    CASE
+      WHEN standard IS NOT NULL AND NEW.moisture_percent IS NOT NULL
+        THEN (100 - NEW.moisture_percent) / (100 - standard)
+      ELSE 1
+    END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_harvests_yield
+BEFORE INSERT OR UPDATE ON public.harvests
+FOR EACH ROW
+EXECUTE FUNCTION public.set_harvest_yield();
+
+-- Each prediction scored against the harvest it was made for: the first
+-- harvest of the same farm and crop on or after the prediction, counting
+-- predictions from three months before planting (when the crop is being
+-- chosen) up to harvest day. Error is predicted minus actual, so a positive
+-- bias means the model over-predicts.
+CREATE VIEW public.prediction_accuracy
+WITH (security_invoker = true) AS
+SELECT
+  p.id AS prediction_id,
+  h.id AS harvest_id,
+  p.farm_id,
+  p.user_id,
+  h.crop_id,
+  COALESCE(p.model_version, 'heuristic-v1.0') AS model_version,
+  p.created_at AS predicted_at,
+  h.harvested_on,
+  h.harvested_on - p.created_at::date AS days_before_harvest,
+  COALESCE(p.yield_p50, p.yield_per_hectare) AS predicted_yield,
+  p.yield_p10,
+  p.yield_p90,
+  h.yield_per_hectare AS actual_yield,
+  COALESCE(p.yield_p50, p.yield_per_hectare) - h.yield_per_hectare AS error,
+  ABS(COALESCE(p.yield_p50, p.yield_per_hectare) - h.yield_per_hectare)
+    / NULLIF(h.yield_per_hectare, 0) AS absolute_percentage_error,
+  CASE
+    WHEN p.yield_p10 IS NULL OR p.yield_p90 IS NULL THEN NULL
+    ELSE h.yield_per_hectare BETWEEN p.yield_p10 AND p.yield_p90
+  END AS within_interval
+FROM public.predictions p
+JOIN LATERAL (
+  SELECT *
+  FROM public.harvests h
+  WHERE h.farm_id = p.farm_id
+    AND h.crop_id = p.crop_id
+    AND p.created_at::date BETWEEN h.planting_date - 90 AND h.harvested_on
+  ORDER BY h.harvested_on
+  LIMIT 1
+) h ON true;
+
+-- Accuracy across all users by crop and model version, for model
+-- maintainers. MAPE leaves out failed harvests, which have no percentage
+-- error. Only the service role can read it; users see their own scores
+-- through prediction_accuracy.
+CREATE VIEW public.model_accuracy AS
+SELECT
+  crop_id,
+  model_version,
+  COUNT(*) AS predictions,
+  COUNT(DISTINCT harvest_id) AS harvests,
+  AVG(error) AS bias,
+  AVG(ABS(error)) AS mean_absolute_error,
+  SQRT(AVG(error * error)) AS rmse,
+  AVG(absolute_percentage_error) * 100 AS mape,
+  AVG(CASE WHEN within_interval THEN 1.0 WHEN NOT within_interval THEN 0.0 END) AS interval_coverage
+FROM public.prediction_accuracy
+GROUP BY crop_id, model_version;
+
+REVOKE ALL ON public.model_accuracy FROM anon, authenticated;
@@ -0,0 +1,45 @@
+-- Crop base yields refitted per yield model from recorded harvests by the
+-- calibrate-models job. The active calibration for a model and crop replaces
+-- the catalogue base yield when that model predicts the crop, and tags its
+-- predictions' model_version (e.g. heuristic-v2.2+cal.3). Each calibration
+-- keeps the one it replaced so it can be rolled back.
+CREATE TABLE public.model_calibrations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  model_id TEXT NOT NULL,
+  crop_id TEXT NOT NULL REFERENCES public.crops(id),
+  -- Sequence per model and crop, starting at 1
+  version INTEGER NOT NULL,
+  base_yield DECIMAL NOT NULL CHECK (base_yield > 0),
+  -- Catalogue base yield the fit started from
+  catalogue_base_yield DECIMAL NOT NULL,
+  sample_size INTEGER NOT NULL,
+  -- Error against the harvests (t/ha) with the coefficients being replaced
+  -- and, held out one harvest at a time, with the new ones
+  before_metrics JSONB NOT NULL,
+  after_metrics JSONB NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('active', 'retired', 'rolled_back', 'rejected')),
+  previous_id UUID REFERENCES public.model_calibrations(id),
+  fitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  activated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (model_id, crop_id, version)
+);
+
+CREATE UNIQUE INDEX idx_model_calibrations_active
+ON public.model_calibrations (model_id, crop_id)
+WHERE status = 'active';
+
+ALTER TABLE public.model_calibrations ENABLE ROW LEVEL SECURITY;
+
+-- Calibrations are read by every prediction; only the calibration job (with
+-- the service role key) writes them
+CREATE POLICY "Model calibrations are viewable by everyone"
+ON public.model_calibrations
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_model_calibrations_updated_at
+BEFORE UPDATE ON public.model_calibrations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,261 @@
+-- A season is one planting of a crop on a farm, from planting to the
+-- expected harvest. Predictions, soil tests, forecasts and harvests belong to
+-- the season they were made for. Rains are Kenya's long (March to May) and
+-- short (October to December) rainy seasons.
+CREATE TABLE public.seasons (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  farm_id UUID NOT NULL REFERENCES public.farms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  crop_id TEXT NOT NULL REFERENCES public.crops(id),
+  variety TEXT,
+  planting_date DATE NOT NULL,
+  expected_harvest_date DATE NOT NULL,
+  rains TEXT CHECK (rains IN ('long_rains', 'short_rains')),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (farm_id, crop_id, planting_date),
+  CHECK (expected_harvest_date > planting_date)
+);
+
+CREATE INDEX idx_seasons_farm_dates ON public.seasons (farm_id, planting_date, expected_harvest_date);
+
+ALTER TABLE public.seasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own seasons"
+ON public.seasons
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own seasons"
+ON public.seasons
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own seasons"
+ON public.seasons
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own seasons"
+ON public.seasons
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_seasons_updated_at
+BEFORE UPDATE ON public.seasons
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Existing forecasts and harvests each become a season. Plantings from
+-- February to July are counted as long rains, the rest as short rains.
+INSERT INTO public.seasons (farm_id, user_id, crop_id, planting_date, expected_harvest_date, rains)
+SELECT farm_id, user_id, crop_id, planting_date, harvest_date,
+  CASE WHEN EXTRACT(MONTH FROM planting_date) BETWEEN 2 AND 7 THEN 'long_rains' ELSE 'short_rains' END
+FROM public.seasonal_forecasts
+ON CONFLICT (farm_id, crop_id, planting_date) DO NOTHING;
+
+INSERT INTO public.seasons (farm_id, user_id, crop_id, planting_date, expected_harvest_date, rains)
+SELECT farm_id, user_id, crop_id, planting_date, harvested_on,
+  CASE WHEN EXTRACT(MONTH FROM planting_date) BETWEEN 2 AND 7 THEN 'long_rains' ELSE 'short_rains' END
+FROM public.harvests
+ON CONFLICT (farm_id, crop_id, planting_date) DO NOTHING;
+
+-- A season has at most one forecast, which copies its crop and dates.
+-- Forecasts are no longer unique per farm and planting date, since two
+-- crops on a farm can be planted the same day.
+ALTER TABLE public.seasonal_forecasts
+  ADD COLUMN season_id UUID REFERENCES public.seasons(id) ON DELETE CASCADE;
+
+UPDATE public.seasonal_forecasts f
+SET season_id = s.id
+FROM public.seasons s
+WHERE s.farm_id = f.farm_id AND s.crop_id = f.crop_id AND s.planting_date = f.planting_date;
+
+ALTER TABLE public.seasonal_forecasts
+  ALTER COLUMN season_id SET NOT NULL,
+  DROP CONSTRAINT seasonal_forecasts_farm_id_planting_date_key,
+  ADD CONSTRAINT seasonal_forecasts_season_id_key UNIQUE (season_id);
+
+-- Rescheduling a season moves its forecast and puts it back on the daily
+-- refresh, which marks it complete again once harvest has passed
+CREATE OR REPLACE FUNCTION public.sync_season_forecast()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.seasonal_forecasts
+  SET crop_id = NEW.crop_id,
+      planting_date = NEW.planting_date,
+      harvest_date = NEW.expected_harvest_date,
+      status = 'active'
+  WHERE season_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER sync_seasons_forecast
+AFTER UPDATE OF crop_id, planting_date, expected_harvest_date ON public.seasons
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_season_forecast();
+
+-- Harvests record a season's outcome; crops picked more than once, like
+-- tomatoes, have a harvest per picking. The crop and planting date come from
+-- the season.
+DROP VIEW public.model_accuracy;
+DROP VIEW public.prediction_accuracy;
+
+ALTER TABLE public.harvests DROP CONSTRAINT harvests_season_id_fkey;
+
+UPDATE public.harvests h
+SET season_id = s.id
+FROM public.seasons s
+WHERE s.farm_id = h.farm_id AND s.crop_id = h.crop_id AND s.planting_date = h.planting_date;
+
+DROP INDEX public.idx_harvests_farm_crop;
+CREATE INDEX idx_harvests_season ON public.harvests (season_id);
+
+ALTER TABLE public.harvests
+  ALTER COLUMN season_id SET NOT NULL,
+  ADD CONSTRAINT harvests_season_id_fkey FOREIGN KEY (season_id) REFERENCES public.seasons(id) ON DELETE CASCADE,
+  DROP COLUMN crop_id,
+  DROP COLUMN planting_date;
+
+CREATE OR REPLACE FUNCTION public.set_harvest_yield()
+RETURNS TRIGGER AS $$
+DECLARE
+  standard DECIMAL;
+BEGIN
+  SELECT c.standard_moisture INTO standard
+  FROM public.seasons s
+  JOIN public.crops c ON c.id = s.crop_id
+  WHERE s.id = NEW.season_id;
+
+  NEW.yield_per_hectare = NEW.quantity_tonnes / NEW.area_hectares *
+    CASE
+      WHEN standard IS NOT NULL AND NEW.moisture_percent IS NOT NULL
+        THEN (100 - NEW.moisture_percent) / (100 - standard)
+      ELSE 1
+    END;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Predictions and soil tests are filed under a season
+ALTER TABLE public.predictions
+  ADD COLUMN season_id UUID REFERENCES public.seasons(id) ON DELETE SET NULL;
+ALTER TABLE public.soil_tests
+  ADD COLUMN season_id UUID REFERENCES public.seasons(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_predictions_season ON public.predictions (season_id);
+CREATE INDEX idx_soil_tests_season ON public.soil_tests (season_id);
+
+-- The farm's season running on a date, counting the three months before
+-- planting when the crop is being chosen and the soil prepared. With a crop
+-- only that crop's seasons count; the latest planting wins.
+CREATE OR REPLACE FUNCTION public.season_on(farm UUID, on_date DATE, crop TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+  SELECT id
+  FROM public.seasons
+  WHERE farm_id = farm
+    AND (crop IS NULL OR crop_id = crop)
+    AND on_date BETWEEN planting_date - 90 AND expected_harvest_date
+  ORDER BY planting_date DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+UPDATE public.predictions
+SET season_id = public.season_on(farm_id, created_at::date, crop_id)
+WHERE crop_id IS NOT NULL;
+
+UPDATE public.soil_tests
+SET season_id = public.season_on(farm_id, tested_on);
+
+-- Rows written without a season are filed under the one running at the time
+CREATE OR REPLACE FUNCTION public.set_prediction_season()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.season_id IS NULL AND NEW.crop_id IS NOT NULL THEN
+    NEW.season_id = public.season_on(NEW.farm_id, COALESCE(NEW.created_at, now())::date, NEW.crop_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_soil_test_season()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.season_id IS NULL THEN
+    NEW.season_id = public.season_on(NEW.farm_id, NEW.tested_on);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_predictions_season
+BEFORE INSERT ON public.predictions
+FOR EACH ROW
+EXECUTE FUNCTION public.set_prediction_season();
+
+CREATE TRIGGER set_soil_tests_season
+BEFORE INSERT ON public.soil_tests
+FOR EACH ROW
+EXECUTE FUNCTION public.set_soil_test_season();
+
+-- Each prediction made before picking began scored against its season's
+-- harvest: the moisture-corrected tonnes of all its pickings over the farm's
+-- area. Error is predicted minus actual, so a positive bias means the model
+-- over-predicts.
+CREATE VIEW public.prediction_accuracy
+WITH (security_invoker = true) AS
+WITH season_harvests AS (
+  SELECT
+    h.season_id,
+    MIN(h.harvested_on) AS first_harvested_on,
+    MAX(h.harvested_on) AS harvested_on,
+    SUM(h.yield_per_hectare * h.area_hectares)
+      / NULLIF(COALESCE(f.boundary_area_hectares, f.area_hectares), 0) AS yield_per_hectare
+  FROM public.harvests h
+  JOIN public.seasons s ON s.id = h.season_id
+  JOIN public.farms f ON f.id = s.farm_id
+  GROUP BY h.season_id, f.boundary_area_hectares, f.area_hectares
+)
+SELECT
+  p.id AS prediction_id,
+  p.farm_id,
+  p.user_id,
+  s.crop_id,
+  COALESCE(p.model_version, 'heuristic-v1.0') AS model_version,
+  p.created_at AS predicted_at,
+  h.harvested_on,
+  h.first_harvested_on - p.created_at::date AS days_before_harvest,
+  COALESCE(p.yield_p50, p.yield_per_hectare) AS predicted_yield,
+  p.yield_p10,
+  p.yield_p90,
+  h.yield_per_hectare AS actual_yield,
+  COALESCE(p.yield_p50, p.yield_per_hectare) - h.yield_per_hectare AS error,
+  ABS(COALESCE(p.yield_p50, p.yield_per_hectare) - h.yield_per_hectare)
+    / NULLIF(h.yield_per_hectare, 0) AS absolute_percentage_error,
+  CASE
+    WHEN p.yield_p10 IS NULL OR p.yield_p90 IS NULL THEN NULL
+    ELSE h.yield_per_hectare BETWEEN p.yield_p10 AND p.yield_p90
+  END AS within_interval,
+  s.id AS season_id
+FROM public.predictions p
+JOIN public.seasons s ON s.id = p.season_id
+JOIN season_harvests h ON h.season_id = s.id
+WHERE p.created_at::date <= h.first_harvested_on;
+
+CREATE VIEW public.model_accuracy AS
+SELECT
+  crop_id,
+  model_version,
+  COUNT(*) AS predictions,
+  COUNT(DISTINCT season_id) AS harvests,
+  AVG(error) AS bias,
+  AVG(ABS(error)) AS mean_absolute_error,
+  SQRT(AVG(error * error)) AS rmse,
+  AVG(absolute_percentage_error) * 100 AS mape,
+  AVG(CASE WHEN within_interval THEN 1.0 WHEN NOT within_interval THEN 0.0 END) AS interval_coverage
+FROM public.prediction_accuracy
+GROUP BY crop_id, model_version;
+
+REVOKE ALL ON public.model_accuracy FROM anon, authenticated;
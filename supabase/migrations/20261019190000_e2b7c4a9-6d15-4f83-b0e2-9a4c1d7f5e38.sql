@@ -0,0 +1,81 @@
+-- Growing degree days: each day adds its mean temperature above the crop's
+-- base temperature, capped at the temperature above which development no
+-- longer speeds up. gdd_to_maturity is for the catalogue's typical variety.
+ALTER TABLE public.crops
+  ADD COLUMN base_temperature DECIMAL NOT NULL DEFAULT 10,
+  ADD COLUMN max_temperature DECIMAL NOT NULL DEFAULT 30,
+  ADD COLUMN gdd_to_maturity DECIMAL NOT NULL DEFAULT 1500;
+
+UPDATE public.crops SET base_temperature = 10, max_temperature = 30, gdd_to_maturity = 1500 WHERE id = 'maize';
+UPDATE public.crops SET base_temperature = 0,  max_temperature = 26, gdd_to_maturity = 2000 WHERE id = 'wheat';
+UPDATE public.crops SET base_temperature = 10, max_temperature = 30, gdd_to_maturity = 1200 WHERE id = 'beans';
+UPDATE public.crops SET base_temperature = 7,  max_temperature = 29, gdd_to_maturity = 1300 WHERE id = 'potatoes';
+UPDATE public.crops SET base_temperature = 10, max_temperature = 35, gdd_to_maturity = 2100 WHERE id = 'rice';
+UPDATE public.crops SET base_temperature = 0,  max_temperature = 26, gdd_to_maturity = 1750 WHERE id = 'barley';
+UPDATE public.crops SET base_temperature = 10, max_temperature = 32, gdd_to_maturity = 1600 WHERE id = 'tomatoes';
+
+-- Varieties of a catalogue crop. A variety replaces the crop's base yield
+-- with its own yield potential and stretches the growth stages to its
+-- maturity, in days at typical temperatures and in degree days.
+CREATE TABLE public.crop_varieties (
+  id TEXT NOT NULL PRIMARY KEY,
+  crop_id TEXT NOT NULL REFERENCES public.crops(id),
+  name TEXT NOT NULL,
+  maturity_days INTEGER NOT NULL CHECK (maturity_days > 0),
+  gdd_to_maturity DECIMAL NOT NULL CHECK (gdd_to_maturity > 0),
+  -- Attainable yield (t/ha) with good management
+  yield_potential DECIMAL NOT NULL CHECK (yield_potential > 0),
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (crop_id, name),
+  UNIQUE (id, crop_id)
+);
+
+ALTER TABLE public.crop_varieties ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Crop varieties are viewable by everyone"
+ON public.crop_varieties
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_crop_varieties_updated_at
+BEFORE UPDATE ON public.crop_varieties
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.crop_varieties (id, crop_id, name, maturity_days, gdd_to_maturity, yield_potential, description) VALUES
+  ('maize-h614',            'maize',    'H614D',            180, 1500, 6.0,  'Late highland hybrid for 1,500–2,100 m'),
+  ('maize-h6213',           'maize',    'H6213',            165, 1400, 6.5,  'Highland hybrid with grey leaf spot tolerance'),
+  ('maize-h513',            'maize',    'H513',             130, 1400, 5.0,  'Mid-altitude hybrid for 1,000–1,500 m'),
+  ('maize-dh04',            'maize',    'DH04',             100, 1150, 3.5,  'Early drought-tolerant hybrid for dryland areas'),
+  ('maize-local',           'maize',    'Local variety',    170, 1450, 2.5,  'Farm-saved open-pollinated seed'),
+  ('wheat-robin',           'wheat',    'Robin',            120, 1800, 3.5,  'Stem rust resistant bread wheat'),
+  ('wheat-fahari',          'wheat',    'Kenya Fahari',     125, 1900, 3.2,  NULL),
+  ('beans-rosecoco',        'beans',    'Rosecoco (GLP-2)',  90, 1000, 1.8,  'Bush bean, red-speckled seed'),
+  ('beans-kk8',             'beans',    'KK8',               85,  950, 2.0,  'Root rot tolerant bush bean'),
+  ('potatoes-shangi',       'potatoes', 'Shangi',           100, 1000, 25.0, 'Early variety with short dormancy'),
+  ('potatoes-dutch-robijn', 'potatoes', 'Dutch Robijn',     120, 1200, 28.0, 'Processing variety for crisps'),
+  ('rice-basmati-370',      'rice',     'Basmati 370',      135, 1900, 4.5,  'Aromatic irrigated rice'),
+  ('rice-ir2793',           'rice',     'IR2793-80-1',      125, 1800, 6.5,  'High-yielding irrigated rice'),
+  ('barley-nguzo',          'barley',   'Nguzo',            120, 1750, 3.5,  'Malting barley'),
+  ('tomatoes-rio-grande',   'tomatoes', 'Rio Grande',       120, 1450, 40.0, 'Determinate processing tomato'),
+  ('tomatoes-anna-f1',      'tomatoes', 'Anna F1',          140, 1700, 60.0, 'Indeterminate hybrid for greenhouses');
+
+-- Seasons pick a catalogue variety of their crop; the free-text variety
+-- stays for ones the catalogue doesn't list
+ALTER TABLE public.seasons
+  ADD COLUMN variety_id TEXT,
+  ADD CONSTRAINT seasons_variety_id_fkey
+    FOREIGN KEY (variety_id, crop_id) REFERENCES public.crop_varieties(id, crop_id);
+
+UPDATE public.seasons s
+SET variety_id = v.id
+FROM public.crop_varieties v
+WHERE v.crop_id = s.crop_id AND lower(v.name) = lower(trim(s.variety));
+
+-- Predictions record the variety they were made for and the crop's growth
+-- stage at the time
+ALTER TABLE public.predictions
+  ADD COLUMN variety_id TEXT REFERENCES public.crop_varieties(id),
+  ADD COLUMN growth_stage JSONB;
@@ -0,0 +1,73 @@
+-- Farm activity log: the operations done on a farm, what they cost and, for
+-- fertilizer, sprays and irrigation, what was applied. Costs are in KES for
+-- the whole farm. Rates are per hectare: kg/ha or L/ha of product, or mm of
+-- water for irrigation.
+CREATE TABLE public.farm_activities (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  farm_id UUID NOT NULL REFERENCES public.farms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  season_id UUID REFERENCES public.seasons(id) ON DELETE SET NULL,
+  activity_type TEXT NOT NULL
+    CHECK (activity_type IN ('planting', 'fertilizer', 'spraying', 'irrigation', 'weeding', 'harvest')),
+  performed_on DATE NOT NULL,
+  product TEXT,
+  rate DECIMAL CHECK (rate > 0),
+  rate_unit TEXT CHECK (rate_unit IN ('kg_per_ha', 'l_per_ha', 'mm')),
+  -- Fertilizer grade as N-P2O5-K2O, % by weight
+  analysis DECIMAL[] CHECK (array_length(analysis, 1) = 3),
+  cost DECIMAL CHECK (cost >= 0),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((rate IS NULL) = (rate_unit IS NULL)),
+  -- Applied fertilizer is credited against the next recommendation, so its
+  -- rate and grade are needed
+  CHECK (activity_type <> 'fertilizer' OR (product IS NOT NULL AND rate_unit = 'kg_per_ha' AND analysis IS NOT NULL))
+);
+
+CREATE INDEX idx_farm_activities_farm_date ON public.farm_activities (farm_id, performed_on);
+CREATE INDEX idx_farm_activities_season ON public.farm_activities (season_id);
+
+ALTER TABLE public.farm_activities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own farm activities"
+ON public.farm_activities
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own farm activities"
+ON public.farm_activities
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own farm activities"
+ON public.farm_activities
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own farm activities"
+ON public.farm_activities
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_farm_activities_updated_at
+BEFORE UPDATE ON public.farm_activities
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Activities logged without a season are filed under the one running on
+-- their date, as soil tests are
+CREATE OR REPLACE FUNCTION public.set_farm_activity_season()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.season_id IS NULL THEN
+    NEW.season_id = public.season_on(NEW.farm_id, NEW.performed_on);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_farm_activities_season
+BEFORE INSERT ON public.farm_activities
+FOR EACH ROW
+EXECUTE FUNCTION public.set_farm_activity_season();
@@ -0,0 +1,142 @@
+-- Pest and disease risk rules. A day favours the pest when its mean
+-- temperature, mean humidity and rainfall all fall within the rule's limits;
+-- risk is high once favourable days run streak_days in a row within the
+-- last window_days or the forecast, and medium from half that. Rules only
+-- apply while the crop is at one of the listed growth stages, or at any
+-- stage when none are listed.
+CREATE TABLE public.pest_risk_rules (
+  id TEXT NOT NULL PRIMARY KEY,
+  crop_id TEXT NOT NULL REFERENCES public.crops(id),
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('pest', 'disease')),
+  -- The favourable weather in words, for alerts
+  weather_trigger TEXT NOT NULL,
+  advice TEXT NOT NULL,
+  stages TEXT[],
+  window_days INTEGER NOT NULL CHECK (window_days BETWEEN 1 AND 30),
+  streak_days INTEGER NOT NULL CHECK (streak_days > 0),
+  min_temperature DECIMAL,
+  max_temperature DECIMAL,
+  min_humidity DECIMAL,
+  max_humidity DECIMAL,
+  min_rainfall_mm DECIMAL,
+  max_rainfall_mm DECIMAL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (stages <@ ARRAY['initial', 'development', 'mid', 'late'])
+);
+
+ALTER TABLE public.pest_risk_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Pest risk rules are viewable by everyone"
+ON public.pest_risk_rules
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_pest_risk_rules_updated_at
+BEFORE UPDATE ON public.pest_risk_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.pest_risk_rules
+  (id, crop_id, name, kind, weather_trigger, advice, stages, window_days, streak_days,
+   min_temperature, max_temperature, min_humidity, max_humidity, min_rainfall_mm, max_rainfall_mm)
+VALUES
+  ('maize-fall-armyworm', 'maize', 'Fall armyworm', 'pest',
+   'warm, dry spells',
+   'Scout 20 plants in a W across the field twice a week. Act when more than 1 in 10 seedlings or 2 in 10 older plants show fresh window-pane damage: apply an approved insecticide such as emamectin benzoate into the funnel in the early morning or evening.',
+   ARRAY['initial', 'development', 'mid'], 21, 7, 20, 32, NULL, NULL, NULL, 2),
+  ('maize-lethal-necrosis', 'maize', 'Maize lethal necrosis', 'disease',
+   'warm, dry weather that builds up thrips and aphids',
+   'Control thrips and aphids, and uproot and destroy plants with yellowing leaves and dead hearts. Use certified seed and rotate with beans or potatoes rather than planting maize after maize.',
+   ARRAY['initial', 'development'], 30, 10, 18, 30, NULL, 70, NULL, 1),
+  ('maize-grey-leaf-spot', 'maize', 'Grey leaf spot', 'disease',
+   'warm, humid days',
+   'Check the lower leaves for grey, rectangular lesions. Where they spread to the leaves around the cob, spray a strobilurin or triazole fungicide; plough in residues after harvest.',
+   ARRAY['development', 'mid', 'late'], 14, 5, 22, 30, 85, NULL, NULL, NULL),
+  ('potatoes-late-blight', 'potatoes', 'Late blight', 'disease',
+   'cool, humid days',
+   'Spray a protectant fungicide such as mancozeb now and repeat every 7 days while the weather holds; switch to a systemic one such as metalaxyl with mancozeb once lesions appear.',
+   NULL, 7, 2, 10, 25, 85, NULL, NULL, NULL),
+  ('tomatoes-late-blight', 'tomatoes', 'Late blight', 'disease',
+   'cool, humid days',
+   'Remove infected leaves, avoid overhead watering and spray a protectant fungicide such as mancozeb every 7 days while the weather holds.',
+   NULL, 7, 2, 10, 25, 85, NULL, NULL, NULL),
+  ('beans-angular-leaf-spot', 'beans', 'Angular leaf spot', 'disease',
+   'mild, wet days',
+   'Avoid working in the field while the leaves are wet, remove badly infected plants and spray a copper fungicide if spots spread to new leaves.',
+   ARRAY['development', 'mid'], 14, 4, 16, 25, NULL, NULL, 2, NULL),
+  ('wheat-stem-rust', 'wheat', 'Stem rust', 'disease',
+   'warm, humid days',
+   'Look for brick-red pustules on the stems and leaf sheaths, and spray a triazole fungicide at the first signs, especially on susceptible varieties.',
+   ARRAY['development', 'mid'], 14, 4, 15, 30, 80, NULL, NULL, NULL),
+  ('rice-blast', 'rice', 'Rice blast', 'disease',
+   'warm, very humid days',
+   'Keep fields flooded, avoid heavy nitrogen top-dressing and spray tricyclazole when diamond-shaped lesions appear on the leaves.',
+   NULL, 10, 3, 20, 28, 90, NULL, NULL, NULL);
+
+-- Alerts raised for farms when a rule's risk reaches medium or high. An
+-- alert stays open while the risk lasts and is cleared once the weather
+-- turns; dismissing one only hides it.
+CREATE TABLE public.pest_alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  farm_id UUID NOT NULL REFERENCES public.farms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  season_id UUID REFERENCES public.seasons(id) ON DELETE SET NULL,
+  rule_id TEXT NOT NULL REFERENCES public.pest_risk_rules(id),
+  risk_level TEXT NOT NULL CHECK (risk_level IN ('medium', 'high')),
+  -- The longest run of favourable days found
+  streak_start DATE NOT NULL,
+  streak_days INTEGER NOT NULL,
+  message TEXT NOT NULL,
+  evaluated_on DATE NOT NULL,
+  cleared_on DATE,
+  dismissed_at TIMESTAMP WITH TIME ZONE,
+  notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open alert per farm and rule
+CREATE UNIQUE INDEX idx_pest_alerts_open ON public.pest_alerts (farm_id, rule_id) WHERE cleared_on IS NULL;
+CREATE INDEX idx_pest_alerts_user ON public.pest_alerts (user_id, cleared_on);
+
+ALTER TABLE public.pest_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own pest alerts"
+ON public.pest_alerts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own pest alerts"
+ON public.pest_alerts
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own pest alerts"
+ON public.pest_alerts
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_pest_alerts_updated_at
+BEFORE UPDATE ON public.pest_alerts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Check every farm each morning after the forecasts are refreshed, and
+-- notify farmers of new and escalated alerts
+SELECT cron.schedule(
+  'refresh-pest-alerts',
+  '30 4 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/refresh-pest-alerts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);